@@ -0,0 +1,191 @@
+/**
+ * xstate-ts-to-mermaid/bundler
+ * Vite/Rollup and esbuild plugins: import a machine module as its Mermaid diagram
+ *
+ *   import diagram from "./order.machine.ts?mermaid&nested&includeMeta=false";
+ *
+ * resolves at build time to `export default "<diagram>"`. Query parameters are
+ * the options of a markdown.ts marker (`nested`, scalar MermaidOptions) plus
+ * `export=<name>` when the module exports several machines. Rendering goes
+ * through renderModuleDiagram (docs.ts): machines are extracted statically and
+ * diagrams are cached by module source, so unchanged machines are not
+ * rendered again. Editing a machine module, or a file it imports constants
+ * from, updates its diagrams through HMR.
+ */
+
+import { dirname, resolve } from "node:path";
+import { getDiagramFiles, renderModuleDiagram, type DiagramFenceOptions } from "./docs.js";
+import { setSpecOption, type DiagramSpec } from "./markdown.js";
+
+export type MermaidImportOptions = DiagramFenceOptions;
+
+/** Query parameter that marks a diagram import */
+const QUERY_FLAG = "mermaid";
+
+/** Parameters bundlers add to import ids on their own */
+const BUNDLER_PARAMETERS = new Set(["import", "t", "v"]);
+
+/**
+ * Split a `file?mermaid&...` id into the module path and the spec its query
+ * asks for; undefined when it is not a diagram import. Throws on unknown options.
+ */
+export function parseMermaidImport(id: string): { file: string; spec: DiagramSpec } | undefined {
+  const queryStart = id.indexOf("?");
+  if (queryStart === -1) return undefined;
+  const params = new URLSearchParams(id.substring(queryStart + 1));
+  if (!params.has(QUERY_FLAG)) return undefined;
+
+  const file = id.substring(0, queryStart);
+  const spec: DiagramSpec = { source: file, options: {} };
+  for (const [key, value] of params) {
+    if (key === QUERY_FLAG || BUNDLER_PARAMETERS.has(key)) continue;
+    if (key === "export") {
+      spec.exportName = value;
+    } else {
+      setSpecOption(spec, key, value === "" ? undefined : value);
+    }
+  }
+  return { file, spec };
+}
+
+/**
+ * Diagram of a diagram import id and the files to watch for it (the machine
+ * module and the files extraction read); undefined for other ids. Errors name the id.
+ */
+function renderMermaidImport(id: string, settings: MermaidImportOptions): { diagram: string; files: string[] } | undefined {
+  const parsed = parseMermaidImport(id);
+  if (!parsed) return undefined;
+  try {
+    const diagram = renderModuleDiagram(parsed.file, parsed.spec, settings);
+    return { diagram, files: getDiagramFiles(parsed.file) };
+  } catch (err) {
+    throw new Error(`${id}: ${(err as Error).message}`);
+  }
+}
+
+/** Module source of a diagram import */
+function diagramModule(diagram: string): string {
+  return `export default ${JSON.stringify(diagram)};\n`;
+}
+
+/** The parts of a Vite dev server module the plugin reads */
+interface ViteModuleNode {
+  id: string | null;
+}
+
+/** The parts of Vite's handleHotUpdate context the plugin reads */
+interface ViteHotUpdateContext {
+  /** Modules of the changed file: the machine module and its diagram imports */
+  modules: ViteModuleNode[];
+}
+
+/** The parts of the Rollup plugin context the plugin calls */
+interface RollupPluginContext {
+  resolve(source: string, importer?: string, options?: { skipSelf?: boolean }): Promise<{ id: string } | null>;
+  addWatchFile(file: string): void;
+}
+
+/**
+ * Vite and Rollup plugin:
+ * `plugins: [xstateMermaid({ nested: true })]` in vite.config.ts or rollup.config.js.
+ *
+ * When a machine module changes, its diagram imports are rendered again; those
+ * whose diagram is unchanged (an edit to code the diagram does not show) are
+ * left out of the hot update, so their importers are not reloaded.
+ */
+export function xstateMermaid(settings: MermaidImportOptions = {}) {
+  /** Last diagram served per import id, to tell whether an edit changed it */
+  const served = new Map<string, string>();
+
+  return {
+    name: "xstate-mermaid",
+    enforce: "pre" as const,
+
+    async resolveId(this: RollupPluginContext, source: string, importer: string | undefined) {
+      const queryStart = source.indexOf("?");
+      if (queryStart === -1 || !parseMermaidImport(source)) return null;
+      const path = source.substring(0, queryStart);
+      // Relative paths next to the importer; aliases, packages and root paths through the bundler
+      const id = importer && /^\.\.?\//.test(path)
+        ? resolve(dirname(importer), path)
+        : (await this.resolve(path, importer, { skipSelf: true }))?.id;
+      return id === undefined ? null : `${id}${source.substring(queryStart)}`;
+    },
+
+    load(this: RollupPluginContext, id: string) {
+      const rendered = renderMermaidImport(id, settings);
+      if (rendered === undefined) return null;
+      rendered.files.forEach(file => this.addWatchFile(file));
+      served.set(id, rendered.diagram);
+      return diagramModule(rendered.diagram);
+    },
+
+    handleHotUpdate(context: ViteHotUpdateContext) {
+      const diagrams = context.modules.filter(module => module.id !== null && parseMermaidImport(module.id));
+      if (diagrams.length === 0) return undefined;
+      const unchanged = diagrams.filter(module => {
+        const id = module.id as string;
+        try {
+          return renderMermaidImport(id, settings)?.diagram === served.get(id);
+        } catch {
+          // Reported by load() once the module is requested again
+          return false;
+        }
+      });
+      return context.modules.filter(module => !unchanged.includes(module));
+    },
+  };
+}
+
+/** The parts of the esbuild plugin build API the plugin uses */
+interface EsbuildPluginBuild {
+  resolve(
+    path: string,
+    options: { resolveDir: string; kind: "import-statement" }
+  ): Promise<{ path: string; errors: Array<{ text: string }> }>;
+  onResolve(
+    options: { filter: RegExp },
+    callback: (args: { path: string; resolveDir: string }) =>
+      Promise<{ path: string; namespace: string } | { errors: Array<{ text: string }> } | undefined>
+  ): void;
+  onLoad(
+    options: { filter: RegExp; namespace: string },
+    callback: (args: { path: string }) => { contents: string; loader: "js"; watchFiles: string[] }
+  ): void;
+}
+
+/**
+ * esbuild plugin: `plugins: [xstateMermaidEsbuild({ nested: true })]`.
+ * Diagram imports load in their own namespace; the machine module and the
+ * files extraction read are watch files, so `esbuild --watch` and
+ * `context.watch()` rebuild when one changes.
+ */
+export function xstateMermaidEsbuild(settings: MermaidImportOptions = {}) {
+  const namespace = "xstate-mermaid";
+  return {
+    name: "xstate-mermaid",
+    setup(build: EsbuildPluginBuild): void {
+      build.onResolve({ filter: /\?(?:.*&)?mermaid(?:[&=]|$)/ }, async args => {
+        const queryStart = args.path.indexOf("?");
+        if (!parseMermaidImport(args.path)) return undefined;
+        const path = args.path.substring(0, queryStart);
+        // Relative paths next to the importer; aliases and packages through esbuild
+        let file = resolve(args.resolveDir, path);
+        if (!/^\.\.?\//.test(path)) {
+          const resolved = await build.resolve(path, { resolveDir: args.resolveDir, kind: "import-statement" });
+          if (resolved.errors.length > 0) return { errors: resolved.errors };
+          file = resolved.path;
+        }
+        return { path: `${file}${args.path.substring(queryStart)}`, namespace };
+      });
+      build.onLoad({ filter: /.*/, namespace }, args => {
+        const rendered = renderMermaidImport(args.path, settings);
+        return {
+          contents: diagramModule(rendered?.diagram ?? ""),
+          loader: "js",
+          watchFiles: rendered?.files ?? [args.path.substring(0, args.path.indexOf("?"))],
+        };
+      });
+    },
+  };
+}
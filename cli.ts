@@ -0,0 +1,788 @@
+#!/usr/bin/env node
+/**
+ * xstate-ts-to-mermaid CLI
+ * Render every exported XState v5 machine in the given modules to .mmd/.md files
+ *
+ * Usage: xstate-ts-to-mermaid <files|globs...> [--out dir] [--[no-]nested] [--format mmd|md] [--static] [options]
+ *        xstate-ts-to-mermaid sync <markdown files|globs...> [--check] [--static] [options]
+ *        xstate-ts-to-mermaid lint <files|globs...> [--out dir] [--static] [options]
+ *
+ * Each module is imported, every exported AnyStateMachine is rendered with
+ * toMermaid() (or toMermaidNested() with --nested), and one file is written
+ * per machine. Without --out, diagrams are printed to stdout. With --static,
+ * machines are extracted from the source instead (see extract.ts), so modules
+ * never run.
+ *
+ * `sync` regenerates the diagrams behind `<!-- xstate-mermaid: ... -->` markers
+ * in Markdown files (see markdown.ts). With --check nothing is written: stale
+ * diagrams are printed as a diff and the exit code is 1.
+ *
+ * `lint` prints the findings of analyzeMachine() for every machine and exits
+ * with 1 when there are any; with --out, the diagrams written mark them.
+ * Declared events and setup() names only exist in the source, so unused
+ * events are reported with --static.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, realpathSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { type AnyStateMachine } from "xstate";
+import { analyzeMachine, TAG_STYLE_PRESETS, toMermaid, toMermaidNested, type AnalyzeOptions, type MermaidOptions } from "./index.js";
+import { findDiagramMarkers, selectMachine, syncDiagrams, type DiagramMarker } from "./markdown.js";
+
+/** Default config file looked up in the working directory */
+export const DEFAULT_CONFIG_FILE = "xstate-mermaid.config.json";
+
+export interface CliConfig {
+  /** Output directory (omit to print to stdout) */
+  out?: string;
+  /** Use toMermaidNested() instead of toMermaid(). Default: false */
+  nested?: boolean;
+  /** Output file format. Default: "mmd" */
+  format?: "mmd" | "md";
+  /** Extract machines statically instead of importing modules. Default: false */
+  static?: boolean;
+  /** Options passed through to the renderer */
+  options?: MermaidOptions;
+}
+
+class CliError extends Error {}
+
+/** An exported machine of a module; extracted ones carry what lint reads from the source */
+interface ModuleMachine {
+  name: string;
+  machine: AnyStateMachine;
+  declared?: Pick<AnalyzeOptions, "events" | "implementations">;
+}
+
+/** values: the accepted strings; boolean flags take them as --flag=value besides on and off */
+type FlagSpec = { key: keyof MermaidOptions; type: "string" | "number" | "boolean" | "json"; values?: readonly string[] };
+
+const DIRECTIONS: readonly string[] = ["TB", "LR", "BT", "RL"];
+
+/**
+ * CLI flag -> MermaidOptions key
+ * Boolean flags also accept a --no- prefix (e.g. --no-guards)
+ */
+const OPTION_FLAGS: Record<string, FlagSpec> = {
+  "title": { key: "title", type: "string" },
+  "max-description-length": { key: "maxDescriptionLength", type: "number" },
+  "guards": { key: "includeGuards", type: "boolean" },
+  "actions": { key: "includeActions", type: "boolean" },
+  "entry-actions": { key: "includeEntryActions", type: "boolean" },
+  "exit-actions": { key: "includeExitActions", type: "boolean" },
+  "invokes": { key: "includeInvokes", type: "boolean" },
+  "tags": { key: "includeTags", type: "boolean", values: ["unstyled"] },
+  "meta": { key: "includeMeta", type: "boolean" },
+  "state-ids": { key: "stateIds", type: "string", values: ["auto", "path"] },
+  "fully-qualified-names": { key: "fullyQualifiedNames", type: "boolean" },
+  "guarded-choices": { key: "guardedChoices", type: "boolean" },
+  "direction": { key: "direction", type: "string", values: DIRECTIONS },
+  "state-directions": { key: "stateDirections", type: "json" },
+  "theme": { key: "theme", type: "string" },
+  "tag-styles": { key: "tagStyles", type: "json" },
+  "mermaid-config": { key: "mermaidConfig", type: "json" },
+  "expand-invoked-machines": { key: "expandInvokedMachines", type: "boolean" },
+};
+
+/** Flag value types, as error messages expect them */
+const TYPE_NAMES: Record<FlagSpec["type"], string> = {
+  string: "a string",
+  number: "a number",
+  boolean: "true or false",
+  json: "JSON",
+};
+
+/**
+ * Option values beyond the flag types: the object options (JSON flags), and
+ * an expandInvokedMachines depth
+ */
+const CONFIG_OPTION_VALUES: Partial<Record<keyof MermaidOptions, { expected: string; accepts: (value: unknown) => boolean }>> = {
+  expandInvokedMachines: { expected: "true, false or a depth", accepts: value => typeof value === "number" && Number.isInteger(value) && value >= 0 },
+  stateDirections: {
+    expected: `an object of state ids to ${expectedValues(DIRECTIONS)}`,
+    accepts: value => isObject(value) && Object.values(value).every(direction => DIRECTIONS.some(known => known === direction)),
+  },
+  mermaidConfig: { expected: "an object", accepts: isObject },
+  tagStyles: {
+    expected: "an object of class names to classDef styles",
+    accepts: value => isObject(value) && Object.values(value).every(style => typeof style === "string"),
+  },
+};
+
+/** "a, b or c" */
+function expectedValues(values: readonly string[]): string {
+  return values.length > 1 ? `${values.slice(0, -1).join(", ")} or ${values[values.length - 1]}` : values.join("");
+}
+
+/** What a flag accepts, as error messages expect it */
+function expectedOf(spec: FlagSpec): string {
+  return spec.type === "boolean" && spec.values
+    ? expectedValues(["true", "false", ...spec.values.map(value => JSON.stringify(value))])
+    : TYPE_NAMES[spec.type];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const USAGE = `Usage: xstate-ts-to-mermaid <files|globs...> [flags]
+       xstate-ts-to-mermaid sync <markdown files|globs...> [--check] [flags]
+       xstate-ts-to-mermaid lint <files|globs...> [flags]
+
+Flags:
+  --out <dir>                        Write one file per machine into <dir> (default: stdout; lint: findings marked)
+  --[no-]nested                      Use toMermaidNested() (preserves compound states)
+  --format <mmd|md>                  Output format (default: mmd)
+  --config <file>                    Config file (default: ${DEFAULT_CONFIG_FILE} if present)
+  --static                           Extract machines from the source without running it (needs typescript)
+  --check                            sync: print stale diagrams as a diff instead of updating them
+${Object.entries(OPTION_FLAGS)
+  .map(([flag, spec]) => {
+    const usage = spec.type === "boolean"
+      ? `--[no-]${flag}${spec.values ? `[=${spec.values.join("|")}]` : ""}`
+      : `--${flag} <${spec.values?.join("|") ?? spec.type}>`;
+    return `  ${usage.padEnd(35)}MermaidOptions.${spec.key}`;
+  })
+  .join("\n")}
+  -h, --help                         Show this message`;
+
+interface ParsedArgs {
+  /** Subcommand given as the first argument */
+  command?: "sync" | "lint";
+  patterns: string[];
+  config: CliConfig;
+  configPath?: string;
+  /** sync --check */
+  check: boolean;
+  help: boolean;
+}
+
+/**
+ * Parse argv into patterns and a partial config (flags only, no file defaults)
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const patterns: string[] = [];
+  const config: CliConfig = {};
+  const options: Record<string, unknown> = {};
+  let configPath: string | undefined;
+  let check = false;
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === undefined) continue;
+    if (!arg.startsWith("-")) {
+      patterns.push(arg);
+      continue;
+    }
+
+    // Support both "--flag value" and "--flag=value"
+    const eq = arg.indexOf("=");
+    const flag = (eq === -1 ? arg : arg.substring(0, eq)).replace(/^--?/, "");
+    const inline = eq === -1 ? undefined : arg.substring(eq + 1);
+    const takeValue = (): string => {
+      if (inline !== undefined) return inline;
+      const next = argv[++i];
+      if (next === undefined) throw new CliError(`Missing value for --${flag}`);
+      return next;
+    };
+
+    if (flag === "h" || flag === "help") {
+      help = true;
+    } else if (flag === "out") {
+      config.out = takeValue();
+    } else if (flag === "nested" || flag === "no-nested") {
+      config.nested = flag === "nested";
+    } else if (flag === "static") {
+      config.static = true;
+    } else if (flag === "check") {
+      check = true;
+    } else if (flag === "format") {
+      const format = takeValue();
+      if (format !== "mmd" && format !== "md") {
+        throw new CliError(`Invalid --format "${format}" (expected mmd or md)`);
+      }
+      config.format = format;
+    } else if (flag === "config") {
+      configPath = takeValue();
+    } else {
+      const negated = flag.startsWith("no-");
+      const spec = OPTION_FLAGS[negated ? flag.substring(3) : flag];
+      if (!spec || (negated && spec.type !== "boolean")) {
+        throw new CliError(`Unknown flag: ${arg}`);
+      }
+      if (spec.type === "boolean") {
+        options[spec.key] = !negated;
+        // Flags with values take one too: --tags=unstyled or --tags unstyled
+        const next = argv[i + 1];
+        if (!negated && spec.values && (inline !== undefined || (next !== undefined && spec.values.includes(next)))) {
+          const value = takeValue();
+          if (!spec.values.includes(value)) {
+            throw new CliError(`Invalid --${flag} "${value}" (expected ${expectedValues(spec.values)})`);
+          }
+          options[spec.key] = value;
+        }
+      } else if (spec.type === "json") {
+        options[spec.key] = jsonFlagValue(flag, spec, takeValue());
+      } else if (spec.type === "number") {
+        const value = Number(takeValue());
+        if (!Number.isFinite(value)) throw new CliError(`--${flag} expects a number`);
+        options[spec.key] = value;
+      } else {
+        const value = takeValue();
+        if (spec.values && !spec.values.includes(value)) {
+          throw new CliError(`Invalid --${flag} "${value}" (expected ${expectedValues(spec.values)})`);
+        }
+        options[spec.key] = value;
+      }
+    }
+  }
+
+  if (Object.keys(options).length > 0) {
+    config.options = options as MermaidOptions;
+  }
+
+  const command = patterns[0] === "sync" || patterns[0] === "lint" ? patterns[0] : undefined;
+  if (check && command !== "sync") {
+    throw new CliError("--check only applies to sync");
+  }
+  const parsed: ParsedArgs = { patterns: command ? patterns.slice(1) : patterns, config, check, help };
+  if (command) parsed.command = command;
+  if (configPath !== undefined) parsed.configPath = configPath;
+  return parsed;
+}
+
+/**
+ * Problems of a parsed config file: unknown keys, and values the matching
+ * flags would reject
+ */
+function configProblems(config: unknown): string[] {
+  if (!isObject(config)) return ["expected an object"];
+  const specs = new Map(Object.values(OPTION_FLAGS).map(spec => [spec.key as string, spec]));
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (key === "out") {
+      if (typeof value !== "string") problems.push(`"out" expects ${TYPE_NAMES.string}`);
+    } else if (key === "nested" || key === "static") {
+      if (typeof value !== "boolean") problems.push(`"${key}" expects ${TYPE_NAMES.boolean}`);
+    } else if (key === "format") {
+      if (value !== "mmd" && value !== "md") problems.push(`invalid "format" ${JSON.stringify(value)} (expected mmd or md)`);
+    } else if (key === "options") {
+      if (!isObject(value)) {
+        problems.push(`"options" expects an object`);
+        continue;
+      }
+      for (const [option, optionValue] of Object.entries(value)) {
+        const spec = specs.get(option);
+        const extra = CONFIG_OPTION_VALUES[option as keyof MermaidOptions];
+        const expected = extra?.expected ?? (spec && expectedOf(spec));
+        const listed = spec?.values?.some(known => known === optionValue) ?? false;
+        if (expected === undefined) {
+          problems.push(`unknown option "options.${option}"`);
+        } else if (extra?.accepts(optionValue) || (spec?.type === "boolean" && listed)) {
+          continue;
+        } else if (typeof optionValue !== spec?.type) {
+          problems.push(`"options.${option}" expects ${expected}`);
+        } else if (spec.values && !listed) {
+          problems.push(`invalid "options.${option}" ${JSON.stringify(optionValue)} (expected ${expectedValues(spec.values)})`);
+        }
+      }
+    } else {
+      problems.push(`unknown key "${key}"`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Value of a JSON flag, checked like the same option in a config file.
+ * --tag-styles also takes TAG_STYLE_PRESETS names: `--tag-styles error,loading`
+ */
+function jsonFlagValue(flag: string, spec: FlagSpec, raw: string): unknown {
+  let value: unknown;
+  if (spec.key === "tagStyles" && !raw.trimStart().startsWith("{")) {
+    const names = raw.split(",").map(name => name.trim());
+    const unknown = names.find(name => !(name in TAG_STYLE_PRESETS));
+    if (unknown !== undefined) {
+      throw new CliError(`Invalid --${flag} "${unknown}" (expected JSON or ${expectedValues(Object.keys(TAG_STYLE_PRESETS))})`);
+    }
+    return Object.fromEntries(Object.entries(TAG_STYLE_PRESETS).filter(([name]) => names.includes(name)));
+  }
+  try {
+    value = JSON.parse(raw);
+  } catch (err) {
+    throw new CliError(`Invalid --${flag}: ${(err as Error).message}`);
+  }
+  const problems = configProblems({ options: { [spec.key]: value } });
+  if (problems.length > 0) {
+    throw new CliError(`Invalid --${flag}: ${problems.join("; ")}`);
+  }
+  return value;
+}
+
+/**
+ * Load config file. An explicit path must exist; the default one is optional.
+ * Unknown keys and values of the wrong type are usage errors.
+ */
+export function loadConfig(configPath: string | undefined, cwd: string): CliConfig {
+  const path = resolve(cwd, configPath ?? DEFAULT_CONFIG_FILE);
+  if (!existsSync(path)) {
+    if (configPath !== undefined) throw new CliError(`Config file not found: ${configPath}`);
+    return {};
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new CliError(`Invalid config file ${relative(cwd, path)}: ${(err as Error).message}`);
+  }
+  const problems = configProblems(config);
+  if (problems.length > 0) {
+    throw new CliError(`Invalid config file ${relative(cwd, path)}: ${problems.join("; ")}`);
+  }
+  return config as CliConfig;
+}
+
+/**
+ * Merge file config with CLI flags (flags win, options merged key by key)
+ */
+function mergeConfig(file: CliConfig, flags: CliConfig): CliConfig {
+  return {
+    ...file,
+    ...flags,
+    options: { ...file.options, ...flags.options },
+  };
+}
+
+/**
+ * Convert a glob pattern to a RegExp matching relative POSIX paths
+ * Supports `**`, `*` and `?`
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === undefined) continue;
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walkFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name === "node_modules" || entry.name.startsWith(".")) continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walkFiles(path));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand a file pattern relative to cwd. Plain paths are returned as-is
+ * (so a missing file is reported as a load failure, not silently dropped).
+ */
+export function expandPattern(pattern: string, cwd: string): string[] {
+  if (!/[*?]/.test(pattern)) {
+    return [resolve(cwd, pattern)];
+  }
+  // Walk from the deepest directory that contains no glob characters
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex(s => /[*?]/.test(s));
+  const base = resolve(cwd, segments.slice(0, firstGlob).join("/") || ".");
+  if (!existsSync(base)) return [];
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+  return walkFiles(base)
+    .filter(file => matcher.test(relative(base, file).split("\\").join("/")))
+    .sort();
+}
+
+/**
+ * Duck-typed check so machines created by another copy of xstate still match
+ */
+export function isStateMachine(value: unknown): value is AnyStateMachine {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.config === "object" &&
+    typeof candidate.root === "object" &&
+    typeof candidate.transition === "function" &&
+    typeof candidate.getInitialSnapshot === "function"
+  );
+}
+
+let tsLoaderRegistered = false;
+
+/**
+ * Import a module, registering the tsx loader on demand for TypeScript files
+ * when the current runtime cannot load them natively.
+ */
+async function importModule(file: string): Promise<Record<string, unknown>> {
+  const url = pathToFileURL(file).href;
+  try {
+    return (await import(url)) as Record<string, unknown>;
+  } catch (err) {
+    const code = (err as { code?: string }).code;
+    const isTypeScript = /\.[mc]?tsx?$/.test(file);
+    if (code !== "ERR_UNKNOWN_FILE_EXTENSION" || !isTypeScript || tsLoaderRegistered) throw err;
+  }
+  // Specifier kept in a variable: tsx is an optional peer, not a build dependency
+  const loaderSpecifier = "tsx/esm/api";
+  try {
+    const loader = (await import(loaderSpecifier)) as { register: () => void };
+    loader.register();
+    tsLoaderRegistered = true;
+  } catch {
+    throw new CliError(
+      `Cannot load TypeScript module ${file}: install "tsx" or run the CLI through "npx tsx"`
+    );
+  }
+  return (await import(url)) as Record<string, unknown>;
+}
+
+/**
+ * Extract the exported machines of every file statically, printing
+ * diagnostics as warnings. Files that cannot be read are left out.
+ */
+async function extractModules(
+  files: string[],
+  cwd: string
+): Promise<Map<string, ModuleMachine[]>> {
+  // Loaded on demand: typescript is an optional peer, only --static needs it
+  let extract: typeof import("./extract.js");
+  try {
+    extract = await import("./extract.js");
+  } catch {
+    throw new CliError(`--static needs the "typescript" package: install it next to xstate-ts-to-mermaid`);
+  }
+  const { machines, diagnostics } = extract.extractMachines(files);
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.message === "File not found") continue; // reported as a load failure
+    console.error(`warning: ${extract.formatDiagnostic({ ...diagnostic, file: relative(cwd, diagnostic.file) || diagnostic.file })}`);
+  }
+  const byFile = new Map<string, ModuleMachine[]>();
+  for (const file of files) {
+    if (existsSync(file)) byFile.set(file, []);
+  }
+  for (const { file, name, machine, exported, events, implementations } of machines) {
+    const declared = events ? { events, implementations } : { implementations };
+    if (exported) byFile.get(resolve(file))?.push({ name, machine, declared });
+  }
+  return byFile;
+}
+
+/**
+ * Find every exported machine in a module.
+ * Named exports use the export name; a default export uses the file name.
+ */
+export function findMachines(
+  mod: Record<string, unknown>,
+  file: string
+): Array<{ name: string; machine: AnyStateMachine }> {
+  const machines: Array<{ name: string; machine: AnyStateMachine }> = [];
+  for (const [exportName, value] of Object.entries(mod)) {
+    if (!isStateMachine(value)) continue;
+    const name = exportName === "default" ? basename(file, extname(file)) : exportName;
+    // Skip a default export that re-exports a named machine
+    if (machines.some(m => m.machine === value)) continue;
+    machines.push({ name, machine: value });
+  }
+  return machines;
+}
+
+/**
+ * Exported machines of a module: imported, or looked up in the result of
+ * extractModules. Throws when the module cannot be loaded.
+ */
+async function moduleMachines(
+  file: string,
+  extracted: Map<string, ModuleMachine[]> | undefined
+): Promise<ModuleMachine[]> {
+  if (!extracted) {
+    return findMachines(await importModule(file), file);
+  }
+  const found = extracted.get(file);
+  if (!found) throw new CliError("file not found");
+  return found;
+}
+
+/**
+ * Render one machine to file content in the requested format
+ */
+export function renderMachine(machine: AnyStateMachine, name: string, config: CliConfig): string {
+  const render = config.nested ? toMermaidNested : toMermaid;
+  return formatDiagram(render(machine, config.options ?? {}), name, config);
+}
+
+/**
+ * A rendered diagram as file content in the requested format
+ */
+function formatDiagram(diagram: string, name: string, config: CliConfig): string {
+  if (config.format === "md") {
+    return `# ${config.options?.title ?? name}\n\n\`\`\`mermaid\n${diagram}\n\`\`\`\n`;
+  }
+  return `${diagram}\n`;
+}
+
+/**
+ * Line diff of two diagrams (longest common subsequence), as "-"/"+" lines
+ * with one unchanged line of context around each change
+ */
+function diffLines(before: string, after: string): string[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after.split("\n");
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  const lcs = (i: number, j: number): number => lengths[i]?.[j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lengths[i] ?? [];
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] = a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+  const lines: Array<{ prefix: " " | "-" | "+"; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ prefix: " ", text: a[i++] ?? "" });
+      j++;
+    } else if (j < b.length && (i === a.length || lcs(i, j + 1) >= lcs(i + 1, j))) {
+      lines.push({ prefix: "+", text: b[j++] ?? "" });
+    } else {
+      lines.push({ prefix: "-", text: a[i++] ?? "" });
+    }
+  }
+  const changed = (index: number) => lines[index] !== undefined && lines[index].prefix !== " ";
+  return lines
+    .filter((line, index) => line.prefix !== " " || changed(index - 1) || changed(index + 1))
+    .map(line => `${line.prefix} ${line.text}`);
+}
+
+/**
+ * `sync`: regenerate the diagrams behind the markers in Markdown files.
+ * Modules are resolved relative to the Markdown file and loaded once. With
+ * check, files are left alone and stale diagrams are printed as a diff.
+ * Returns the exit code: 1 when a diagram is stale (check) or cannot be rendered.
+ */
+async function syncMarkdown(files: string[], config: CliConfig, check: boolean, cwd: string): Promise<number> {
+  let failed = false;
+  const documents: Array<{ file: string; display: string; text: string }> = [];
+  const sources = new Set<string>();
+  for (const file of files) {
+    const display = relative(cwd, file) || file;
+    if (!existsSync(file)) {
+      console.error(`error: failed to read ${display}: file not found`);
+      failed = true;
+      continue;
+    }
+    const text = readFileSync(file, "utf8");
+    try {
+      for (const marker of findDiagramMarkers(text)) {
+        sources.add(resolve(dirname(file), marker.spec.source));
+      }
+    } catch (err) {
+      console.error(`error: ${display}: ${(err as Error).message}`);
+      failed = true;
+      continue;
+    }
+    documents.push({ file, display, text });
+  }
+
+  let extracted: Map<string, ModuleMachine[]> | undefined;
+  if (config.static) {
+    try {
+      extracted = await extractModules([...sources], cwd);
+    } catch (err) {
+      if (!(err instanceof CliError)) throw err;
+      console.error(`error: ${err.message}`);
+      return 1;
+    }
+  }
+  const modules = new Map<string, ModuleMachine[] | Error>();
+  for (const source of sources) {
+    try {
+      modules.set(source, await moduleMachines(source, extracted));
+    } catch (err) {
+      modules.set(source, err as Error);
+    }
+  }
+
+  for (const { file, display, text } of documents) {
+    let errors = 0;
+    const renderMarker = (marker: DiagramMarker): string => {
+      const { source, nested, options } = marker.spec;
+      const machines = modules.get(resolve(dirname(file), source)) ?? [];
+      try {
+        if (machines instanceof Error) {
+          throw new Error(`failed to load ${source}: ${machines.message}`);
+        }
+        const { machine } = selectMachine(machines, marker.spec);
+        const render = (nested ?? config.nested) ? toMermaidNested : toMermaid;
+        return render(machine, { ...config.options, ...options });
+      } catch (err) {
+        console.error(`error: ${display}:${marker.line}: ${(err as Error).message}`);
+        errors++;
+        return marker.diagram ?? "";
+      }
+    };
+    const { markdown, stale } = syncDiagrams(text, renderMarker);
+    if (errors > 0) {
+      failed = true;
+      continue;
+    }
+    if (stale.length === 0) continue;
+    if (check) {
+      for (const { marker, diagram } of stale) {
+        const name = marker.spec.exportName === undefined ? marker.spec.source : `${marker.spec.source}#${marker.spec.exportName}`;
+        console.log(`${display}:${marker.line}: ${marker.diagram === undefined ? "missing" : "stale"} diagram for ${name}`);
+        console.log(diffLines(marker.diagram ?? "", diagram).join("\n"));
+      }
+      failed = true;
+      continue;
+    }
+    writeFileSync(file, markdown);
+    console.error(`updated ${display} (${stale.length} diagram${stale.length === 1 ? "" : "s"})`);
+  }
+  return failed ? 1 : 0;
+}
+
+/**
+ * Run the CLI. Returns the process exit code:
+ * 0 = success, 1 = a module failed to load or exported no machine (sync: or a
+ * diagram is stale with --check; lint: or a machine has findings), 2 = usage error
+ */
+export async function main(argv: string[], cwd: string = process.cwd()): Promise<number> {
+  let parsed: ParsedArgs;
+  let config: CliConfig;
+  try {
+    parsed = parseArgs(argv);
+    if (parsed.help) {
+      console.log(USAGE);
+      return 0;
+    }
+    config = mergeConfig(loadConfig(parsed.configPath, cwd), parsed.config);
+  } catch (err) {
+    if (!(err instanceof CliError)) throw err;
+    console.error(`error: ${err.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (parsed.patterns.length === 0) {
+    console.error(`error: no input files\n\n${USAGE}`);
+    return 2;
+  }
+
+  const files = [...new Set(parsed.patterns.flatMap(p => expandPattern(p, cwd)))];
+  if (files.length === 0) {
+    console.error(`error: no files match ${parsed.patterns.join(" ")}`);
+    return 1;
+  }
+
+  if (parsed.command === "sync") {
+    return syncMarkdown(files, config, parsed.check, cwd);
+  }
+
+  const outDir = config.out === undefined ? undefined : resolve(cwd, config.out);
+  const extension = config.format === "md" ? ".md" : ".mmd";
+  const written = new Map<string, string>();
+  let failed = false;
+  let findings = 0;
+
+  let extracted: Map<string, ModuleMachine[]> | undefined;
+  if (config.static) {
+    try {
+      extracted = await extractModules(files, cwd);
+    } catch (err) {
+      if (!(err instanceof CliError)) throw err;
+      console.error(`error: ${err.message}`);
+      return 1;
+    }
+  }
+
+  for (const file of files) {
+    const display = relative(cwd, file) || file;
+    let machines: ModuleMachine[];
+    try {
+      machines = await moduleMachines(file, extracted);
+    } catch (err) {
+      console.error(`error: failed to load ${display}: ${(err as Error).message}`);
+      failed = true;
+      continue;
+    }
+
+    if (machines.length === 0) {
+      console.error(`error: ${display} exports no state machine`);
+      failed = true;
+      continue;
+    }
+
+    for (const { name, machine, declared } of machines) {
+      let content: string;
+      if (parsed.command === "lint") {
+        const analysis = analyzeMachine(machine, { ...config.options, ...declared, nested: config.nested ?? false });
+        for (const finding of analysis.findings) {
+          console.log(`${display}#${name}: ${finding.kind}: ${finding.message}`);
+        }
+        findings += analysis.findings.length;
+        if (outDir === undefined) continue;
+        content = formatDiagram(analysis.mermaid, name, config);
+      } else {
+        content = renderMachine(machine, name, config);
+      }
+      if (outDir === undefined) {
+        process.stdout.write(content);
+        continue;
+      }
+      const target = join(outDir, `${name}${extension}`);
+      const previous = written.get(target);
+      if (previous !== undefined) {
+        console.error(`error: ${display} and ${previous} both export "${name}" (${relative(cwd, target)})`);
+        failed = true;
+        continue;
+      }
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content);
+      written.set(target, display);
+      console.error(`wrote ${relative(cwd, target)}`);
+    }
+  }
+
+  if (findings > 0) {
+    console.error(`${findings} finding${findings === 1 ? "" : "s"}`);
+  }
+  return failed || findings > 0 ? 1 : 0;
+}
+
+// Run when executed directly (not when imported by tests).
+// realpath: npm installs the bin as a symlink
+const entry = process.argv[1];
+if (entry && existsSync(entry) && import.meta.url === pathToFileURL(realpathSync(entry)).href) {
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    (err: unknown) => {
+      console.error(err);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * xstate-ts-to-mermaid/docs
+ * remark and markdown-it plugins that turn ```xstate fences into Mermaid diagrams
+ *
+ * A fence names a module, an export and render options, as the markers of
+ * markdown.ts do:
+ *
+ *   ```xstate
+ *   ../src/order.ts#orderMachine nested includeMeta=false
+ *   ```
+ *
+ * and is replaced at build time by a ```mermaid fence with the diagram. Machines
+ * are extracted statically (extract.ts, needs typescript), so building the docs
+ * never runs application code and works inside synchronous markdown-it rules.
+ * Diagrams are cached by a hash of the sources extraction read (the module and
+ * the files it imports), the options and the library version: in memory and,
+ * unless disabled, on disk.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { extractMachines, formatDiagnostic, type ExtractResult } from "./extract.js";
+import { toMermaid, toMermaidNested, type MermaidOptions } from "./index.js";
+import { parseDiagramSpec, selectMachine, type DiagramSpec } from "./markdown.js";
+
+/** Fence language the plugins replace */
+export const DIAGRAM_FENCE_LANGUAGE = "xstate";
+
+export interface DiagramFenceOptions {
+  /** Defaults for every fence; fence options override them */
+  options?: MermaidOptions;
+  /** Use toMermaidNested unless a fence says `nested=false`. Default: false */
+  nested?: boolean;
+  /** Base directory when the Markdown file is unknown. Default: process.cwd() */
+  cwd?: string;
+  /** Directory of the on-disk cache, false for none. Default: node_modules/.cache/xstate-ts-to-mermaid under cwd */
+  cacheDir?: string | false;
+  /** Receives extraction diagnostics (parts of a config left out). Default: console.warn */
+  onWarning?: (message: string) => void;
+}
+
+/** A fence that cannot be rendered; the message starts with `file:line:` of the fence */
+export class DiagramFenceError extends Error {
+  constructor(
+    readonly file: string | undefined,
+    readonly line: number,
+    readonly reason: string
+  ) {
+    super(`${file ?? "<markdown>"}:${line}: ${reason}`);
+    this.name = "DiagramFenceError";
+  }
+}
+
+/** Rendered diagrams by cache key, shared by every plugin instance */
+const renderedDiagrams = new Map<string, string>();
+
+/** Last extraction of each module and the sources it read, reused while they are unchanged */
+const extractedModules = new Map<string, { sources: Map<string, string>; result: ExtractResult }>();
+
+/** Files the last extraction of each module read, to key diagrams before extracting */
+const moduleFiles = new Map<string, string[]>();
+
+/**
+ * Contents of files by path; undefined when one cannot be read (deleted since)
+ */
+function readSources(files: string[]): Map<string, string> | undefined {
+  const sources = new Map<string, string>();
+  for (const file of files) {
+    if (!existsSync(file)) return undefined;
+    sources.set(file, readFileSync(file, "utf8"));
+  }
+  return sources;
+}
+
+let libraryVersion: string | undefined;
+
+/**
+ * Version of this package, part of the cache key so upgrades re-render.
+ * package.json sits next to the source, one level above the built dist/.
+ */
+function getLibraryVersion(): string {
+  if (libraryVersion === undefined) {
+    const here = dirname(fileURLToPath(import.meta.url));
+    const manifest = [join(here, "package.json"), join(here, "..", "package.json")].find(existsSync);
+    libraryVersion = manifest
+      ? String((JSON.parse(readFileSync(manifest, "utf8")) as { version?: unknown }).version)
+      : "unknown";
+  }
+  return libraryVersion;
+}
+
+/**
+ * Diagram of the machine a spec names in the module at `modulePath`, from the
+ * cache when the sources extraction read, the options and the library version
+ * are unchanged. Throws when the module cannot be read or has no such machine.
+ */
+export function renderModuleDiagram(modulePath: string, spec: DiagramSpec, settings: DiagramFenceOptions = {}): string {
+  if (!existsSync(modulePath)) {
+    throw new Error(`cannot read ${spec.source}`);
+  }
+  const nested = spec.nested ?? settings.nested ?? false;
+  const options = { ...settings.options, ...spec.options };
+  const cacheDir = settings.cacheDir === false
+    ? undefined
+    : resolve(settings.cwd ?? process.cwd(), settings.cacheDir ?? "node_modules/.cache/xstate-ts-to-mermaid");
+  const hash = (text: string) => createHash("sha256").update(text).digest("hex");
+  // The files of the last extraction, on disk for later processes
+  const filesManifest = cacheDir && join(cacheDir, `${hash(modulePath)}.files.json`);
+
+  const diagramKey = (sources: Map<string, string>) => {
+    const key = createHash("sha256")
+      .update(JSON.stringify([getLibraryVersion(), modulePath, spec.exportName ?? null, nested, options]));
+    for (const file of [...sources.keys()].sort()) {
+      key.update(`\0${file}\0${sources.get(file) ?? ""}`);
+    }
+    return key.digest("hex");
+  };
+  const lookup = (key: string): string | undefined => {
+    const cacheFile = cacheDir && join(cacheDir, `${key}.mmd`);
+    const cached = renderedDiagrams.get(key) ?? (cacheFile && existsSync(cacheFile) ? readFileSync(cacheFile, "utf8") : undefined);
+    if (cached !== undefined) renderedDiagrams.set(key, cached);
+    return cached;
+  };
+
+  const knownFiles = moduleFiles.get(modulePath) ??
+    (filesManifest && existsSync(filesManifest) ? JSON.parse(readFileSync(filesManifest, "utf8")) as string[] : undefined);
+  const knownSources = knownFiles && readSources(knownFiles);
+  const cached = knownSources && lookup(diagramKey(knownSources));
+  if (knownFiles && cached !== undefined) {
+    moduleFiles.set(modulePath, knownFiles);
+    return cached;
+  }
+
+  let extracted = extractedModules.get(modulePath);
+  const sourcesThen = extracted?.sources;
+  const sourcesNow = sourcesThen && readSources([...sourcesThen.keys()]);
+  if (!extracted || !sourcesNow || [...sourcesNow].some(([file, source]) => sourcesThen?.get(file) !== source)) {
+    const result = extractMachines([modulePath]);
+    const sources = readSources(result.files) ?? new Map<string, string>();
+    extracted = { sources, result };
+    extractedModules.set(modulePath, extracted);
+    moduleFiles.set(modulePath, result.files);
+    if (filesManifest && cacheDir) {
+      mkdirSync(cacheDir, { recursive: true });
+      writeFileSync(filesManifest, JSON.stringify(result.files));
+    }
+    const warn = settings.onWarning ?? ((message: string) => console.warn(message));
+    for (const diagnostic of result.diagnostics) {
+      warn(`warning: ${formatDiagnostic(diagnostic)}`);
+    }
+  }
+  const key = diagramKey(extracted.sources);
+  const reused = lookup(key);
+  if (reused !== undefined) return reused;
+  const { machine } = selectMachine(extracted.result.machines.filter(candidate => candidate.exported), spec);
+  const diagram = (nested ? toMermaidNested : toMermaid)(machine, options);
+
+  renderedDiagrams.set(key, diagram);
+  if (cacheDir) {
+    mkdirSync(cacheDir, { recursive: true });
+    writeFileSync(join(cacheDir, `${key}.mmd`), diagram);
+  }
+  return diagram;
+}
+
+/**
+ * Files the last diagram of a module was rendered from: the module and the
+ * files its extraction read. Watch them to render again when one changes.
+ */
+export function getDiagramFiles(modulePath: string): string[] {
+  return moduleFiles.get(modulePath) ?? [modulePath];
+}
+
+/**
+ * Diagram for the body of an ```xstate fence. `file` is the Markdown file the
+ * module path is relative to, `line` the line of the fence (1-based), both
+ * only used for resolving paths and error messages.
+ */
+export function renderDiagramFence(
+  body: string,
+  position: { file?: string | undefined; line: number },
+  settings: DiagramFenceOptions = {}
+): string {
+  try {
+    const spec = parseDiagramSpec(body.trim());
+    const modulePath = resolve(position.file ? dirname(position.file) : settings.cwd ?? process.cwd(), spec.source);
+    return renderModuleDiagram(modulePath, spec, settings);
+  } catch (err) {
+    throw new DiagramFenceError(position.file, position.line, (err as Error).message);
+  }
+}
+
+/** The parts of an mdast node the remark plugin reads and writes */
+interface MdastNode {
+  type: string;
+  lang?: string | null;
+  meta?: string | null;
+  value?: string;
+  position?: { start: { line: number } };
+  children?: MdastNode[];
+}
+
+/**
+ * remark plugin: `unified().use(remarkParse).use(remarkXStateMermaid, options)`.
+ * Each ```xstate code node becomes a ```mermaid one; a fence that cannot be
+ * rendered throws a DiagramFenceError naming the Markdown file and line.
+ */
+export function remarkXStateMermaid(settings: DiagramFenceOptions = {}) {
+  return (tree: MdastNode, file?: { path?: string }): void => {
+    const visit = (node: MdastNode): void => {
+      if (node.type === "code" && node.lang === DIAGRAM_FENCE_LANGUAGE) {
+        node.value = renderDiagramFence(node.value ?? "", { file: file?.path, line: node.position?.start.line ?? 1 }, settings);
+        node.lang = "mermaid";
+        node.meta = null;
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+/** The parts of markdown-it the plugin uses */
+interface MarkdownItToken {
+  type: string;
+  info: string;
+  content: string;
+  /** Source lines of the block: [first, last + 1), 0-based */
+  map: [number, number] | null;
+}
+
+interface MarkdownItLike {
+  core: {
+    ruler: {
+      push(name: string, rule: (state: { tokens: MarkdownItToken[]; env: unknown }) => void): void;
+    };
+  };
+}
+
+/**
+ * markdown-it plugin: `markdownIt().use(markdownItXStateMermaid, options)`.
+ * Rewrites ```xstate fence tokens into ```mermaid ones before rendering, so
+ * Mermaid plugins that handle ```mermaid fences draw them. Module paths are
+ * relative to `env.path` (set by VitePress), else to `cwd`.
+ */
+export function markdownItXStateMermaid(md: MarkdownItLike, settings: DiagramFenceOptions = {}): void {
+  md.core.ruler.push("xstate_mermaid", state => {
+    const path = (state.env as { path?: unknown } | undefined)?.path;
+    const file = typeof path === "string" ? path : undefined;
+    for (const token of state.tokens) {
+      if (token.type !== "fence" || token.info.trim().split(/\s+/)[0] !== DIAGRAM_FENCE_LANGUAGE) continue;
+      token.content = `${renderDiagramFence(token.content, { file, line: (token.map?.[0] ?? 0) + 1 }, settings)}\n`;
+      token.info = "mermaid";
+    }
+  });
+}
@@ -6,6 +6,7 @@
  * Showcases ALL supported XState v5 fields:
  * - description, tags, meta, entry, exit, invoke, on, after
  */
+import { pathToFileURL } from "node:url";
 import { setup } from "xstate";
 import { toMermaid } from "../index.js";
 
@@ -103,4 +104,7 @@ export const orderMachine = setup({
   },
 });
 
-console.log(toMermaid(orderMachine, { title: "Order Processing" }));
+// Print only when run as a script (npm run example), not when imported
+if (process.argv[1] !== undefined && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  console.log(toMermaid(orderMachine, { title: "Order Processing" }));
+}
@@ -0,0 +1,476 @@
+/**
+ * xstate-ts-to-mermaid/extract
+ * Find XState v5 machines in TypeScript source without executing it
+ *
+ * Uses the TypeScript compiler API (optional peer dependency) to find
+ * `createMachine({...})` and `setup(...).createMachine({...})` calls and
+ * evaluate their configs statically: literals, references to constants
+ * (imported ones included), enum members, spreads and template strings.
+ * Whatever cannot be evaluated is left out and reported as a diagnostic.
+ */
+
+import { basename, extname } from "node:path";
+import ts from "typescript";
+import { createMachine, type AnyStateMachine } from "xstate";
+
+/** A part of a machine that could not be extracted, with its position (1-based) */
+export interface ExtractDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface ExtractedMachine {
+  /** Variable name, the file name for a default export, else the machine id */
+  name: string;
+  file: string;
+  /** Line of the createMachine call (1-based) */
+  line: number;
+  /** Exported from its module, as the CLI requires when importing modules */
+  exported: boolean;
+  /** The statically evaluated config, non-literal parts left out */
+  config: Record<string, unknown>;
+  /** Machine created from `config`. Machines passed as `actors` to setup() are provided. */
+  machine: AnyStateMachine;
+  /** Event types of `types.events` (config or setup()), read from the type checker; missing without one */
+  events?: string[];
+  /**
+   * Names of the guards, actions and actors setup() provides (empty without
+   * setup()). A kind is left out when its object cannot be read statically.
+   */
+  implementations: { guards?: string[]; actions?: string[]; actors?: string[] };
+}
+
+export interface ExtractResult {
+  machines: ExtractedMachine[];
+  diagnostics: ExtractDiagnostic[];
+  /** Source files read to evaluate the configs: the given files and those they import (declaration files aside) */
+  files: string[];
+}
+
+/**
+ * A diagnostic as `file:line:column - message`
+ */
+export function formatDiagnostic(diagnostic: ExtractDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.message}`;
+}
+
+/** Arithmetic operators evaluated on numbers */
+const ARITHMETIC: Partial<Record<ts.SyntaxKind, (left: number, right: number) => number>> = {
+  [ts.SyntaxKind.PlusToken]: (left, right) => left + right,
+  [ts.SyntaxKind.MinusToken]: (left, right) => left - right,
+  [ts.SyntaxKind.AsteriskToken]: (left, right) => left * right,
+  [ts.SyntaxKind.SlashToken]: (left, right) => left / right,
+  [ts.SyntaxKind.PercentToken]: (left, right) => left % right,
+};
+
+/** Result of an expression that cannot be evaluated statically */
+const NON_LITERAL = Symbol("non-literal");
+
+/**
+ * The config argument and setup() argument of a machine-creating call:
+ * `createMachine(config)`, `xstate.createMachine(config)` or
+ * `setup(implementations).createMachine(config)`
+ */
+function machineCallParts(node: ts.Node): { config: ts.Expression; setup?: ts.Expression } | undefined {
+  if (!ts.isCallExpression(node)) return undefined;
+  const callee = node.expression;
+  const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+  const [config] = node.arguments;
+  if (name !== "createMachine" || !config) return undefined;
+
+  const receiver = ts.isPropertyAccessExpression(callee) ? callee.expression : undefined;
+  if (receiver && ts.isCallExpression(receiver)) {
+    const setupCallee = receiver.expression;
+    const setupName = ts.isIdentifier(setupCallee) ? setupCallee.text : ts.isPropertyAccessExpression(setupCallee) ? setupCallee.name.text : undefined;
+    const [setup] = receiver.arguments;
+    if (setupName === "setup" && setup) return { config, setup };
+  }
+  return { config };
+}
+
+/**
+ * Short description of an expression for diagnostics
+ */
+function describeExpression(node: ts.Expression): string {
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return "inline function";
+  if (ts.isCallExpression(node)) return `call to ${node.expression.getText()}()`;
+  if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) return `reference to ${node.getText()}`;
+  return ts.SyntaxKind[node.kind];
+}
+
+/**
+ * Find the machines in TypeScript (or JavaScript) files and evaluate their
+ * configs without running them. Imports are followed to resolve constants and
+ * machines from other files; every machine found in `files` is returned.
+ */
+export function extractMachines(files: string[], compilerOptions: ts.CompilerOptions = {}): ExtractResult {
+  const program = ts.createProgram(files, { allowJs: true, noEmit: true, types: [], ...compilerOptions });
+  const checker = program.getTypeChecker();
+  const diagnostics: ExtractDiagnostic[] = [];
+  // Machines by call, shared by the files that import them; undefined while being built
+  const built = new Map<ts.CallExpression, ExtractedMachine | undefined>();
+
+  const report = (node: ts.Node, message: string) => {
+    const sourceFile = node.getSourceFile();
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+    diagnostics.push({ file: sourceFile.fileName, line: line + 1, column: character + 1, message });
+  };
+
+  /** The declaration a reference resolves to, following imports */
+  const declarationOf = (node: ts.Node): ts.Declaration | undefined => {
+    let symbol = ts.isShorthandPropertyAssignment(node)
+      ? checker.getShorthandAssignmentValueSymbol(node)
+      : checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    return symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+  };
+
+  const resolving = new Set<ts.Declaration>();
+
+  /** Value of a `const` a reference points to: a literal, or a machine */
+  const evaluateReference = (node: ts.Node): unknown => {
+    const declaration = declarationOf(node);
+    if (
+      !declaration ||
+      !ts.isVariableDeclaration(declaration) ||
+      !declaration.initializer ||
+      !(ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) ||
+      resolving.has(declaration)
+    ) {
+      return NON_LITERAL;
+    }
+    let initializer = declaration.initializer;
+    while (ts.isParenthesizedExpression(initializer) || ts.isAsExpression(initializer) || ts.isSatisfiesExpression(initializer)) {
+      initializer = initializer.expression;
+    }
+    if (ts.isCallExpression(initializer) && machineCallParts(initializer)) {
+      return buildMachine(initializer)?.machine ?? NON_LITERAL;
+    }
+    resolving.add(declaration);
+    try {
+      return evaluate(initializer, undefined);
+    } finally {
+      resolving.delete(declaration);
+    }
+  };
+
+  /**
+   * Static value of an expression. With a `path`, non-literal parts are
+   * reported and left out; without one (constants), they fail the whole value.
+   */
+  function evaluate(node: ts.Expression, path: string | undefined): unknown {
+    const nonLiteral = (part: ts.Expression, at: string | undefined): typeof NON_LITERAL => {
+      if (at !== undefined) {
+        report(part, `Non-literal ${describeExpression(part)} at ${at || "config"} left out`);
+      }
+      return NON_LITERAL;
+    };
+
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) ||
+        ts.isTypeAssertionExpression(node) || ts.isNonNullExpression(node)) {
+      return evaluate(node.expression, path);
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+    if (ts.isIdentifier(node) && node.text === "undefined") return undefined;
+
+    if (ts.isPrefixUnaryExpression(node) && (node.operator === ts.SyntaxKind.MinusToken || node.operator === ts.SyntaxKind.PlusToken)) {
+      const operand = evaluate(node.operand, undefined);
+      if (typeof operand === "number") return node.operator === ts.SyntaxKind.MinusToken ? -operand : operand;
+      return nonLiteral(node, path);
+    }
+    if (ts.isTemplateExpression(node)) {
+      let text = node.head.text;
+      for (const span of node.templateSpans) {
+        const value = evaluate(span.expression, undefined);
+        if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") return nonLiteral(node, path);
+        text += String(value) + span.literal.text;
+      }
+      return text;
+    }
+    if (ts.isBinaryExpression(node) && ARITHMETIC[node.operatorToken.kind]) {
+      const left = evaluate(node.left, undefined);
+      const right = evaluate(node.right, undefined);
+      if (typeof left === "number" && typeof right === "number") {
+        return ARITHMETIC[node.operatorToken.kind]?.(left, right);
+      }
+      // String concatenation
+      if (node.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+          (typeof left === "string" || typeof left === "number") && (typeof right === "string" || typeof right === "number")) {
+        return `${left}${right}`;
+      }
+      return nonLiteral(node, path);
+    }
+
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      // Enum members: `Delay.Short`
+      const declaration = declarationOf(ts.isPropertyAccessExpression(node) ? node.name : node.argumentExpression);
+      const constant = declaration && ts.isEnumMember(declaration) ? checker.getConstantValue(declaration) : undefined;
+      if (constant !== undefined) return constant;
+      const target = evaluate(node.expression, undefined);
+      const key = ts.isPropertyAccessExpression(node) ? node.name.text : evaluate(node.argumentExpression, undefined);
+      if (typeof target === "object" && target !== null && (typeof key === "string" || typeof key === "number") &&
+          Object.prototype.hasOwnProperty.call(target, key)) {
+        return (target as Record<string | number, unknown>)[key];
+      }
+      return nonLiteral(node, path);
+    }
+    if (ts.isIdentifier(node)) {
+      const value = evaluateReference(node);
+      return value === NON_LITERAL ? nonLiteral(node, path) : value;
+    }
+    // Inline machine: `invoke: { src: createMachine({...}) }`
+    if (ts.isCallExpression(node) && machineCallParts(node)) {
+      return buildMachine(node)?.machine ?? NON_LITERAL;
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      const items: unknown[] = [];
+      for (const [index, element] of node.elements.entries()) {
+        const at = path === undefined ? undefined : `${path}[${index}]`;
+        if (ts.isSpreadElement(element)) {
+          const spread = evaluate(element.expression, undefined);
+          if (Array.isArray(spread)) {
+            items.push(...(spread as unknown[]));
+          } else if (nonLiteral(element.expression, at) && path === undefined) {
+            return NON_LITERAL;
+          }
+          continue;
+        }
+        const value = evaluate(element, at);
+        if (value === NON_LITERAL) {
+          if (path === undefined) return NON_LITERAL;
+          continue;
+        }
+        items.push(value);
+      }
+      return items;
+    }
+
+    if (ts.isObjectLiteralExpression(node)) {
+      const object: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (ts.isSpreadAssignment(property)) {
+          const spread = evaluate(property.expression, undefined);
+          if (typeof spread !== "object" || spread === null) {
+            nonLiteral(property.expression, path);
+            if (path === undefined) return NON_LITERAL;
+            continue;
+          }
+          Object.assign(object, spread);
+          continue;
+        }
+
+        const name = property.name;
+        let key: unknown;
+        if (!name) {
+          key = NON_LITERAL;
+        } else if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+          key = name.text;
+        } else if (ts.isComputedPropertyName(name)) {
+          key = evaluate(name.expression, undefined);
+        }
+        if (typeof key !== "string" && typeof key !== "number") {
+          if (path !== undefined) {
+            report(property, `Non-literal property name ${name?.getText() ?? ""} at ${path || "config"} left out`);
+          }
+          if (path === undefined) return NON_LITERAL;
+          continue;
+        }
+
+        const at = path === undefined ? undefined : path ? `${path}.${key}` : String(key);
+        let value: unknown;
+        if (ts.isPropertyAssignment(property)) {
+          value = evaluate(property.initializer, at);
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          value = evaluateReference(property);
+          if (value === NON_LITERAL && at !== undefined) {
+            report(property, `Non-literal reference to ${property.name.text} at ${at} left out`);
+          }
+        } else {
+          if (at !== undefined) {
+            report(property, `Non-literal method at ${at} left out`);
+          }
+          value = NON_LITERAL;
+        }
+        if (value === NON_LITERAL) {
+          if (path === undefined) return NON_LITERAL;
+          continue;
+        }
+        object[key] = value;
+      }
+      return object;
+    }
+
+    return nonLiteral(node, path);
+  }
+
+  /** Object literal an expression holds, parentheses and assertions aside */
+  const objectLiteral = (node: ts.Expression): ts.ObjectLiteralExpression | undefined => {
+    while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+      node = node.expression;
+    }
+    return ts.isObjectLiteralExpression(node) ? node : undefined;
+  };
+
+  /** Initializer of a `name: value` property of an object literal */
+  const propertyValue = (object: ts.ObjectLiteralExpression | undefined, name: string): ts.Expression | undefined =>
+    object?.properties.find(
+      (property): property is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(property) && ts.isIdentifier(property.name) && property.name.text === name
+    )?.initializer;
+
+  /** Machines among the actors of a setup() call, by actor name */
+  const setupActors = (setup: ts.Expression): Record<string, AnyStateMachine> => {
+    const actors: Record<string, AnyStateMachine> = {};
+    const actorsValue = propertyValue(objectLiteral(setup), "actors");
+    const actorsObject = actorsValue && objectLiteral(actorsValue);
+    if (!actorsObject) return actors;
+
+    for (const property of actorsObject.properties) {
+      if (!property.name || !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) continue;
+      const reference = ts.isShorthandPropertyAssignment(property) ? property
+        : ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer) ? property.initializer
+        : undefined;
+      const value = reference ? evaluateReference(reference) : undefined;
+      if (typeof value === "object" && value !== null && "root" in value) {
+        actors[property.name.text] = value as AnyStateMachine;
+      }
+    }
+    return actors;
+  };
+
+  /**
+   * Names of the guards, actions and actors of a setup() call. A kind is left
+   * out when its object is not a literal, or has spreads or computed names.
+   */
+  const setupNames = (setup: ts.Expression | undefined): ExtractedMachine["implementations"] => {
+    if (!setup) return { guards: [], actions: [], actors: [] };
+    const implementations = objectLiteral(setup);
+    const names: ExtractedMachine["implementations"] = {};
+    if (!implementations || implementations.properties.some(ts.isSpreadAssignment)) return names;
+    for (const kind of ["guards", "actions", "actors"] as const) {
+      const value = propertyValue(implementations, kind);
+      const object = value && objectLiteral(value);
+      if (value && !object) continue;
+      const keys = (object?.properties ?? []).map(property =>
+        property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))
+          ? property.name.text
+          : undefined);
+      if (keys.every((key): key is string => key !== undefined)) names[kind] = keys;
+    }
+    return names;
+  };
+
+  /**
+   * Event types declared by `types: { events: {} as A | B }` in the config or
+   * setup(): the string literal `type` of each member of the union.
+   */
+  const declaredEvents = (parts: { config: ts.Expression; setup?: ts.Expression }): string[] | undefined => {
+    const types = propertyValue(objectLiteral(parts.config), "types") ?? (parts.setup && propertyValue(objectLiteral(parts.setup), "types"));
+    if (!types) return undefined;
+    const events = checker.getPropertyOfType(checker.getTypeAtLocation(types), "events");
+    if (!events) return undefined;
+    const eventsType = checker.getTypeOfSymbolAtLocation(events, types);
+    const names = new Set<string>();
+    for (const member of eventsType.isUnion() ? eventsType.types : [eventsType]) {
+      const type = checker.getPropertyOfType(member, "type");
+      const typeType = type && checker.getTypeOfSymbolAtLocation(type, types);
+      for (const literal of typeType?.isUnion() ? typeType.types : typeType ? [typeType] : []) {
+        if (literal.isStringLiteral()) names.add(literal.value);
+      }
+    }
+    return [...names];
+  };
+
+  function buildMachine(call: ts.CallExpression): ExtractedMachine | undefined {
+    if (built.has(call)) {
+      const machine = built.get(call);
+      if (!machine) report(call, "Machine refers to itself; the reference is left out");
+      return machine;
+    }
+    const parts = machineCallParts(call);
+    if (!parts) return undefined;
+    built.set(call, undefined);
+
+    const sourceFile = call.getSourceFile();
+    const config = evaluate(parts.config, "");
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      if (config !== NON_LITERAL) report(parts.config, "Machine config is not an object");
+      built.delete(call);
+      return undefined;
+    }
+
+    // Name and export status from the declaration holding the call
+    let holder: ts.Node = call.parent;
+    while (ts.isParenthesizedExpression(holder) || ts.isAsExpression(holder) || ts.isSatisfiesExpression(holder)) {
+      holder = holder.parent;
+    }
+    const fileName = basename(sourceFile.fileName, extname(sourceFile.fileName));
+    const id = (config as { id?: unknown }).id;
+    let name = typeof id === "string" ? id : fileName;
+    let exported = false;
+    if (ts.isVariableDeclaration(holder) && ts.isIdentifier(holder.name)) {
+      name = holder.name.text;
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+      const exports = moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : [];
+      exported = exports.some(symbol => {
+        const resolved = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+        return resolved.valueDeclaration === holder;
+      });
+    } else if (ts.isExportAssignment(holder)) {
+      name = fileName;
+      exported = true;
+    }
+
+    let machine: AnyStateMachine;
+    try {
+      machine = createMachine(config as Parameters<typeof createMachine>[0]);
+      const actors = parts.setup ? setupActors(parts.setup) : {};
+      if (Object.keys(actors).length > 0) {
+        machine = machine.provide({ actors });
+      }
+    } catch (err) {
+      report(call, `Cannot create machine "${name}": ${(err as Error).message}`);
+      built.delete(call);
+      return undefined;
+    }
+
+    const line = sourceFile.getLineAndCharacterOfPosition(call.getStart()).line + 1;
+    const extracted: ExtractedMachine = {
+      name, file: sourceFile.fileName, line, exported, config: config as Record<string, unknown>, machine,
+      implementations: setupNames(parts.setup),
+    };
+    const events = declaredEvents(parts);
+    if (events) extracted.events = events;
+    built.set(call, extracted);
+    return extracted;
+  }
+
+  const machines: ExtractedMachine[] = [];
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) {
+      diagnostics.push({ file, line: 1, column: 1, message: "File not found" });
+      continue;
+    }
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && machineCallParts(node)) {
+        const machine = buildMachine(node);
+        if (machine) machines.push(machine);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  const read = program.getSourceFiles().filter(sourceFile => !sourceFile.isDeclarationFile).map(sourceFile => sourceFile.fileName);
+  return { machines, diagnostics, files: read };
+}
@@ -7,12 +7,27 @@
  */
 
 import {
+  getPathsFromEvents,
+  getShortestPaths,
+  getSimplePaths,
   toDirectedGraph,
+  type DirectedGraphEdge,
   type DirectedGraphNode,
 } from "@xstate/graph";
-import { type AnyStateMachine } from "xstate";
+import {
+  createEmptyActor,
+  type AnyActorScope,
+  type AnyMachineSnapshot,
+  type AnyStateMachine,
+  type EventObject,
+  type StateValue,
+} from "xstate";
+
+/** Mermaid layout direction: top-bottom, bottom-top, left-right, right-left */
+export type MermaidDirection = "TB" | "BT" | "LR" | "RL";
 
 export interface MermaidOptions {
+  /** Diagram title, written to the YAML frontmatter */
   title?: string;
   /** Max description length (0 = no limit). Default: 0 */
   maxDescriptionLength?: number;
@@ -26,12 +41,77 @@ export interface MermaidOptions {
   includeExitActions?: boolean;
   /** Include invoke actors in state descriptions. Default: true */
   includeInvokes?: boolean;
-  /** Include tags in state descriptions. Default: true */
-  includeTags?: boolean;
+  /**
+   * Include tags in state descriptions. Default: true
+   * - "unstyled": only tags without a tagStyles entry (colour already shows the others)
+   */
+  includeTags?: boolean | "unstyled";
   /** Include meta in state descriptions. Default: true */
   includeMeta?: boolean;
+  /**
+   * How Mermaid node ids are derived. Default: "auto"
+   * - "auto": short state name, or the full path when the name is not unique or not Mermaid-safe
+   * - "path": always the full path ("checkout.cart.idle" -> "cart_idle")
+   */
+  stateIds?: "auto" | "path";
+  /** Display dotted paths ("cart.idle") instead of short names. Default: false */
+  fullyQualifiedNames?: boolean;
+  /**
+   * Route events with several guarded candidates through a `<<choice>>`
+   * pseudo-state, numbering branches in priority order. Default: false
+   */
+  guardedChoices?: boolean;
+  /** Layout direction of the whole diagram. Default: Mermaid's (TB) */
+  direction?: MermaidDirection;
+  /**
+   * Layout direction inside compound states, keyed by state id ("checkout.cart")
+   * or dotted path from the root ("cart"). toMermaidNested only: flat diagrams have no blocks.
+   */
+  stateDirections?: Record<string, MermaidDirection>;
+  /** Mermaid theme ("default", "neutral", "dark", "forest", "base") */
+  theme?: string;
+  /** Raw Mermaid config written to the frontmatter `config:` block. `theme` takes precedence */
+  mermaidConfig?: Record<string, unknown>;
+  /**
+   * Mermaid classDef styles keyed by class name. A string style applies to
+   * states carrying the tag of the same name; a rule decides per state.
+   * See TAG_STYLE_PRESETS.
+   */
+  tagStyles?: Record<string, string | StateStyleRule>;
+  /**
+   * Draw the statecharts of invoked state machines inside the invoking state
+   * (next to it in flat diagrams), recursively. `true` expands 3 levels deep,
+   * a number sets the depth. Default: false
+   */
+  expandInvokedMachines?: boolean | number;
+}
+
+/** What a StateStyleRule can match on */
+export interface StyleContext {
+  /** XState state id ("checkout.cart") */
+  id: string;
+  tags: string[];
+  meta: Record<string, unknown> | undefined;
+  /** atomic, compound, parallel, final or history */
+  type: string;
 }
 
+/** classDef style applied to every state the predicate accepts */
+export interface StateStyleRule {
+  style: string;
+  match: (state: StyleContext) => boolean;
+}
+
+/**
+ * Styles for common tag conventions: error = red, success = green, loading = dashed border.
+ * Spread into tagStyles and add your own: `{ ...TAG_STYLE_PRESETS, draft: "fill:#eee" }`.
+ */
+export const TAG_STYLE_PRESETS: Readonly<Record<string, string>> = {
+  error: "fill:#fee2e2,stroke:#dc2626,color:#991b1b",
+  success: "fill:#dcfce7,stroke:#16a34a,color:#166534",
+  loading: "stroke:#2563eb,stroke-dasharray:5 5",
+};
+
 /**
  * Extract short state name from fully qualified XState id
  * "machine.parent.child" -> "child"
@@ -42,9 +122,106 @@ export function getStateName(id: string): string {
   return parts[parts.length - 1] ?? id;
 }
 
+/**
+ * Words with a meaning in Mermaid state diagram or flowchart syntax, never used as bare ids
+ */
+const MERMAID_RESERVED_IDS = new Set([
+  "end", "state", "note", "as", "left", "right", "of", "direction",
+  "class", "classDef", "style", "click", "stateDiagram", "default",
+  "flowchart", "graph", "subgraph",
+]);
+
+/**
+ * Turn arbitrary text into a Mermaid-safe node id:
+ * letters, digits and underscores, never starting with a digit, never a keyword
+ */
+export function toMermaidId(text: string): string {
+  let id = text.replace(/[^A-Za-z0-9_]/g, "_");
+  if (id.length === 0 || /^[0-9]/.test(id)) {
+    id = `_${id}`;
+  }
+  return MERMAID_RESERVED_IDS.has(id) ? `${id}_` : id;
+}
+
+/**
+ * Mermaid node ids and display names for every state of one machine
+ */
+interface StateIds {
+  /** Mermaid-safe, collision-free node id for an XState state id */
+  id(stateId: string): string;
+  /** Display name: short state key, or dotted path with fullyQualifiedNames */
+  name(stateId: string): string;
+  /** Collision-free id for an extra pseudo-state (fork, choice, ...) */
+  reserve(base: string): string;
+}
+
+/**
+ * Assign node ids from each state's path.
+ *
+ * "auto" keeps the short name when it is unique and already Mermaid-safe, so
+ * simple machines read naturally; colliding names ("idle" in two compounds)
+ * fall back to the path ("checkout.cart.idle" -> "cart_idle").
+ * "path" always uses the path.
+ */
+function createStateIds(digraph: DirectedGraphNode, options: MermaidOptions): StateIds {
+  const strategy = options.stateIds ?? "auto";
+  const fullyQualified = options.fullyQualifiedNames ?? false;
+  const nodes: Array<{ id: string; path: string[] }> = [];
+
+  function collect(node: DirectedGraphNode): void {
+    const stateNode = node.stateNode as unknown as { path?: string[] };
+    nodes.push({ id: node.id, path: stateNode?.path ?? [] });
+    for (const child of node.children) {
+      collect(child);
+    }
+  }
+  collect(digraph);
+
+  const shortCounts = new Map<string, number>();
+  for (const { path } of nodes) {
+    const short = path[path.length - 1];
+    if (short !== undefined) {
+      shortCounts.set(short, (shortCounts.get(short) ?? 0) + 1);
+    }
+  }
+
+  const taken = new Set<string>();
+  const reserve = (base: string): string => {
+    let candidate = base;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${base}_${i}`;
+    }
+    taken.add(candidate);
+    return candidate;
+  };
+
+  // Root last: its id only appears on machine-level transitions, states get first pick
+  const root = nodes.shift();
+  if (root) nodes.push(root);
+
+  const idMap = new Map<string, string>();
+  const nameMap = new Map<string, string>();
+  for (const { id, path } of nodes) {
+    // Machine root has an empty path: keep its own (short) id
+    const short = path[path.length - 1] ?? getStateName(id);
+    const keepShort =
+      path.length <= 1 ||
+      (strategy === "auto" && shortCounts.get(short) === 1 && toMermaidId(short) === short);
+    idMap.set(id, reserve(toMermaidId(keepShort ? short : path.join("_"))));
+    nameMap.set(id, fullyQualified && path.length > 0 ? path.join(".") : short);
+  }
+
+  return {
+    id: stateId => idMap.get(stateId) ?? toMermaidId(getStateName(stateId)),
+    name: stateId => nameMap.get(stateId) ?? getStateName(stateId),
+    reserve,
+  };
+}
+
 /**
  * Format XState internal event names
  * "xstate.after.60000.machine..." -> "after 60000ms"
+ * "xstate.done.state.machine.parent" -> "done"
  * Keeps raw milliseconds for parity with Stately.ai
  */
 export function formatEventName(event: string): string {
@@ -54,9 +231,43 @@ export function formatEventName(event: string): string {
       return `after ${match[1]}ms`;
     }
   }
+  // onDone of a compound/parallel state: "xstate.done.state.machine.parent" -> "done"
+  if (event.startsWith("xstate.done.state.")) {
+    return "done";
+  }
   return event;
 }
 
+/**
+ * Mermaid entity codes (`#name;` / `#code;`) for characters that are either
+ * Mermaid syntax or HTML when labels are rendered with htmlLabels
+ */
+const MERMAID_ENTITIES: Record<string, string> = {
+  '#': '#35;',
+  ';': '#59;',
+  '&': '#amp;',
+  '<': '#lt;',
+  '>': '#gt;',
+  '"': '#quot;',
+  '{': '#123;',
+  '}': '#125;',
+  '`': '#96;',
+};
+
+/**
+ * Escape a user-provided name (state, event, guard, action) for a Mermaid label.
+ * - Syntax and HTML characters become Mermaid entity codes, so `<script>` is shown as text
+ * - Colons become the unicode ratio character (they break `id: label` syntax)
+ * - Line breaks become `<br/>`
+ */
+export function escapeMermaidLabel(text: string): string {
+  return text
+    .replace(/[#;&<>"{}`]/g, c => MERMAID_ENTITIES[c] ?? c)
+    // Replace colons with unicode ratio character (U+2236)
+    .replace(/:/g, '∶')
+    .replace(/\r?\n/g, '<br/>');
+}
+
 /**
  * Escape text for Mermaid state descriptions.
  * Colons break `stateName: description` syntax, so replace with unicode ratio character.
@@ -64,10 +275,46 @@ export function formatEventName(event: string): string {
  */
 export function escapeMermaidText(text: string): string {
   // Expand INV: abbreviation to full word for readability
-  let result = text.replace(/^INV:/i, 'Invariant∶');
-  // Replace remaining colons with unicode ratio character (U+2236)
-  result = result.replace(/:/g, '∶');
-  return result;
+  const result = text.replace(/^INV:/i, 'Invariant∶');
+  return escapeMermaidLabel(result);
+}
+
+/**
+ * Markup state and transition labels are written in: Mermaid's HTML labels,
+ * or Graphviz HTML-like labels (see toDot)
+ */
+interface LabelMarkup {
+  bold(text: string): string;
+  italic(text: string): string;
+  sup(text: string): string;
+  lineBreak: string;
+  /** Escape a name from the machine (state, event, guard, action, meta) */
+  label(text: string): string;
+  /** Escape free text (descriptions, tags, invokes), expanding abbreviations */
+  text(text: string): string;
+}
+
+const MERMAID_MARKUP: LabelMarkup = {
+  bold: text => `<b>${text}</b>`,
+  italic: text => `<i>${text}</i>`,
+  sup: text => `<sup>${text}</sup>`,
+  lineBreak: "<br/>",
+  label: escapeMermaidLabel,
+  text: escapeMermaidText,
+};
+
+/**
+ * Name of a guard or action reference: plain string ("notify") or an object /
+ * built-in action carrying a `type` ({ type: "notify" }, assign -> "xstate.assign").
+ * Anonymous inline functions have no usable name.
+ */
+function getImplementationName(ref: unknown): string | undefined {
+  if (typeof ref === "string") return ref;
+  if ((typeof ref === "object" || typeof ref === "function") && ref !== null) {
+    const type = (ref as { type?: unknown }).type;
+    return typeof type === "string" ? type : undefined;
+  }
+  return undefined;
 }
 
 /**
@@ -90,8 +337,8 @@ export function getDescription(node: DirectedGraphNode): string | undefined {
  */
 export function getEntryActions(node: DirectedGraphNode): string[] {
   const stateNode = node.stateNode as unknown as Record<string, unknown>;
-  const entry = stateNode?.entry as Array<{ type: string }> | undefined;
-  return entry?.map(a => a.type).filter(t => t && !t.startsWith('xstate.')) || [];
+  const entry = stateNode?.entry as unknown[] | undefined;
+  return entry?.map(getImplementationName).filter((t): t is string => !!t && !t.startsWith('xstate.')) || [];
 }
 
 /**
@@ -99,8 +346,8 @@ export function getEntryActions(node: DirectedGraphNode): string[] {
  */
 export function getExitActions(node: DirectedGraphNode): string[] {
   const stateNode = node.stateNode as unknown as Record<string, unknown>;
-  const exit = stateNode?.exit as Array<{ type: string }> | undefined;
-  return exit?.map(a => a.type).filter(t => t && !t.startsWith('xstate.')) || [];
+  const exit = stateNode?.exit as unknown[] | undefined;
+  return exit?.map(getImplementationName).filter((t): t is string => !!t && !t.startsWith('xstate.')) || [];
 }
 
 /**
@@ -129,139 +376,273 @@ export function getMeta(node: DirectedGraphNode): Record<string, unknown> | unde
   return stateNode?.meta as Record<string, unknown> | undefined;
 }
 
+/**
+ * Get the state node type: atomic, compound, parallel, final or history
+ */
+export function getStateType(node: DirectedGraphNode): string {
+  const stateNode = node.stateNode as unknown as Record<string, unknown>;
+  return (stateNode?.type as string | undefined) ?? "atomic";
+}
+
+/**
+ * Get history settings from a `type: "history"` state node:
+ * shallow/deep plus the ids of its default target states.
+ * Without an explicit `target`, XState falls back to the parent's initial state.
+ */
+export function getHistory(
+  node: DirectedGraphNode
+): { history: "shallow" | "deep"; targets: string[] } | undefined {
+  type StateNodeLike = {
+    id: string;
+    type: string;
+    history?: "shallow" | "deep" | false;
+    config: { target?: string | string[]; initial?: unknown };
+    parent?: StateNodeLike;
+    states: Record<string, StateNodeLike>;
+    machine: { getStateNodeById(id: string): StateNodeLike };
+  };
+  const stateNode = node.stateNode as unknown as StateNodeLike;
+  if (stateNode?.type !== "history") return undefined;
+
+  const parent = stateNode.parent;
+  const configured = stateNode.config.target;
+  const rawTargets = configured === undefined
+    ? (typeof parent?.config.initial === "string" ? [parent.config.initial] : [])
+    : (Array.isArray(configured) ? configured : [configured]);
+
+  const targets: string[] = [];
+  for (const target of rawTargets) {
+    if (target.startsWith("#")) {
+      targets.push(stateNode.machine.getStateNodeById(target.substring(1)).id);
+      continue;
+    }
+    // Relative path from the parent ("child" or "child.grandchild")
+    let resolved: StateNodeLike | undefined = parent;
+    for (const key of target.split(".")) {
+      resolved = resolved?.states[key];
+    }
+    if (resolved) {
+      targets.push(resolved.id);
+    }
+  }
+
+  return { history: stateNode.history === "deep" ? "deep" : "shallow", targets };
+}
+
+/**
+ * Get all outgoing edges of a graph node, including eventless (`always`)
+ * transitions, which toDirectedGraph() leaves out. Always-edges mirror the
+ * shape of toDirectedGraph() edges (targetless transitions point at the source).
+ */
+export function getEdges(node: DirectedGraphNode): DirectedGraphEdge[] {
+  type AlwaysTransition = { eventType: string; target?: Array<{ id: string }> };
+  const stateNode = node.stateNode as unknown as { always?: AlwaysTransition[] };
+  const always = stateNode?.always ?? [];
+  const alwaysEdges = always.flatMap((transition, transitionIndex) => {
+    const targets = transition.target ?? [node.stateNode];
+    return targets.map((target, targetIndex) => {
+      const label = {
+        text: transition.eventType,
+        toJSON: () => ({ text: transition.eventType }),
+      };
+      return {
+        id: `${node.id}:always:${transitionIndex}:${targetIndex}`,
+        source: node.stateNode,
+        target,
+        transition,
+        label,
+        toJSON: () => ({ source: node.id, target: target.id, label: label.toJSON() }),
+      } as unknown as DirectedGraphEdge;
+    });
+  });
+  return [...node.edges, ...alwaysEdges];
+}
+
+/**
+ * Check whether a state is transient: an unguarded `always` transition means
+ * the machine passes through it without ever resting there
+ */
+export function isTransientState(node: DirectedGraphNode): boolean {
+  const stateNode = node.stateNode as unknown as { always?: Array<{ guard?: unknown }> };
+  return (stateNode?.always ?? []).some(t => !t.guard);
+}
+
 /**
  * Format a transition label with event, guard, and actions
  * Stately.ai format: "EVENT IF guard" with "⚡ action" below
  */
 export function formatTransitionLabel(
-  transition: { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] },
+  transition: { eventType: string; guard?: { type: string } | string | null; actions?: readonly ({ type: string } | string)[] },
   options: { includeGuards?: boolean; includeActions?: boolean } = {}
+): string {
+  return transitionLabel(transition, options, MERMAID_MARKUP);
+}
+
+function transitionLabel(
+  transition: TransitionLike,
+  options: { includeGuards?: boolean; includeActions?: boolean },
+  markup: LabelMarkup
 ): string {
   const { includeGuards = true, includeActions = true } = options;
 
   // Format event name based on type:
   // - Normal events (CANCEL, PAYMENT_SUCCESS) -> bold
   // - Delayed transitions -> only "after" is italic, ms value is plain
+  // - onDone transitions -> italic "done" keyword
+  // - Eventless (always) transitions -> italic "always" keyword
   const formattedEvent = formatEventName(transition.eventType);
   let label: string;
-  if (formattedEvent.startsWith('after ')) {
+  if (transition.eventType === '') {
+    label = markup.italic('always');
+  } else if (formattedEvent.startsWith('after ')) {
     // "after 5000ms" -> "<i>after</i> 5000ms" (only "after" italic)
     const ms = formattedEvent.substring(6); // everything after "after "
-    label = `<i>after</i> ${ms}`;
+    label = `${markup.italic('after')} ${ms}`;
+  } else if (transition.eventType.startsWith('xstate.done.state.')) {
+    label = markup.italic(formattedEvent);
   } else {
-    label = `<b>${formattedEvent}</b>`;
+    label = markup.bold(markup.label(formattedEvent));
   }
 
-  if (includeGuards && transition.guard?.type) {
-    label += ` IF ${transition.guard.type}`;
+  const guardName = getImplementationName(transition.guard);
+  if (includeGuards && guardName) {
+    label += ` IF ${markup.label(guardName)}`;
   }
 
-  // Action names in bold brackets with lightning inside (matching Stately.ai)
-  if (includeActions && transition.actions && transition.actions.length > 0) {
-    const actionNames = transition.actions
-      .map(a => a.type)
-      .filter(t => t && !t.startsWith('xstate.'));
-    if (actionNames.length > 0) {
-      const formatted = actionNames.map(a => `<b>[ϟ ${a}]</b>`).join(' ');
-      label += `<br/>${formatted}`;
-    }
+  if (includeActions) {
+    label += formatActionList(transition.actions, markup);
   }
 
   return label;
 }
 
+/**
+ * Transition actions as a label suffix: action names in bold brackets with
+ * lightning inside (matching Stately.ai). Empty when there is nothing to show.
+ */
+function formatActionList(
+  actions: readonly ({ type: string } | string)[] | undefined,
+  markup: LabelMarkup
+): string {
+  const actionNames = (actions ?? [])
+    .map(getImplementationName)
+    .filter((t): t is string => !!t && !t.startsWith('xstate.'));
+  if (actionNames.length === 0) return '';
+  return `${markup.lineBreak}${actionNames.map(a => markup.bold(`[ϟ ${markup.label(a)}]`)).join(' ')}`;
+}
+
 /**
  * Format meta object as key-value lines with italicized keys
  * Note: meta is valid XState but gets cleansed by Stately.ai visual editor (no UI for it)
  */
-function formatMeta(meta: Record<string, unknown>): string[] {
+function formatMeta(meta: Record<string, unknown>, markup: LabelMarkup): string[] {
   const lines: string[] = [];
   for (const [key, value] of Object.entries(meta)) {
+    let text: string;
     if (Array.isArray(value)) {
-      lines.push(`<i>${key}</i> - ${value.join(', ')}`);
+      text = value.join(', ');
     } else if (typeof value === 'object' && value !== null) {
-      lines.push(`<i>${key}</i> - ${JSON.stringify(value)}`);
+      text = JSON.stringify(value);
     } else {
-      lines.push(`<i>${key}</i> - ${String(value)}`);
+      text = String(value);
     }
+    lines.push(`${markup.italic(markup.label(key))} - ${markup.label(text)}`);
   }
   return lines;
 }
 
 /**
- * Build state label with Stately.ai-style formatting:
- * - State name as bold header (lowercase like Stately.ai)
+ * Whether a state has anything to show besides its name
+ */
+function hasLabelContent(state: DiagramState): boolean {
+  return state.transient || !!state.description || state.tags.length > 0 || !!state.meta ||
+    state.entry.length > 0 || state.exit.length > 0 || state.invokes.length > 0;
+}
+
+/**
+ * State label sections below the name, with Stately.ai-style formatting:
+ * - Italic "transient" marker for states left immediately via `always`
  * - Description as plain text
  * - Tags in parentheses
  * - Meta as key-value pairs
  * - Entry/Exit actions with lightning INSIDE brackets [ϟ action]
  * - Invoke actors in brackets [◉ actor], Actor ID as subtext
+ * `desc` is passed in already escaped for `markup`.
  */
-function buildStateLabel(
-  name: string,
-  desc: string | undefined,
-  tags: string[],
-  meta: Record<string, unknown> | undefined,
-  entry: string[],
-  exit: string[],
-  invokes: Array<{ src: string; id: string }>,
-  maxLen: number
-): string {
+function stateLabelSections(state: DiagramState, desc: string | undefined, markup: LabelMarkup): string[] {
   const lines: string[] = [];
 
-  // State name: bold, lowercase (matching Stately.ai's style)
-  lines.push(`<b>${name.toLowerCase()}</b>`);
-  lines.push(`━━━━━━━━━━━━━━`);
+  // Transient marker: the machine passes through via `always` and never rests here
+  if (state.transient) {
+    lines.push(markup.italic('transient'));
+  }
 
   // Tags FIRST (Stately.ai shows tags at top as small pill badges)
   // All tags on same line, space-separated, using superscript
-  if (tags.length > 0) {
-    const tagLine = tags.map(tag => `(${escapeMermaidText(tag)})`).join(' ');
-    lines.push(`<sup>${tagLine}</sup>`);
+  if (state.tags.length > 0) {
+    const tagLine = state.tags.map(tag => `(${markup.text(tag)})`).join(' ');
+    lines.push(markup.sup(tagLine));
   }
 
   // Description AFTER tags - superscript bold for prominence while staying compact
   if (desc) {
-    lines.push(`<sup><b>${desc}</b></sup>`);
+    lines.push(markup.sup(markup.bold(desc)));
   }
 
   // Meta as generic key-value pairs (italicized keys)
-  if (meta && Object.keys(meta).length > 0) {
-    const metaLines = formatMeta(meta);
-    for (const line of metaLines) {
-      lines.push(line);
-    }
+  if (state.meta) {
+    lines.push(...formatMeta(state.meta, markup));
   }
 
   // Entry actions: normal label, bold action with lightning INSIDE brackets
-  if (entry.length > 0) {
+  if (state.entry.length > 0) {
     lines.push(`────────`);
     lines.push(`Entry actions`);
-    for (const action of entry) {
-      lines.push(`<b>[ϟ ${action}]</b>`);
+    for (const action of state.entry) {
+      lines.push(markup.bold(`[ϟ ${markup.label(action)}]`));
     }
   }
 
   // Exit actions: normal label, bold action with lightning INSIDE brackets
-  if (exit.length > 0) {
+  if (state.exit.length > 0) {
     lines.push(`────────`);
     lines.push(`Exit actions`);
-    for (const action of exit) {
-      lines.push(`<b>[ϟ ${action}]</b>`);
+    for (const action of state.exit) {
+      lines.push(markup.bold(`[ϟ ${markup.label(action)}]`));
     }
   }
 
   // Invokes: normal label, bold actor in brackets, bold Actor ID as superscript
-  if (invokes.length > 0) {
+  if (state.invokes.length > 0) {
     lines.push(`────────`);
     lines.push(`Invoke`);
-    for (const inv of invokes) {
-      lines.push(`<b>[◉ ${escapeMermaidText(inv.src)}]</b>`);
-      lines.push(`<b><sup>∟ ID∶ ${escapeMermaidText(inv.id)}</sup></b>`);
+    for (const inv of state.invokes) {
+      lines.push(markup.bold(`[◉ ${markup.text(inv.src)}]`));
+      lines.push(markup.bold(markup.sup(`${markup.label("∟ ID: ")}${markup.text(inv.id)}`)));
     }
   }
 
-  let text = lines.join('<br/>');
+  return lines;
+}
+
+/**
+ * Build state label: the state name as bold header (lowercase like
+ * Stately.ai), then stateLabelSections. `desc` is passed in already escaped
+ * for `markup`; it defaults to the whole description.
+ */
+function buildStateLabel(
+  state: DiagramState,
+  maxLen: number,
+  markup: LabelMarkup = MERMAID_MARKUP,
+  desc: string | undefined = state.description ? markup.text(state.description) : undefined
+): string {
+  const lines = [
+    markup.bold(markup.label(state.name.toLowerCase())),
+    `━━━━━━━━━━━━━━`,
+    ...stateLabelSections(state, desc, markup),
+  ];
+
+  let text = lines.join(markup.lineBreak);
   if (maxLen > 0 && text.length > maxLen) {
     text = text.substring(0, maxLen) + "...";
   }
@@ -270,264 +651,3153 @@ function buildStateLabel(
 }
 
 /**
- * Convert XState v5 machine to Mermaid stateDiagram-v2 (flat)
+ * History pseudo-state: "H" (shallow) or "H*" (deep) marker
+ * plus an edge to each default target
  */
-export function toMermaid(
-  machine: AnyStateMachine,
-  options: MermaidOptions = {}
-): string {
-  const digraph = toDirectedGraph(machine);
-  const lines: string[] = [];
-  const seenEdges = new Set<string>();
-  const seenStates = new Set<string>();
-  const maxLen = options.maxDescriptionLength ?? 0;
-  // Resolve optional properties to concrete booleans for exactOptionalPropertyTypes compliance
-  const labelOptions = {
-    includeGuards: options.includeGuards ?? true,
-    includeActions: options.includeActions ?? true,
+function historyLines(id: string, history: { history: "shallow" | "deep"; targets: string[] }): string[] {
+  const marker = history.history === "deep" ? "H*" : "H";
+  return [
+    `state "${marker}" as ${id}`,
+    ...history.targets.map(target => `${id} --> ${target}`),
+  ];
+}
+
+/**
+ * State without label content: `id: name`, or an alias when the id differs
+ */
+function plainStateLine(id: string, name: string): string {
+  if (id === name) return `${id}: ${name}`;
+  // Mermaid rejects an empty alias (`state "" as id`)
+  const label = escapeMermaidLabel(name);
+  return label ? `state "${label}" as ${id}` : `${id}: ${id}`;
+}
+
+/**
+ * stateDiagram-v2 statements of a state drawn without a block: history
+ * marker, labelled state or plain state. A final state leads to the [*] of
+ * the enclosing block (the whole diagram in flat mode).
+ */
+function leafStateLines(state: DiagramState, maxLen: number): string[] {
+  const lines = state.history
+    ? historyLines(state.id, state.history)
+    : [hasLabelContent(state) ? `${state.id}: ${buildStateLabel(state, maxLen)}` : plainStateLine(state.id, state.name)];
+  if (state.type === "final") {
+    lines.push(`${state.id} --> [*]`);
+  }
+  return lines;
+}
+
+/**
+ * Id of the initial child state (compound states and the machine root)
+ */
+function getInitialStateId(node: DirectedGraphNode): string | undefined {
+  const stateNode = node.stateNode as unknown as {
+    config?: { initial?: unknown };
+    states?: Record<string, { id: string }>;
   };
+  const initial = stateNode?.config?.initial;
+  if (!initial || typeof initial !== "string") return undefined;
+  return stateNode.states?.[initial]?.id ?? initial;
+}
+
+/**
+ * Check whether a graph node is a parallel state (orthogonal regions)
+ */
+export function isParallel(node: DirectedGraphNode): boolean {
+  return getStateType(node) === "parallel";
+}
 
-  lines.push("stateDiagram-v2");
-  // Note: Mermaid comments (%%) don't render visibly, so no title header
+type ScopeStateNode = { id: string; type: string; parent?: ScopeStateNode };
 
-  const initial = machine.config.initial;
-  if (initial && typeof initial === "string") {
-    lines.push(`    [*] --> ${initial}`);
+/**
+ * Id of the state node whose block an edge is drawn in (the machine root id = top level).
+ *
+ * Scope is the deepest proper ancestor shared by source and target, so both
+ * endpoints are already declared when the edge is written. Parallel states are
+ * skipped: their `--` sections cannot hold cross-region edges.
+ */
+function getEdgeScope(source: ScopeStateNode, target: ScopeStateNode): string {
+  const targetAncestors = new Set<ScopeStateNode>();
+  for (let current = target.parent; current; current = current.parent) {
+    targetAncestors.add(current);
+  }
+  let scope = source.parent;
+  while (scope && !targetAncestors.has(scope)) {
+    scope = scope.parent;
   }
+  while (scope?.type === "parallel" && scope.parent) {
+    scope = scope.parent;
+  }
+  // Only root-level (machine) transitions have no proper ancestor
+  return (scope ?? source).id;
+}
 
-  const includeEntry = options.includeEntryActions ?? true;
-  const includeExit = options.includeExitActions ?? true;
-  const includeInvoke = options.includeInvokes ?? true;
-  const includeTagsOpt = options.includeTags ?? true;
-  const includeMetaOpt = options.includeMeta ?? true;
-
-  function collectAll(node: DirectedGraphNode): void {
-    const name = getStateName(node.id);
-    const desc = getDescription(node);
-    const entry = includeEntry ? getEntryActions(node) : [];
-    const exit = includeExit ? getExitActions(node) : [];
-    const invokes = includeInvoke ? getInvokes(node) : [];
-    const tags = includeTagsOpt ? getTags(node) : [];
-    const meta = includeMetaOpt ? getMeta(node) : undefined;
-
-    if (!seenStates.has(name)) {
-      seenStates.add(name);
-
-      const hasContent = desc || tags.length > 0 || (meta && Object.keys(meta).length > 0) || entry.length > 0 || exit.length > 0 || invokes.length > 0;
-      if (hasContent) {
-        const label = buildStateLabel(name, desc, tags, meta, entry, exit, invokes, maxLen);
-        lines.push(`    ${name}: ${label}`);
-      } else {
-        lines.push(`    ${name}: ${name}`);
-      }
-    }
+type TransitionLike = {
+  eventType: string;
+  guard?: { type: string } | string | null;
+  actions?: readonly ({ type: string } | string)[];
+};
 
-    for (const edge of node.edges) {
-      const sourceName = getStateName(edge.source.id);
-      const targetName = getStateName(edge.target.id);
-      const t = edge.transition as { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] };
-      const key = `${sourceName}:${targetName}:${t.eventType}`;
-      if (!seenEdges.has(key)) {
-        seenEdges.add(key);
-        lines.push(`    ${sourceName} --> ${targetName}: ${formatTransitionLabel(t, labelOptions)}`);
-      }
-    }
-    for (const child of node.children) {
-      collectAll(child);
-    }
+/** Statement syntax of the diagram types the state renderers write */
+interface DiagramSyntax {
+  transition(from: string, to: string, label: string): string;
+  choice(id: string): string;
+  /**
+   * Opening statements of a block (`title` already escaped): the block itself,
+   * then any block attributes, written inside it
+   */
+  blockStart(id: string, title: string): string[];
+  blockEnd: string;
+  /** Leaf node with a display title (already escaped) */
+  leaf(id: string, title: string): string;
+  markup: LabelMarkup;
+}
+
+const STATE_DIAGRAM_SYNTAX: DiagramSyntax = {
+  transition: (from, to, label) => `${from} --> ${to}: ${label}`,
+  choice: id => `state ${id} <<choice>>`,
+  blockStart: (id, title) => [`state "${title}" as ${id} {`],
+  blockEnd: "}",
+  leaf: (id, title) => `state "${title}" as ${id}`,
+  markup: MERMAID_MARKUP,
+};
+
+const FLOWCHART_SYNTAX: DiagramSyntax = {
+  transition: (from, to, label) => `${from} -->|"${label}"| ${to}`,
+  choice: id => `${id}{{" "}}`,
+  blockStart: (id, title) => [`subgraph ${id} ["${title}"]`],
+  blockEnd: "end",
+  leaf: (id, title) => `${id}("${title}")`,
+  markup: MERMAID_MARKUP,
+};
+
+/**
+ * Label of a model edge. Branches of a guarded choice carry their number in
+ * priority order ("(2) IF isAdmin", "(3) else") instead of the event.
+ */
+function edgeLabel(edge: DiagramEdge, markup: LabelMarkup): string {
+  if (!edge.branch) {
+    return transitionLabel({ eventType: edge.event, guard: edge.guard ?? null, actions: edge.actions }, {}, markup);
   }
+  let label = `(${edge.branch.index})`;
+  if (edge.branch.else) {
+    label += " else";
+  } else if (edge.guard) {
+    label += ` IF ${markup.label(edge.guard)}`;
+  }
+  return label + formatActionList(edge.actions, markup);
+}
 
-  for (const edge of digraph.edges) {
-    const sourceName = getStateName(edge.source.id);
-    const targetName = getStateName(edge.target.id);
-    const t = edge.transition as { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] };
-    const key = `${sourceName}:${targetName}:${t.eventType}`;
-    if (!seenEdges.has(key)) {
-      seenEdges.add(key);
-      lines.push(`    ${sourceName} --> ${targetName}: ${formatTransitionLabel(t, labelOptions)}`);
+/** Rewrites a transition label, given the model edge it labels */
+type EdgeDecorator = (edge: DiagramEdge, label: string) => string;
+
+/**
+ * Transition statement of a model edge
+ */
+function edgeStatement(edge: DiagramEdge, syntax: DiagramSyntax, decorate?: EdgeDecorator): string {
+  const label = edgeLabel(edge, syntax.markup);
+  return syntax.transition(edge.source, edge.target, decorate ? decorate(edge, label) : label);
+}
+
+/**
+ * YAML block lines for a config object. Leaves are written as JSON, which is
+ * valid YAML (strings become double-quoted scalars), so values need no escaping of our own.
+ */
+function yamlLines(value: Record<string, unknown>, indent: number): string[] {
+  const pad = "  ".repeat(indent);
+  const lines: string[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue;
+    const yamlKey = /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) ? key : JSON.stringify(key);
+    if (typeof child === "object" && child !== null && !Array.isArray(child) && Object.keys(child).length > 0) {
+      lines.push(`${pad}${yamlKey}:`, ...yamlLines(child as Record<string, unknown>, indent + 1));
+    } else {
+      lines.push(`${pad}${yamlKey}: ${JSON.stringify(child)}`);
     }
   }
+  return lines;
+}
+
+/**
+ * Mermaid YAML frontmatter (`---` block) carrying title, theme and raw config.
+ * Empty when none of them is set.
+ */
+export function formatFrontmatter(options: Pick<MermaidOptions, "title" | "theme" | "mermaidConfig"> = {}): string[] {
+  const config: Record<string, unknown> = { ...options.mermaidConfig };
+  if (options.theme) {
+    config.theme = options.theme;
+  }
+  const body: string[] = [];
+  if (options.title) {
+    body.push(`title: ${JSON.stringify(options.title)}`);
+  }
+  if (Object.keys(config).length > 0) {
+    body.push("config:", ...yamlLines(config, 1));
+  }
+  return body.length > 0 ? ["---", ...body, "---"] : [];
+}
 
-  for (const child of digraph.children) {
-    collectAll(child);
+/**
+ * Frontmatter, diagram type and global direction shared by both renderers
+ */
+function diagramHeader(options: MermaidOptions): string[] {
+  const lines = [...formatFrontmatter(options), "stateDiagram-v2"];
+  if (options.direction) {
+    lines.push(`    direction ${options.direction}`);
   }
+  return lines;
+}
 
-  return lines.join("\n");
+/**
+ * Per-state direction from options.stateDirections, by state id or path from the root
+ */
+function getStateDirection(node: DirectedGraphNode, options: MermaidOptions): MermaidDirection | undefined {
+  const directions = options.stateDirections;
+  if (!directions) return undefined;
+  const path = (node.stateNode as unknown as { path?: string[] })?.path ?? [];
+  return directions[node.id] ?? directions[path.join(".")];
 }
 
 /**
- * Convert XState v5 machine to Mermaid with nested compound states
+ * Tags shown in a state label, honouring includeTags
  */
-export function toMermaidNested(
-  machine: AnyStateMachine,
-  options: MermaidOptions = {}
-): string {
-  const digraph = toDirectedGraph(machine);
-  const lines: string[] = [];
-  const processedEdges = new Set<string>();
+function getLabelTags(node: DirectedGraphNode, options: MermaidOptions): string[] {
+  const include = options.includeTags ?? true;
+  if (!include) return [];
+  const tags = getTags(node);
+  return include === "unstyled"
+    ? tags.filter(tag => typeof options.tagStyles?.[tag] !== "string")
+    : tags;
+}
 
-  // Collect ALL edges from the entire graph for LCA-based rendering
-  const allEdges: Array<{
-    source: { id: string };
-    target: { id: string };
-    transition: { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] };
-  }> = [];
+/**
+ * States each options.tagStyles entry applies to, in option order. Entries no state matches are left out.
+ */
+function matchTagStyles(
+  digraph: DirectedGraphNode,
+  options: MermaidOptions
+): Array<{ className: string; style: string; states: DirectedGraphNode[] }> {
+  const rules = Object.entries(options.tagStyles ?? {});
+  if (rules.length === 0) return [];
 
-  function collectEdges(node: DirectedGraphNode): void {
-    for (const edge of node.edges) {
-      allEdges.push({
-        source: { id: edge.source.id },
-        target: { id: edge.target.id },
-        transition: edge.transition as { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] },
-      });
-    }
+  const states: DirectedGraphNode[] = [];
+  const collect = (node: DirectedGraphNode) => {
     for (const child of node.children) {
-      collectEdges(child);
+      states.push(child);
+      collect(child);
     }
-  }
-
-  // Collect edges from all children (root edges handled separately)
-  for (const child of digraph.children) {
-    collectEdges(child);
-  }
-  // Also include root-level edges
-  for (const edge of digraph.edges) {
-    allEdges.push({
-      source: { id: edge.source.id },
-      target: { id: edge.target.id },
-      transition: edge.transition as { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] },
-    });
-  }
-  const maxLen = options.maxDescriptionLength ?? 0;
-  // Resolve optional properties to concrete booleans for exactOptionalPropertyTypes compliance
-  const labelOptions = {
-    includeGuards: options.includeGuards ?? true,
-    includeActions: options.includeActions ?? true,
   };
-  const includeEntry = options.includeEntryActions ?? true;
-  const includeExit = options.includeExitActions ?? true;
-  const includeInvoke = options.includeInvokes ?? true;
-  const includeTagsOpt = options.includeTags ?? true;
-  const includeMetaOpt = options.includeMeta ?? true;
+  collect(digraph);
+
+  return rules.flatMap(([name, rule]) => {
+    const { style, match } = typeof rule === "string"
+      ? { style: rule, match: (state: StyleContext) => state.tags.includes(name) }
+      : rule;
+    const matched = states.filter(node =>
+      match({ id: node.id, tags: getTags(node), meta: getMeta(node), type: getStateType(node) })
+    );
+    return matched.length > 0 ? [{ className: toMermaidId(name), style, states: matched }] : [];
+  });
+}
 
-  lines.push("stateDiagram-v2");
-  // Note: Mermaid comments (%%) don't render visibly, so no title header
+/**
+ * classDef / class statements for options.tagStyles
+ */
+function styleLines(model: DiagramModel): string[] {
+  const states = modelStates(model);
+  return model.classes.flatMap(({ name, style }) => [
+    `classDef ${name} ${style}`,
+    `class ${states.filter(state => state.classes.includes(name)).map(state => state.id).join(",")} ${name}`,
+  ]);
+}
 
-  function processNode(node: DirectedGraphNode, indent: number = 1): void {
-    const pad = "    ".repeat(indent);
-    const name = getStateName(node.id);
-    const hasChildren = node.children && node.children.length > 0;
-    const desc = getDescription(node);
-    const entry = includeEntry ? getEntryActions(node) : [];
-    const exit = includeExit ? getExitActions(node) : [];
-    const invokes = includeInvoke ? getInvokes(node) : [];
-    const tags = includeTagsOpt ? getTags(node) : [];
-    const meta = includeMetaOpt ? getMeta(node) : undefined;
-    const stateNode = node.stateNode as unknown as Record<string, unknown>;
-
-    if (hasChildren) {
-      lines.push(`${pad}state ${name} {`);
-
-      // XState v5: initial is stored in config.initial, not directly on stateNode
-      const config = stateNode?.config as Record<string, unknown> | undefined;
-      const initial = config?.initial;
-      if (initial && typeof initial === "string") {
-        lines.push(`${pad}    [*] --> ${initial}`);
-      }
-
-      for (const child of node.children) {
-        processNode(child, indent + 1);
-      }
+/** Expansion depth for `expandInvokedMachines: true` */
+const DEFAULT_INVOKE_DEPTH = 3;
 
-      // Source-scoped edge rendering: render edges where source is a descendant of current node
-      for (const edge of allEdges) {
-        const t = edge.transition;
-        const edgeKey = `${edge.source.id}->${edge.target.id}:${t.eventType}`;
-
-        // Skip if already rendered
-        if (processedEdges.has(edgeKey)) continue;
-
-        // Check if source is inside current node's scope
-        const sourceIsDescendant = edge.source.id.startsWith(node.id + '.');
-        if (!sourceIsDescendant) continue;
-
-        // Skip cross-compound-state transitions (e.g., genesis.x --> system.y)
-        // Only applies when BOTH source and target are nested inside compound states (depth >= 3)
-        const sourceParts = edge.source.id.split('.');
-        const targetParts = edge.target.id.split('.');
-        if (sourceParts.length >= 3 && targetParts.length >= 3) {
-          const sourceCompound = sourceParts[1];
-          const targetCompound = targetParts[1];
-          if (sourceCompound && targetCompound && sourceCompound !== targetCompound) {
-            processedEdges.add(edgeKey);
-            continue;
-          }
-        }
+/**
+ * Invoked actors of a state whose logic is a state machine: registered in
+ * setup({ actors }) (looked up by `src`) or passed inline to `invoke`
+ */
+function getInvokedMachines(
+  node: DirectedGraphNode,
+  machine: AnyStateMachine
+): Array<{ invoke: { src: string; id: string }; logic: AnyStateMachine }> {
+  const stateNode = node.stateNode as unknown as { config?: { invoke?: unknown } };
+  const configured = stateNode?.config?.invoke;
+  const configs = (Array.isArray(configured) ? configured : configured ? [configured] : []) as Array<{ src?: unknown }>;
+  const actors = (machine.implementations as { actors?: Record<string, unknown> }).actors ?? {};
+  return getInvokes(node).flatMap((invoke, index) => {
+    const inline = configs[index]?.src;
+    const logic = typeof inline === "object" && inline !== null ? inline : actors[invoke.src];
+    const isMachine = typeof logic === "object" && logic !== null && "root" in logic && "getStateNodeById" in logic;
+    return isMachine ? [{ invoke, logic: logic as AnyStateMachine }] : [];
+  });
+}
 
-        // Render the edge
-        processedEdges.add(edgeKey);
-        const sourceName = getStateName(edge.source.id);
-        const targetName = getStateName(edge.target.id);
-        lines.push(`${pad}    ${sourceName} --> ${targetName}: ${formatTransitionLabel(t, labelOptions)}`);
+/**
+ * Ids for a machine drawn inside another: prefixed with its block id and
+ * reserved in the outer diagram, so they never collide with the outer states
+ */
+function prefixedStateIds(inner: StateIds, outer: StateIds, prefix: string): StateIds {
+  const assigned = new Map<string, string>();
+  return {
+    id(stateId) {
+      let id = assigned.get(stateId);
+      if (!id) {
+        id = outer.reserve(`${prefix}_${inner.id(stateId)}`);
+        assigned.set(stateId, id);
       }
+      return id;
+    },
+    name: stateId => inner.name(stateId),
+    // Bases are built from ids this object already returned (prefixed)
+    reserve: base => outer.reserve(base),
+  };
+}
 
-      lines.push(`${pad}}`);
+/** A state of a DiagramModel, with the annotations the options ask for */
+export interface DiagramState {
+  /** XState state id ("checkout.cart") */
+  stateId: string;
+  /** Collision-free diagram id, safe as a Mermaid and Graphviz node id (see MermaidOptions.stateIds) */
+  id: string;
+  /** Display name: short state key, or dotted path with fullyQualifiedNames */
+  name: string;
+  /** atomic, compound, parallel, final or history */
+  type: string;
+  /** Region of a parallel state */
+  region: boolean;
+  /** Diagram id of the initial child state */
+  initial?: string;
+  /** Layout direction inside the state, from stateDirections */
+  direction?: MermaidDirection;
+  /** Description, unescaped */
+  description?: string;
+  /** Tags to show, honouring includeTags */
+  tags: string[];
+  /** Meta to show: non-empty, honouring includeMeta */
+  meta?: Record<string, unknown>;
+  /** Named entry actions, honouring includeEntryActions */
+  entry: string[];
+  /** Named exit actions, honouring includeExitActions */
+  exit: string[];
+  /** Invoked actors, honouring includeInvokes */
+  invokes: Array<{ src: string; id: string }>;
+  /** Left immediately through an unguarded `always` transition */
+  transient: boolean;
+  /** History states: depth and diagram ids of the default targets */
+  history?: { history: "shallow" | "deep"; targets: string[] };
+  /** DiagramModel.classes (tagStyles) the state belongs to */
+  classes: string[];
+  children: DiagramState[];
+  /** Invoked state machines drawn inside the state (expandInvokedMachines) */
+  invoked: DiagramInvokedMachine[];
+}
 
-      if (desc) {
-        const text = maxLen > 0 && desc.length > maxLen ? desc.substring(0, maxLen) + "..." : desc;
-        lines.push(`${pad}note right of ${name}: ${text}`);
-      }
-    } else {
-      const hasContent = desc || tags.length > 0 || (meta && Object.keys(meta).length > 0) || entry.length > 0 || exit.length > 0 || invokes.length > 0;
-      if (hasContent) {
-        const label = buildStateLabel(name, desc, tags, meta, entry, exit, invokes, maxLen);
-        lines.push(`${pad}${name}: ${label}`);
-      } else {
-        lines.push(`${pad}${name}: ${name}`);
-      }
-    }
-  }
+/** An invoked state machine drawn inside the invoking state */
+export interface DiagramInvokedMachine {
+  /** Diagram id of the block */
+  id: string;
+  /** Actor name: `src`, or the machine id for inline logic */
+  name: string;
+  /**
+   * Model of the invoked machine, its ids prefixed with the block id.
+   * Missing when the machine is already drawn further out (a cycle).
+   */
+  model?: DiagramModel;
+}
 
-  const initial = machine.config.initial;
-  if (initial && typeof initial === "string") {
-    lines.push(`    [*] --> ${initial}`);
-  }
+/** A transition, or one branch of a guarded choice */
+export interface DiagramEdge {
+  /** Diagram id of the source state or choice */
+  source: string;
+  /** Diagram id of the target state or choice */
+  target: string;
+  /**
+   * Diagram id of the state whose block the edge is drawn in (the root id: top level).
+   * It is the deepest proper ancestor shared by source and target, so both
+   * endpoints are declared when the edge is written. Parallel states are
+   * skipped: their regions cannot hold cross-region edges.
+   */
+  scope: string;
+  /** XState event type, "" for eventless (`always`) transitions */
+  event: string;
+  /** Guard name, honouring includeGuards */
+  guard?: string;
+  /** Named actions, honouring includeActions */
+  actions: string[];
+  /** Edge leaving a guarded choice: position in priority order (from 1), and whether it is the unguarded fallback */
+  branch?: { index: number; else: boolean };
+  /** Ids of the @xstate/graph edges (see getEdges) the edge stands for */
+  graphEdges: string[];
+}
 
-  for (const child of digraph.children) {
-    processNode(child, 1);
-  }
+/** Pseudo-state an event with guarded candidates is routed through (guardedChoices) */
+export interface DiagramChoice {
+  id: string;
+  /** Diagram id of the state the event leaves */
+  source: string;
+  /** XState event type */
+  event: string;
+  /** Diagram id of the block the choice is declared in: the source state's */
+  scope: string;
+}
+
+/**
+ * Renderer-independent description of a machine diagram, see buildDiagramModel
+ */
+export interface DiagramModel {
+  /** Machine id */
+  id: string;
+  /** The machine root: top-level states are its children */
+  root: DiagramState;
+  /** Every transition once, in document order of the states they leave */
+  edges: DiagramEdge[];
+  choices: DiagramChoice[];
+  /** tagStyles classes that apply to at least one state, in option order */
+  classes: Array<{ name: string; style: string }>;
+  /** Options the model was built with, for settings renderers read (title, direction, ...) */
+  options: MermaidOptions;
+}
 
-  // Render any remaining edges not yet processed (top-level edges)
-  // These are edges whose source is a direct child of the machine root
-  for (const edge of allEdges) {
-    const t = edge.transition;
-    const edgeKey = `${edge.source.id}->${edge.target.id}:${t.eventType}`;
+/**
+ * Build the renderer-independent model of a machine: a tree of states with
+ * collision-free ids, types and the annotations the options ask for, plus a
+ * flat list of edges with the block each is drawn in. The built-in renderers
+ * draw this model, and so can your own (see DiagramRenderer).
+ */
+export function buildDiagramModel(machine: AnyStateMachine, options: MermaidOptions = {}): DiagramModel {
+  const digraph = toDirectedGraph(machine);
+  return buildModel(machine, digraph, createStateIds(digraph, options), [machine], options);
+}
 
-    // Skip if already rendered
-    if (processedEdges.has(edgeKey)) continue;
+/**
+ * Model of one machine: the diagram itself, or an invoked machine drawn inside it
+ *
+ * @param machines Machines modelled so far, outermost first: depth limit and cycle detection
+ */
+function buildModel(
+  machine: AnyStateMachine,
+  digraph: DirectedGraphNode,
+  ids: StateIds,
+  machines: AnyStateMachine[],
+  options: MermaidOptions
+): DiagramModel {
+  const includeEntry = options.includeEntryActions ?? true;
+  const includeExit = options.includeExitActions ?? true;
+  const includeInvoke = options.includeInvokes ?? true;
+  const includeMeta = options.includeMeta ?? true;
+  const includeGuards = options.includeGuards ?? true;
+  const includeActions = options.includeActions ?? true;
+  const expand = options.expandInvokedMachines ?? false;
+  const maxDepth = expand === true ? DEFAULT_INVOKE_DEPTH : expand || 0;
 
-    // Skip cross-compound-state transitions (e.g., genesis.x --> system.y)
-    // These cannot be rendered in Mermaid stateDiagram
-    // Only applies when BOTH source and target are nested inside compound states (depth >= 3)
-    const sourceParts = edge.source.id.split('.');
-    const targetParts = edge.target.id.split('.');
-    if (sourceParts.length >= 3 && targetParts.length >= 3) {
-      const sourceCompound = sourceParts[1];
-      const targetCompound = targetParts[1];
-      if (sourceCompound && targetCompound && sourceCompound !== targetCompound) {
-        // Cross-compound transition - skip it
-        processedEdges.add(edgeKey);
-        continue;
-      }
+  const tagStyles = matchTagStyles(digraph, options);
+  const classes = new Map<DirectedGraphNode, string[]>();
+  for (const { className, states } of tagStyles) {
+    for (const node of states) {
+      classes.set(node, [...(classes.get(node) ?? []), className]);
     }
-
-    // Render the edge at root level
-    processedEdges.add(edgeKey);
-    const sourceName = getStateName(edge.source.id);
-    const targetName = getStateName(edge.target.id);
-    lines.push(`    ${sourceName} --> ${targetName}: ${formatTransitionLabel(t, labelOptions)}`);
   }
 
+  function invokedMachines(node: DirectedGraphNode): DiagramInvokedMachine[] {
+    if (machines.length > maxDepth) return [];
+    return getInvokedMachines(node, machine).map(({ invoke, logic }) => {
+      // Inline logic is registered under a generated "xstate.invoke.*" key
+      const name = invoke.src.startsWith("xstate.invoke.") ? logic.id : invoke.src;
+      const id = ids.reserve(`${ids.id(node.id)}_${toMermaidId(invoke.id)}`);
+      if (machines.includes(logic)) {
+        return { id, name };
+      }
+      const child = toDirectedGraph(logic);
+      const childIds = prefixedStateIds(createStateIds(child, options), ids, id);
+      return { id, name, model: buildModel(logic, child, childIds, [...machines, logic], options) };
+    });
+  }
+
+  function buildState(node: DirectedGraphNode): DiagramState {
+    const stateNode = node.stateNode as unknown as ScopeStateNode & { description?: string };
+    const initial = getInitialStateId(node);
+    const direction = getStateDirection(node, options);
+    const meta = includeMeta ? getMeta(node) : undefined;
+    const history = getHistory(node);
+    return {
+      stateId: node.id,
+      id: ids.id(node.id),
+      name: ids.name(node.id),
+      type: getStateType(node),
+      region: stateNode.parent?.type === "parallel",
+      ...(initial ? { initial: ids.id(initial) } : {}),
+      ...(direction ? { direction } : {}),
+      ...(stateNode.description ? { description: stateNode.description } : {}),
+      tags: getLabelTags(node, options),
+      ...(meta && Object.keys(meta).length > 0 ? { meta } : {}),
+      entry: includeEntry ? getEntryActions(node) : [],
+      exit: includeExit ? getExitActions(node) : [],
+      invokes: includeInvoke ? getInvokes(node).map(({ src, id }) => ({ src, id })) : [],
+      transient: isTransientState(node),
+      ...(history ? { history: { history: history.history, targets: history.targets.map(target => ids.id(target)) } } : {}),
+      classes: classes.get(node) ?? [],
+      // The root is never drawn as a state of its own
+      invoked: node === digraph ? [] : invokedMachines(node),
+      children: node.children.map(buildState),
+    };
+  }
+
+  const root = buildState(digraph);
+  const edges: DiagramEdge[] = [];
+  const choices: DiagramChoice[] = [];
+  const scopeOf = (source: unknown, target: unknown) =>
+    ids.id(getEdgeScope(source as ScopeStateNode, target as ScopeStateNode));
+  const guardOf = (transition: TransitionLike) => {
+    const guard = includeGuards ? getImplementationName(transition.guard) : undefined;
+    return guard ? { guard } : {};
+  };
+  const actionsOf = (transition: TransitionLike) => includeActions
+    ? (transition.actions ?? []).map(getImplementationName).filter((name): name is string => !!name && !name.startsWith("xstate."))
+    : [];
+
+  // With guardedChoices, an event whose candidates include a guard is routed
+  // `source -> choice`, then one numbered branch per candidate in the order
+  // XState tries them; the unguarded fallback becomes the "else" branch.
+  function collectEdges(node: DirectedGraphNode): void {
+    const byEvent = new Map<string, DirectedGraphEdge[]>();
+    for (const edge of getEdges(node)) {
+      const eventType = (edge.transition as TransitionLike).eventType;
+      byEvent.set(eventType, [...(byEvent.get(eventType) ?? []), edge]);
+    }
+
+    for (const [event, graphEdges] of byEvent) {
+      // Multi-target transitions produce one edge per target but are a single candidate
+      const candidates = [...new Set(graphEdges.map(edge => edge.transition as TransitionLike))];
+      if (!options.guardedChoices || candidates.length < 2 || !candidates.some(t => t.guard)) {
+        for (const edge of graphEdges) {
+          const transition = edge.transition as TransitionLike;
+          edges.push({
+            source: ids.id(edge.source.id),
+            target: ids.id(edge.target.id),
+            scope: scopeOf(edge.source, edge.target),
+            event,
+            ...guardOf(transition),
+            actions: actionsOf(transition),
+            graphEdges: [edge.id],
+          });
+        }
+        continue;
+      }
+
+      const source = ids.id(node.id);
+      const scope = scopeOf(node.stateNode, node.stateNode);
+      const choice = ids.reserve(`${source}_${toMermaidId(formatEventName(event) || "always")}_choice`);
+      choices.push({ id: choice, source, event, scope });
+      edges.push({ source, target: choice, scope, event, actions: [], graphEdges: graphEdges.map(edge => edge.id) });
+
+      // XState takes the first candidate whose guard passes, so nothing after an unguarded one is reachable
+      const fallback = candidates.findIndex(t => !t.guard);
+      const reachable = fallback === -1 ? candidates : candidates.slice(0, fallback + 1);
+      reachable.forEach((transition, index) => {
+        for (const edge of graphEdges.filter(e => e.transition === transition)) {
+          edges.push({
+            source: choice,
+            target: ids.id(edge.target.id),
+            scope: scopeOf(edge.source, edge.target),
+            event,
+            ...guardOf(transition),
+            actions: actionsOf(transition),
+            branch: { index: index + 1, else: !transition.guard },
+            graphEdges: [edge.id],
+          });
+        }
+      });
+    }
+
+    for (const child of node.children) {
+      collectEdges(child);
+    }
+  }
+  collectEdges(digraph);
+
+  return {
+    id: machine.id,
+    root,
+    edges,
+    choices,
+    classes: tagStyles.map(({ className, style }) => ({ name: className, style })),
+    options,
+  };
+}
+
+/**
+ * States of a model in document order, root excluded (invoked machines are models of their own)
+ */
+function modelStates(model: DiagramModel): DiagramState[] {
+  const states: DiagramState[] = [];
+  const collect = (state: DiagramState) => {
+    for (const child of state.children) {
+      states.push(child);
+      collect(child);
+    }
+  };
+  collect(model.root);
+  return states;
+}
+
+/**
+ * Draws a DiagramModel. The built-in renderers are MERMAID_RENDERER,
+ * MERMAID_NESTED_RENDERER, MERMAID_FLOWCHART_RENDERER and DOT_RENDERER.
+ */
+export interface DiagramRenderer<Output = string> {
+  render(model: DiagramModel): Output;
+}
+
+/**
+ * Build the model of a machine and draw it:
+ * `renderDiagram(machine, MERMAID_NESTED_RENDERER, options)` is `toMermaidNested(machine, options)`
+ */
+export function renderDiagram<Output>(
+  machine: AnyStateMachine,
+  renderer: DiagramRenderer<Output>,
+  options: MermaidOptions = {}
+): Output {
+  return renderer.render(buildDiagramModel(machine, options));
+}
+
+/** Where a model's statements go: the diagram itself or an expanded invoke block */
+interface RenderScope {
+  /** Collision-free id for a pseudo-state the renderer adds (fork, marker, ...) */
+  reserve(base: string): string;
+  /** Indentation level of the model's top-level statements */
+  indent: number;
+}
+
+/**
+ * Scope of a whole diagram. Added pseudo-states avoid every id of the model,
+ * including choices and the states of invoked machines.
+ */
+function diagramScope(model: DiagramModel): RenderScope {
+  const taken = new Set<string>();
+  const collect = (current: DiagramModel) => {
+    const visit = (state: DiagramState) => {
+      taken.add(state.id);
+      for (const invoked of state.invoked) {
+        taken.add(invoked.id);
+        if (invoked.model) collect(invoked.model);
+      }
+      state.children.forEach(visit);
+    };
+    visit(current.root);
+    current.choices.forEach(choice => taken.add(choice.id));
+  };
+  collect(model);
+
+  return {
+    reserve(base) {
+      let candidate = base;
+      for (let i = 2; taken.has(candidate); i++) {
+        candidate = `${base}_${i}`;
+      }
+      taken.add(candidate);
+      return candidate;
+    },
+    indent: 1,
+  };
+}
+
+/**
+ * options.expandInvokedMachines: the invoked machines of a state as
+ * `state "◉ src" as id { ... }` blocks (subgraphs and clusters in the other
+ * syntaxes) drawn by the same renderer. A machine that is already being drawn
+ * further out is a "↻ src" leaf instead.
+ */
+function invokedMachineBlocks(
+  state: DiagramState,
+  scope: RenderScope,
+  renderBody: (model: DiagramModel, scope: RenderScope) => string[],
+  indent: number,
+  syntax: DiagramSyntax = STATE_DIAGRAM_SYNTAX
+): Array<{ id: string; lines: string[] }> {
+  const pad = "    ".repeat(indent);
+  return state.invoked.map(({ id, name, model }) => {
+    const title = syntax.markup.label(name);
+    if (!model) {
+      return { id, lines: [`${pad}${syntax.leaf(id, `↻ ${title}`)}`] };
+    }
+    const [start, ...attributes] = syntax.blockStart(id, `◉ ${title}`);
+    return {
+      id,
+      lines: [
+        `${pad}${start}`,
+        ...attributes.map(line => `${pad}    ${line}`),
+        ...renderBody(model, { reserve: scope.reserve, indent: indent + 1 }),
+        `${pad}${syntax.blockEnd}`,
+      ],
+    };
+  });
+}
+
+/** Snapshot decorations threaded through the renderers (see toMermaidSnapshot) */
+interface RenderHighlight {
+  /** Rewrites transition labels (emphasis, step numbers, dimming) */
+  decorate: EdgeDecorator;
+  /** Statements appended after the diagram (classDef / class) */
+  trailer: (model: DiagramModel) => string[];
+}
+
+/**
+ * Convert XState v5 machine to Mermaid stateDiagram-v2 (flat)
+ */
+export function toMermaid(
+  machine: AnyStateMachine,
+  options: MermaidOptions = {}
+): string {
+  return renderDiagram(machine, MERMAID_RENDERER, options);
+}
+
+function renderFlat(model: DiagramModel, highlight?: RenderHighlight): string {
+  const lines = [
+    ...diagramHeader(model.options),
+    ...flatBody(model, diagramScope(model), highlight),
+  ];
+  lines.push(...styleLines(model).map(line => `    ${line}`));
+  if (highlight) {
+    lines.push(...highlight.trailer(model).map(line => `    ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Flat statements of one model: the whole diagram, or the body of an expanded invoke block
+ */
+function flatBody(
+  model: DiagramModel,
+  scope: RenderScope,
+  highlight?: RenderHighlight
+): string[] {
+  const { root } = model;
+  const base = "    ".repeat(scope.indent);
+  const lines: string[] = [];
+  const maxLen = model.options.maxDescriptionLength ?? 0;
+
+  // Flat mode has a single scope: each state's transitions follow the state,
+  // including the branches of its choices
+  const choices = new Map(model.choices.map(choice => [choice.id, choice]));
+  const edgesByState = new Map<string, DiagramEdge[]>();
+  for (const edge of model.edges) {
+    const owner = choices.get(edge.source)?.source ?? edge.source;
+    edgesByState.set(owner, [...(edgesByState.get(owner) ?? []), edge]);
+  }
+
+  function pushEdges(state: DiagramState): void {
+    for (const edge of edgesByState.get(state.id) ?? []) {
+      if (choices.has(edge.target)) {
+        lines.push(`${base}${STATE_DIAGRAM_SYNTAX.choice(edge.target)}`);
+      }
+      lines.push(`${base}${edgeStatement(edge, STATE_DIAGRAM_SYNTAX, highlight?.decorate)}`);
+    }
+  }
+
+  function visit(state: DiagramState): void {
+    const { id } = state;
+    lines.push(...leafStateLines(state, maxLen).map(line => `${base}${line}`));
+
+    // Flat mode has no regions: fork into every region so concurrency stays visible
+    if (state.type === "parallel") {
+      const fork = scope.reserve(`${id}_fork`);
+      lines.push(`${base}state ${fork} <<fork>>`);
+      lines.push(`${base}${id} --> ${fork}`);
+      for (const region of state.children) {
+        lines.push(`${base}${fork} --> ${region.id}`);
+      }
+    }
+
+    // Flat mode has no blocks to nest into: expanded invokes sit next to their state
+    for (const block of invokedMachineBlocks(state, scope, flatBody, scope.indent)) {
+      lines.push(...block.lines);
+      lines.push(`${base}${id} --> ${block.id}: <i>invoke</i>`);
+    }
+
+    pushEdges(state);
+    for (const child of state.children) {
+      visit(child);
+    }
+  }
+
+  if (root.initial) {
+    lines.push(`${base}[*] --> ${root.initial}`);
+  } else if (root.type === "parallel") {
+    // Parallel root: every top-level region is entered at once
+    for (const region of root.children) {
+      lines.push(`${base}[*] --> ${region.id}`);
+    }
+  }
+
+  pushEdges(root);
+  for (const child of root.children) {
+    visit(child);
+  }
+
+  return lines;
+}
+
+/** Renders a model as a flat Mermaid stateDiagram-v2 (toMermaid) */
+export const MERMAID_RENDERER: DiagramRenderer = { render: model => renderFlat(model) };
+
+/**
+ * Convert XState v5 machine to Mermaid with nested compound states
+ */
+export function toMermaidNested(
+  machine: AnyStateMachine,
+  options: MermaidOptions = {}
+): string {
+  return renderDiagram(machine, MERMAID_NESTED_RENDERER, options);
+}
+
+function renderNested(model: DiagramModel, highlight?: RenderHighlight): string {
+  const lines = [
+    ...diagramHeader(model.options),
+    ...nestedBody(model, diagramScope(model), highlight),
+  ];
+  lines.push(...styleLines(model).map(line => `    ${line}`));
+  if (highlight) {
+    lines.push(...highlight.trailer(model).map(line => `    ${line}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Nested statements of one model: the whole diagram, or the body of an expanded invoke block
+ */
+function nestedBody(
+  model: DiagramModel,
+  scope: RenderScope,
+  highlight?: RenderHighlight
+): string[] {
+  const { root } = model;
+  const base = "    ".repeat(scope.indent);
+  const lines: string[] = [];
+  const maxLen = model.options.maxDescriptionLength ?? 0;
+
+  // Edges grouped by the block they render in; every edge lands in exactly one.
+  // A choice is declared in front of the edge entering it.
+  const choices = new Set(model.choices.map(choice => choice.id));
+  const edgesByScope = new Map<string, string[]>();
+  for (const edge of model.edges) {
+    const scoped = edgesByScope.get(edge.scope) ?? [];
+    if (choices.has(edge.target)) {
+      scoped.push(STATE_DIAGRAM_SYNTAX.choice(edge.target));
+    }
+    scoped.push(edgeStatement(edge, STATE_DIAGRAM_SYNTAX, highlight?.decorate));
+    edgesByScope.set(edge.scope, scoped);
+  }
+
+  function processNode(state: DiagramState, indent: number): void {
+    const pad = "    ".repeat(indent);
+    const { id, name } = state;
+    // Expanded invokes turn the state into a block, drawn like a compound state
+    const invokeBlocks = invokedMachineBlocks(state, scope, nestedBody, indent + 1);
+
+    if (state.children.length === 0 && invokeBlocks.length === 0) {
+      lines.push(...leafStateLines(state, maxLen).map(line => `${pad}${line}`));
+      return;
+    }
+
+    // Aliased composite: `state "display" as id {`
+    lines.push(id === name || !name ? `${pad}state ${id} {` : `${pad}state "${escapeMermaidLabel(name)}" as ${id} {`);
+    if (state.direction) {
+      lines.push(`${pad}    direction ${state.direction}`);
+    }
+
+    if (state.initial) {
+      lines.push(`${pad}    [*] --> ${state.initial}`);
+    }
+
+    if (state.type === "parallel") {
+      // Each region is its own section, separated by Mermaid's concurrency divider.
+      // Compound regions bring their own [*]; atomic regions need one here.
+      state.children.forEach((child, index) => {
+        if (index > 0) {
+          lines.push(`${pad}    --`);
+        }
+        if (child.children.length === 0) {
+          lines.push(`${pad}    [*] --> ${child.id}`);
+        }
+        processNode(child, indent + 1);
+      });
+    } else {
+      for (const child of state.children) {
+        processNode(child, indent + 1);
+      }
+    }
+
+    // An invoked machine runs alongside the state: its own section in parallel states
+    for (const block of invokeBlocks) {
+      if (state.type === "parallel") {
+        lines.push(`${pad}    --`);
+      }
+      lines.push(...block.lines);
+    }
+
+    // LCA-scoped edge rendering: edges whose source and target both live inside this state
+    for (const line of edgesByScope.get(id) ?? []) {
+      lines.push(`${pad}    ${line}`);
+    }
+
+    lines.push(`${pad}}`);
+
+    // A block has no label: its annotations go into a note. Only the description is
+    // shortened, the note has no name to keep.
+    const desc = state.description && maxLen > 0 && state.description.length > maxLen
+      ? `${state.description.substring(0, maxLen)}...`
+      : state.description;
+    const sections = stateLabelSections(state, desc ? MERMAID_MARKUP.text(desc) : undefined, MERMAID_MARKUP);
+    if (sections[0] === "────────") {
+      sections.shift();
+    }
+    if (sections.length > 0) {
+      lines.push(`${pad}note right of ${id}: ${sections.join(MERMAID_MARKUP.lineBreak)}`);
+    }
+  }
+
+  if (root.type === "parallel") {
+    // Mermaid only takes `--` dividers inside a block: a parallel machine is drawn
+    // as a block of its own, entered from [*], with its regions as sections
+    lines.push(`${base}[*] --> ${root.id}`);
+    processNode(root, scope.indent);
+    return lines;
+  }
+
+  if (root.initial) {
+    lines.push(`${base}[*] --> ${root.initial}`);
+  }
+
+  for (const child of root.children) {
+    processNode(child, scope.indent);
+  }
+
+  // Top-level edges: scoped to the machine root (including transitions between
+  // states of different top-level compounds, drawn between their nested ids)
+  for (const line of edgesByScope.get(root.id) ?? []) {
+    lines.push(`${base}${line}`);
+  }
+
+  return lines;
+}
+
+/** Renders a model as a Mermaid stateDiagram-v2 with compound states as blocks (toMermaidNested) */
+export const MERMAID_NESTED_RENDERER: DiagramRenderer = { render: model => renderNested(model) };
+
+/**
+ * Convert XState v5 machine to a Mermaid flowchart.
+ *
+ * Compound and parallel states become subgraphs; regions of a parallel state
+ * get a dashed border. Node shapes follow the state type: rounded for atomic
+ * states, double circle for final states, hexagon for guarded choices, circle
+ * for history states and a small filled circle for the initial marker.
+ */
+export function toMermaidFlowchart(
+  machine: AnyStateMachine,
+  options: MermaidOptions = {}
+): string {
+  return renderDiagram(machine, MERMAID_FLOWCHART_RENDERER, options);
+}
+
+function renderFlowchart(model: DiagramModel): string {
+  const lines = [
+    ...formatFrontmatter(model.options),
+    `flowchart ${model.options.direction ?? "TB"}`,
+    ...flowchartBody(model, diagramScope(model)),
+  ];
+  lines.push(...styleLines(model).map(line => `    ${line}`));
+  return lines.join("\n");
+}
+
+/**
+ * Flowchart statements of one model: the whole diagram, or the body of an expanded invoke subgraph
+ */
+function flowchartBody(model: DiagramModel, scope: RenderScope): string[] {
+  const { root } = model;
+  const base = "    ".repeat(scope.indent);
+  const lines: string[] = [];
+  const maxLen = model.options.maxDescriptionLength ?? 0;
+
+  // A flowchart node belongs to the subgraph it is first mentioned in, so every
+  // edge is written after the subgraphs are closed. Only choices are declared
+  // inside, in the block of their source state.
+  const choicesByScope = new Map<string, string[]>();
+  for (const choice of model.choices) {
+    choicesByScope.set(choice.scope, [...(choicesByScope.get(choice.scope) ?? []), FLOWCHART_SYNTAX.choice(choice.id)]);
+  }
+  const initialEdges: string[] = [];
+  const edges = model.edges.map(edge => edgeStatement(edge, FLOWCHART_SYNTAX));
+  const regionStyles: string[] = [];
+
+  // Initial marker of a block (the [*] of state diagrams), entering every target at once
+  function initialLines(state: DiagramState, pad: string): string[] {
+    const targets = state.initial
+      ? [state.initial]
+      : state.type === "parallel"
+        // Compound regions bring their own marker; the root has nothing above it
+        ? state.children.filter(child => state === root || child.children.length === 0).map(child => child.id)
+        : [];
+    if (targets.length === 0) return [];
+    const start = scope.reserve(`${state.id}_start`);
+    initialEdges.push(...targets.map(target => `${start} --> ${target}`));
+    return [`${pad}${start}@{ shape: sm-circ }`];
+  }
+
+  function processNode(state: DiagramState, indent: number): void {
+    const pad = "    ".repeat(indent);
+    const { id } = state;
+    // Expanded invokes turn the state into a subgraph, drawn like a compound state
+    const invokeBlocks = invokedMachineBlocks(state, scope, flowchartBody, indent + 1, FLOWCHART_SYNTAX);
+    // Mermaid rejects an empty label, fall back to the id
+    const label = (hasLabelContent(state)
+      ? buildStateLabel(state, maxLen)
+      : escapeMermaidLabel(state.name)) || id;
+
+    if (state.region) {
+      regionStyles.push(`style ${id} stroke-dasharray:5 5`);
+    }
+
+    if (state.history) {
+      lines.push(`${pad}${id}(("${state.history.history === "deep" ? "H*" : "H"}"))`);
+      for (const target of state.history.targets) {
+        edges.push(`${id} --> ${target}`);
+      }
+    } else if (state.children.length > 0 || invokeBlocks.length > 0) {
+      lines.push(`${pad}subgraph ${id} ["${label}"]`);
+      if (state.direction) {
+        lines.push(`${pad}    direction ${state.direction}`);
+      }
+      lines.push(...initialLines(state, `${pad}    `));
+      for (const child of state.children) {
+        processNode(child, indent + 1);
+      }
+      for (const block of invokeBlocks) {
+        lines.push(...block.lines);
+      }
+      for (const line of choicesByScope.get(id) ?? []) {
+        lines.push(`${pad}    ${line}`);
+      }
+      lines.push(`${pad}end`);
+    } else if (state.type === "final") {
+      lines.push(`${pad}${id}((("${label}")))`);
+    } else {
+      lines.push(`${pad}${FLOWCHART_SYNTAX.leaf(id, label)}`);
+    }
+  }
+
+  lines.push(...initialLines(root, base));
+  for (const child of root.children) {
+    processNode(child, scope.indent);
+  }
+  for (const line of [...(choicesByScope.get(root.id) ?? []), ...initialEdges, ...edges, ...regionStyles]) {
+    lines.push(`${base}${line}`);
+  }
+
+  return lines;
+}
+
+/** Renders a model as a Mermaid flowchart (toMermaidFlowchart) */
+export const MERMAID_FLOWCHART_RENDERER: DiagramRenderer = { render: renderFlowchart };
+
+/**
+ * Graphviz keywords, which are case-insensitive: quoted when a state id matches one
+ */
+const DOT_KEYWORDS = new Set(["node", "edge", "graph", "digraph", "subgraph", "strict"]);
+
+function dotId(id: string): string {
+  return DOT_KEYWORDS.has(id.toLowerCase()) ? `"${id}"` : id;
+}
+
+/**
+ * Escape text for a Graphviz HTML-like label (`label=<...>`)
+ */
+function escapeDotLabel(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r?\n/g, "<BR/>");
+}
+
+const DOT_MARKUP: LabelMarkup = {
+  bold: text => `<B>${text}</B>`,
+  italic: text => `<I>${text}</I>`,
+  sup: text => `<SUP>${text}</SUP>`,
+  lineBreak: "<BR/>",
+  label: escapeDotLabel,
+  text: text => escapeDotLabel(text.replace(/^INV:/i, "Invariant:")),
+};
+
+/**
+ * DOT statement syntax. Edges to and from a compound state attach to its
+ * cluster border (lhead / ltail), unless the other end is inside the cluster.
+ *
+ * @param clusters Node id of each state drawn as a cluster -> node ids drawn inside it
+ */
+function dotSyntax(clusters: Map<string, Set<string>>): DiagramSyntax {
+  return {
+    transition(from, to, label) {
+      const attributes = label ? [`label=<${label}>`] : [];
+      if (from !== to && clusters.has(to) && !clusters.get(to)?.has(from)) {
+        attributes.push(`lhead=cluster_${to}`);
+      }
+      if (from !== to && clusters.has(from) && !clusters.get(from)?.has(to)) {
+        attributes.push(`ltail=cluster_${from}`);
+      }
+      return `${dotId(from)} -> ${dotId(to)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`;
+    },
+    choice: id => `${dotId(id)} [shape=diamond, label="", width=0.3, height=0.3];`,
+    blockStart: (id, title) => [`subgraph cluster_${id} {`, `label=<${title}>;`, `style="rounded,dashed";`],
+    blockEnd: "}",
+    leaf: (id, title) => `${dotId(id)} [label=<${title}>];`,
+    markup: DOT_MARKUP,
+  };
+}
+
+/**
+ * Graphviz attributes for a Mermaid classDef style: fill, stroke, color,
+ * stroke-width and stroke-dasharray are translated, other properties dropped
+ */
+function dotStyleAttributes(style: string, styles: Set<string>, attributes: Map<string, string>): void {
+  // Commas inside rgb(...) do not separate declarations
+  for (const declaration of style.split(/,(?![^(]*\))/)) {
+    const separator = declaration.indexOf(":");
+    const key = declaration.substring(0, separator).trim();
+    const value = declaration.substring(separator + 1).trim();
+    if (separator === -1 || !value) continue;
+    if (key === "fill") {
+      styles.add("filled");
+      attributes.set("fillcolor", JSON.stringify(value));
+    } else if (key === "stroke") {
+      attributes.set("color", JSON.stringify(value));
+    } else if (key === "color") {
+      attributes.set("fontcolor", JSON.stringify(value));
+    } else if (key === "stroke-width") {
+      attributes.set("penwidth", String(parseFloat(value) || 1));
+    } else if (key === "stroke-dasharray") {
+      styles.add("dashed");
+    }
+  }
+}
+
+/**
+ * Convert XState v5 machine to Graphviz DOT.
+ *
+ * Compound and parallel states become clusters (regions of a parallel state
+ * are dashed), labelled with the same sections as the Mermaid state labels.
+ * Initial and final markers are points, one pair per cluster.
+ * MermaidOptions flags apply, except the Mermaid-only theme, mermaidConfig and
+ * stateDirections; tagStyles are translated to Graphviz attributes.
+ */
+export function toDot(
+  machine: AnyStateMachine,
+  options: MermaidOptions = {}
+): string {
+  return renderDiagram(machine, DOT_RENDERER, options);
+}
+
+function renderDot(model: DiagramModel): string {
+  const { options } = model;
+  const lines = [`digraph ${JSON.stringify(model.id)} {`, "    compound=true;"];
+  if (options.direction) {
+    lines.push(`    rankdir=${options.direction};`);
+  }
+  if (options.title) {
+    lines.push(`    label=<${escapeDotLabel(options.title)}>;`, "    labelloc=t;");
+  }
+  lines.push(
+    `    node [shape=box, style=rounded, fontname="Helvetica", fontsize=11];`,
+    `    edge [fontname="Helvetica", fontsize=10];`,
+    ...dotBody(model, diagramScope(model)),
+    "}"
+  );
+  return lines.join("\n");
+}
+
+/**
+ * DOT statements of one model: the whole graph, or the body of an expanded invoke cluster
+ */
+function dotBody(model: DiagramModel, scope: RenderScope): string[] {
+  const { root } = model;
+  const base = "    ".repeat(scope.indent);
+  const lines: string[] = [];
+  const maxLen = model.options.maxDescriptionLength ?? 0;
+  const classStyles = new Map(model.classes.map(({ name, style }) => [name, style]));
+
+  // Which states become clusters is known before any edge is written:
+  // compound states, and states whose invoked machines are expanded
+  const clusters = new Map<string, Set<string>>();
+  const syntax = dotSyntax(clusters);
+
+  function collectClusters(state: DiagramState): Set<string> {
+    const inside = new Set<string>();
+    for (const child of state.children) {
+      inside.add(child.id);
+      for (const id of collectClusters(child)) {
+        inside.add(id);
+      }
+    }
+    if (state !== root && (state.children.length > 0 || state.invoked.length > 0)) {
+      clusters.set(state.id, inside);
+    }
+    return inside;
+  }
+  collectClusters(root);
+
+  // Edges are written after the clusters; choices are declared in the cluster of their source
+  const choicesByScope = new Map<string, string[]>();
+  for (const choice of model.choices) {
+    choicesByScope.set(choice.scope, [...(choicesByScope.get(choice.scope) ?? []), syntax.choice(choice.id)]);
+  }
+  const markerEdges: string[] = [];
+  const edges = model.edges.map(edge => edgeStatement(edge, syntax));
+
+  // Initial marker of a cluster, entering every target at once, and the marker final states lead to
+  function markerLines(state: DiagramState, pad: string): string[] {
+    const result: string[] = [];
+    const targets = state.initial
+      ? [state.initial]
+      : state.type === "parallel"
+        // Compound regions bring their own marker; the root has nothing above it
+        ? state.children.filter(child => state === root || child.children.length === 0).map(child => child.id)
+        : [];
+    if (targets.length > 0) {
+      const start = scope.reserve(`${state.id}_start`);
+      result.push(`${pad}${start} [shape=point, width=0.15];`);
+      markerEdges.push(...targets.map(target => syntax.transition(start, target, "")));
+    }
+    const finals = state.children.filter(child => child.type === "final");
+    if (finals.length > 0) {
+      const end = scope.reserve(`${state.id}_end`);
+      result.push(`${pad}${end} [shape=point, width=0.15, peripheries=2];`);
+      markerEdges.push(...finals.map(final => syntax.transition(final.id, end, "")));
+    }
+    return result;
+  }
+
+  // Node or cluster attributes: tag styles, dashed border for parallel regions
+  function styleAttributes(state: DiagramState): { styles: Set<string>; attributes: Map<string, string> } {
+    const styles = new Set(["rounded"]);
+    const attributes = new Map<string, string>();
+    for (const className of state.classes) {
+      dotStyleAttributes(classStyles.get(className) ?? "", styles, attributes);
+    }
+    if (state.region) {
+      styles.add("dashed");
+    }
+    return { styles, attributes };
+  }
+
+  function processNode(state: DiagramState, indent: number): void {
+    const pad = "    ".repeat(indent);
+    const { id } = state;
+    // Truncate the description only: a cut HTML-like label would not parse
+    const rawDesc = state.description;
+    const desc = rawDesc
+      ? DOT_MARKUP.text(maxLen > 0 && rawDesc.length > maxLen ? `${rawDesc.substring(0, maxLen)}...` : rawDesc)
+      : undefined;
+    const label = (hasLabelContent(state)
+      ? buildStateLabel(state, 0, DOT_MARKUP, desc)
+      : escapeDotLabel(state.name)) || id;
+    const { styles, attributes } = styleAttributes(state);
+
+    if (state.history) {
+      lines.push(`${pad}${dotId(id)} [shape=circle, label="${state.history.history === "deep" ? "H*" : "H"}"];`);
+      for (const target of state.history.targets) {
+        edges.push(syntax.transition(id, target, ""));
+      }
+    } else if (clusters.has(id)) {
+      lines.push(`${pad}subgraph cluster_${id} {`);
+      lines.push(`${pad}    label=<${label}>;`);
+      lines.push(`${pad}    style="${[...styles].join(",")}";`);
+      for (const [key, value] of attributes) {
+        lines.push(`${pad}    ${key}=${value};`);
+      }
+      // Invisible anchor: edges to the state attach to the cluster border through it
+      lines.push(`${pad}    ${dotId(id)} [shape=point, style=invis, width=0, height=0, label=""];`);
+      lines.push(...markerLines(state, `${pad}    `));
+      for (const child of state.children) {
+        processNode(child, indent + 1);
+      }
+      for (const block of invokedMachineBlocks(state, scope, dotBody, indent + 1, syntax)) {
+        lines.push(...block.lines);
+      }
+      for (const line of choicesByScope.get(id) ?? []) {
+        lines.push(`${pad}    ${line}`);
+      }
+      lines.push(`${pad}}`);
+    } else {
+      const extra = [
+        ...(styles.size > 1 ? [`style="${[...styles].join(",")}"`] : []),
+        ...[...attributes].map(([key, value]) => `${key}=${value}`),
+      ];
+      lines.push(`${pad}${dotId(id)} [${[`label=<${label}>`, ...extra].join(", ")}];`);
+    }
+  }
+
+  lines.push(...markerLines(root, base));
+  for (const child of root.children) {
+    processNode(child, scope.indent);
+  }
+  for (const line of [...(choicesByScope.get(root.id) ?? []), ...markerEdges, ...edges]) {
+    lines.push(`${base}${line}`);
+  }
+
+  return lines;
+}
+
+/** Renders a model as Graphviz DOT (toDot) */
+export const DOT_RENDERER: DiagramRenderer = { render: renderDot };
+
+/** Result of toSCXML */
+export interface SCXMLResult {
+  /** The SCXML document */
+  scxml: string;
+  /** Features SCXML cannot express, with the states they occur in. They are left out of the document. */
+  warnings: string[];
+}
+
+/** Namespace of the named action placeholders toSCXML writes: `<xstate:action type="notify"/>` */
+export const XSTATE_SCXML_NAMESPACE = "urn:xstate:actions";
+
+/**
+ * Escape text for an XML attribute value or text node
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * SCXML event name for an XState event type. Done events have SCXML
+ * equivalents; delayed events keep their XState name (sent with `<send delay>`).
+ */
+function toSCXMLEvent(eventType: string): string {
+  if (eventType.startsWith("xstate.done.state.")) {
+    return eventType.substring("xstate.".length);
+  }
+  if (eventType.startsWith("xstate.done.actor.")) {
+    return `done.invoke.${eventType.substring("xstate.done.actor.".length)}`;
+  }
+  // `event` is a space-separated list of descriptors
+  return eventType.replace(/\s+/g, "_");
+}
+
+/**
+ * Convert an XState v5 machine to W3C SCXML.
+ *
+ * States, transitions (`event`, `cond`, `target`), history, entry/exit actions,
+ * invokes and delayed events (`<send delay>` / `<cancel>`) are exported. State
+ * ids are the XState ids. Guards become `cond` expressions over guard names
+ * (`not` / `and` / `or` / `stateIn` as `!`, `&&`, `||`, `In()`). Named actions
+ * become `<xstate:action type="..."/>` placeholders, and `raise` becomes `<raise>`.
+ * Everything else (assign, inline functions, tags, meta, ...) is reported in
+ * `warnings`.
+ */
+export function toSCXML(machine: AnyStateMachine): SCXMLResult {
+  type SCXMLStateNode = {
+    id: string;
+    key: string;
+    type: string;
+    parent?: SCXMLStateNode;
+    states: Record<string, SCXMLStateNode>;
+    config: { initial?: unknown };
+    entry: unknown[];
+    exit: unknown[];
+    transitions: Map<string, SCXMLTransition[]>;
+    always?: SCXMLTransition[];
+    invoke: Array<{ id: string; src: unknown; input?: unknown }>;
+    tags: string[];
+    meta?: Record<string, unknown>;
+    description?: string;
+    output?: unknown;
+    history?: "shallow" | "deep" | false;
+  };
+  type SCXMLTransition = {
+    eventType: string;
+    guard?: unknown;
+    actions: unknown[];
+    target?: SCXMLStateNode[];
+    reenter: boolean;
+  };
+
+  const problems = new Map<string, Set<string>>();
+  const warn = (problem: string, where: string) => {
+    problems.set(problem, (problems.get(problem) ?? new Set()).add(where));
+  };
+
+  // XML ids are NCNames: XState ids with other characters are rewritten
+  const taken = new Set<string>();
+  const xmlIds = new Map<string, string>();
+  const xmlId = (id: string): string => {
+    let result = xmlIds.get(id);
+    if (result) return result;
+    result = /^[A-Za-z_][\w.-]*$/.test(id) ? id : `_${id}`.replace(/[^\w.-]/g, "_");
+    if (result !== id) {
+      warn("State ids rewritten as XML ids", `${id} -> ${result}`);
+    }
+    for (let i = 2; taken.has(result); i++) {
+      result = `${result}_${i}`;
+    }
+    taken.add(result);
+    xmlIds.set(id, result);
+    return result;
+  };
+
+  function guardExpression(guard: unknown, where: string): string | undefined {
+    if (guard === undefined || guard === null) return undefined;
+    if (typeof guard === "string") return guard;
+    if (typeof guard === "object" && typeof (guard as { type?: unknown }).type === "string") {
+      if ((guard as { params?: unknown }).params !== undefined) {
+        warn("Guard params are not exported", where);
+      }
+      return (guard as { type: string }).type;
+    }
+    if (typeof guard === "function") {
+      const stateValue = (guard as { stateValue?: unknown }).stateValue;
+      if (typeof stateValue === "string" && stateValue.startsWith("#")) {
+        return `In('${xmlId(stateValue.substring(1))}')`;
+      }
+      const guards = (guard as { guards?: unknown[] }).guards;
+      const combinator = { not: " && ", and: " && ", or: " || " }[guard.name];
+      if (guards && combinator) {
+        const parts = guards.map(part => guardExpression(part, where));
+        if (parts.every((part): part is string => part !== undefined)) {
+          const expression = parts.map(part => (parts.length > 1 && part.includes(" ") ? `(${part})` : part)).join(combinator);
+          return guard.name === "not" ? `!${/^[\w.]+$/.test(expression) ? expression : `(${expression})`}` : expression;
+        }
+        return undefined;
+      }
+    }
+    warn("Inline guard functions and stateIn with a state value are not exported (transition left unconditional)", where);
+    return undefined;
+  }
+
+  function actionLines(actions: unknown[], where: string, pad: string): string[] {
+    const lines: string[] = [];
+    for (const action of actions) {
+      const type = getImplementationName(action);
+      if (type === "xstate.raise") {
+        const { event, id, delay } = action as { event?: unknown; id?: unknown; delay?: unknown };
+        const eventType = (event as { type?: unknown } | undefined)?.type;
+        if (typeof event !== "object" || typeof eventType !== "string") {
+          warn("raise with a dynamic event is not exported", where);
+        } else if (delay === undefined) {
+          lines.push(`${pad}<raise event="${escapeXml(toSCXMLEvent(eventType))}"/>`);
+        } else {
+          const idAttribute = typeof id === "string" ? ` id="${escapeXml(id)}"` : "";
+          if (typeof delay === "number") {
+            lines.push(`${pad}<send event="${escapeXml(toSCXMLEvent(eventType))}"${idAttribute} delay="${delay}ms"/>`);
+          } else if (typeof delay === "string") {
+            // Named delay from setup({ delays }): an expression the consumer has to provide
+            warn("Named delays are exported as delayexpr", where);
+            lines.push(`${pad}<send event="${escapeXml(toSCXMLEvent(eventType))}"${idAttribute} delayexpr="${escapeXml(delay)}"/>`);
+          } else {
+            warn("Dynamic delays are not exported", where);
+          }
+        }
+      } else if (type === "xstate.cancel") {
+        const sendId = (action as { sendId?: unknown }).sendId;
+        if (typeof sendId === "string") {
+          lines.push(`${pad}<cancel sendid="${escapeXml(sendId)}"/>`);
+        } else {
+          warn("cancel with a dynamic send id is not exported", where);
+        }
+      } else if (type?.startsWith("xstate.")) {
+        warn(`Built-in action ${type} is not exported`, where);
+      } else if (type) {
+        if (typeof action === "object" && (action as { params?: unknown }).params !== undefined) {
+          warn("Action params are not exported", where);
+        }
+        lines.push(`${pad}<xstate:action type="${escapeXml(type)}"/>`);
+      } else {
+        warn("Inline action functions are not exported", where);
+      }
+    }
+    return lines;
+  }
+
+  function transitionLines(node: SCXMLStateNode, transition: SCXMLTransition, pad: string): string[] {
+    const where = `${node.id} (${transition.eventType || "always"})`;
+    const attributes: string[] = [];
+    if (transition.eventType) {
+      if (transition.eventType.startsWith("xstate.") && !/^xstate\.(done\.(state|actor)|after)\./.test(transition.eventType)) {
+        warn("XState event has no SCXML equivalent, exported by its XState name", where);
+      }
+      if (/\s/.test(transition.eventType)) {
+        warn("Whitespace in event names replaced by _", where);
+      }
+      attributes.push(`event="${escapeXml(toSCXMLEvent(transition.eventType))}"`);
+    }
+    const cond = guardExpression(transition.guard, where);
+    if (cond) {
+      attributes.push(`cond="${escapeXml(cond)}"`);
+    }
+    const targets = transition.target ?? [];
+    if (targets.length > 0) {
+      attributes.push(`target="${targets.map(target => xmlId(target.id)).join(" ")}"`);
+      // XState only leaves the source for a descendant target with reenter: true
+      const isDescendant = (target: SCXMLStateNode) => {
+        for (let current = target.parent; current; current = current.parent) {
+          if (current === node) return true;
+        }
+        return false;
+      };
+      if (!transition.reenter && targets.every(isDescendant)) {
+        attributes.push(`type="internal"`);
+      }
+    }
+    const body = actionLines(transition.actions, where, `${pad}  `);
+    const open = `${pad}<transition${attributes.map(attribute => ` ${attribute}`).join("")}`;
+    return body.length > 0 ? [`${open}>`, ...body, `${pad}</transition>`] : [`${open}/>`];
+  }
+
+  function stateLines(node: SCXMLStateNode, pad: string, element?: string): string[] {
+    const id = xmlId(node.id);
+    if (node.type === "history") {
+      const history = node.history === "deep" ? "deep" : "shallow";
+      // Default targets: explicit target, else the parent's initial state (see getHistory)
+      const targets = getHistory({ stateNode: node } as unknown as DirectedGraphNode)?.targets ?? [];
+      return [
+        `${pad}<history id="${id}" type="${history}">`,
+        ...(targets.length > 0 ? [`${pad}  <transition target="${targets.map(xmlId).join(" ")}"/>`] : []),
+        `${pad}</history>`,
+      ];
+    }
+
+    if (node.tags.length > 0) warn("Tags are not exported", node.id);
+    if (node.meta && Object.keys(node.meta).length > 0) warn("Meta is not exported", node.id);
+    if (node.description) warn("Descriptions are not exported", node.id);
+
+    const tag = element ?? (node.type === "parallel" ? "parallel" : node.type === "final" ? "final" : "state");
+    const children = Object.values(node.states);
+    const initial = node.type === "compound" ? getInitialStateId({ stateNode: node } as unknown as DirectedGraphNode) : undefined;
+    const body: string[] = [];
+    const inner = `${pad}  `;
+
+    const entry = actionLines(node.entry, `${node.id} (entry)`, `${inner}  `);
+    if (entry.length > 0) body.push(`${inner}<onentry>`, ...entry, `${inner}</onentry>`);
+    const exit = actionLines(node.exit, `${node.id} (exit)`, `${inner}  `);
+    if (exit.length > 0) body.push(`${inner}<onexit>`, ...exit, `${inner}</onexit>`);
+
+    for (const transitions of node.transitions.values()) {
+      for (const transition of transitions) {
+        body.push(...transitionLines(node, transition, inner));
+      }
+    }
+    for (const transition of node.always ?? []) {
+      body.push(...transitionLines(node, transition, inner));
+    }
+
+    for (const invoke of node.invoke) {
+      const src = typeof invoke.src === "string" ? invoke.src : invoke.id;
+      if (src.startsWith("xstate.invoke.")) warn("Inline actor logic is exported by its generated src name", node.id);
+      if (invoke.input !== undefined) warn("Invoke input is not exported", node.id);
+      body.push(`${inner}<invoke id="${escapeXml(invoke.id)}" src="${escapeXml(src)}"/>`);
+    }
+
+    if (node.type === "final" && node.output !== undefined) {
+      if (typeof node.output === "function") {
+        warn("Output functions are not exported", node.id);
+      } else {
+        body.push(`${inner}<donedata>`, `${inner}  <content expr="${escapeXml(JSON.stringify(node.output))}"/>`, `${inner}</donedata>`);
+      }
+    }
+
+    for (const child of children) {
+      body.push(...stateLines(child, inner));
+    }
+
+    const initialAttribute = initial ? ` initial="${xmlId(initial)}"` : "";
+    const open = `${pad}<${tag} id="${id}"${initialAttribute}`;
+    return body.length > 0 ? [`${open}>`, ...body, `${pad}</${tag}>`] : [`${open}/>`];
+  }
+
+  const root = machine.root as unknown as SCXMLStateNode;
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  // <scxml> cannot hold transitions, actions or invokes, nor be parallel:
+  // such a root is kept as a top-level state of its own
+  const keepRoot = root.type === "parallel" || root.entry.length > 0 || root.exit.length > 0 ||
+    root.transitions.size > 0 || (root.always ?? []).length > 0 || root.invoke.length > 0;
+  const rootInitial = keepRoot ? root.id : getInitialStateId({ stateNode: root } as unknown as DirectedGraphNode);
+  lines.push(
+    `<scxml xmlns="http://www.w3.org/2005/07/scxml" xmlns:xstate="${XSTATE_SCXML_NAMESPACE}" version="1.0" datamodel="ecmascript" name="${escapeXml(machine.id)}"${rootInitial ? ` initial="${xmlId(rootInitial)}"` : ""}>`
+  );
+
+  const context = (machine.config as { context?: unknown }).context;
+  if (typeof context === "function") {
+    warn("Context functions are not exported", machine.id);
+  } else if (context && typeof context === "object" && Object.keys(context).length > 0) {
+    lines.push("  <datamodel>");
+    for (const [key, value] of Object.entries(context)) {
+      lines.push(`    <data id="${escapeXml(key)}" expr="${escapeXml(JSON.stringify(value) ?? "undefined")}"/>`);
+    }
+    lines.push("  </datamodel>");
+  }
+
+  if (keepRoot) {
+    lines.push(...stateLines(root, "  ", root.type === "parallel" ? "parallel" : "state"));
+  } else {
+    for (const child of Object.values(root.states)) {
+      lines.push(...stateLines(child, "  "));
+    }
+  }
+  lines.push("</scxml>");
+
+  const warnings = [...problems].map(([problem, where]) => `${problem}: ${[...where].join(", ")}`);
+  return { scxml: lines.join("\n"), warnings };
+}
+
+/** A transition of a config parsed by fromMermaid */
+export interface MermaidTransitionConfig {
+  /** Sibling key, `.child` path below the source, or `#machine.path` of the target state */
+  target?: string;
+  guard?: string;
+  actions?: string[];
+}
+
+/** A state of a config parsed by fromMermaid, shaped like an XState state config */
+export interface MermaidStateConfig {
+  type?: "parallel" | "final" | "history";
+  /** History depth (history states) */
+  history?: "shallow" | "deep";
+  /** Default target (history states) */
+  target?: string;
+  initial?: string;
+  description?: string;
+  tags?: string[];
+  meta?: Record<string, string>;
+  entry?: string[];
+  exit?: string[];
+  invoke?: Array<{ src: string; id?: string }>;
+  on?: Record<string, MermaidTransitionConfig[]>;
+  after?: Record<number, MermaidTransitionConfig[]>;
+  always?: MermaidTransitionConfig[];
+  onDone?: MermaidTransitionConfig[];
+  states?: Record<string, MermaidStateConfig>;
+}
+
+/** Machine config parsed by fromMermaid: pass it to createMachine, or print it with toMachineSource */
+export interface MermaidMachineConfig extends MermaidStateConfig {
+  id: string;
+}
+
+export interface FromMermaidOptions {
+  /**
+   * Machine id. The diagrams of this library draw machine-level transitions
+   * from a node with the machine id; any other undeclared node is a state.
+   * Default: "machine"
+   */
+  id?: string;
+}
+
+/** Mermaid entity codes back to the characters escapeMermaidLabel replaced */
+const MERMAID_ENTITY_CHARS: Record<string, string> = Object.fromEntries(
+  Object.entries(MERMAID_ENTITIES).map(([char, code]) => [code, char])
+);
+
+/**
+ * Undo escapeMermaidLabel: entity codes, ratio characters and line breaks
+ */
+function unescapeMermaidLabel(text: string): string {
+  return text
+    .replace(/<br\/>/g, "\n")
+    .replace(/#\w+;/g, code =>
+      MERMAID_ENTITY_CHARS[code] ?? (/^#\d+;$/.test(code) ? String.fromCharCode(Number(code.slice(1, -1))) : code))
+    .replace(/∶/g, ":");
+}
+
+/**
+ * Undo escapeMermaidText, folding the expanded abbreviation back
+ */
+function unescapeMermaidText(text: string): string {
+  return unescapeMermaidLabel(text).replace(/^Invariant:/, "INV:");
+}
+
+/**
+ * State key behind a lowercased label name. Node ids keep the key's case:
+ * the id itself ("Idle"), or the end of a path id ("cart_Idle").
+ */
+function labelStateKey(id: string, name: string): string {
+  // fullyQualifiedNames labels carry the dotted path
+  const short = name.split(".").pop() ?? name;
+  const suffix = id.slice(-short.length);
+  if (suffix.toLowerCase() === short.toLowerCase() && (id.length === short.length || id[id.length - short.length - 1] === "_")) {
+    return suffix;
+  }
+  return short;
+}
+
+/** A parsed transition label: trigger, guard and actions */
+interface MermaidTransitionLabel {
+  trigger: { kind: "on"; event: string } | { kind: "after"; delay: number } | { kind: "always" } | { kind: "onDone" };
+  guard?: string;
+  actions: string[];
+}
+
+/**
+ * Parse a transition label as transitionLabel writes it:
+ * `<b>EVENT</b> IF guard<br/><b>[ϟ action]</b>`, `<i>after</i> 5000ms`,
+ * `<i>always</i>` or `<i>done</i>`. Snapshot and path decorations are dropped;
+ * unlabelled transitions are eventless and plain text is an event name.
+ */
+function parseTransitionLabel(label: string): MermaidTransitionLabel {
+  const plain = label
+    .replace(/<\/?u>/g, "")
+    .replace(/^<span style='[^']*'>(.*)<\/span>$/, "$1")
+    .replace(/^<b>[\d, ]+\.<\/b> /, "");
+  const [head = "", ...rest] = plain.split("<br/>");
+  const actions = [...rest.join(" ").matchAll(/<b>\[ϟ (.*?)\]<\/b>/g)].map(match => unescapeMermaidLabel(match[1] ?? ""));
+
+  const [, event = head.trim(), guard] = head.match(/^(.*?)(?: IF (.*))?$/) ?? [];
+  let trigger: MermaidTransitionLabel["trigger"];
+  const delay = event.match(/^<i>after<\/i> (\d+)ms$/);
+  if (delay) {
+    trigger = { kind: "after", delay: Number(delay[1]) };
+  } else if (event === "<i>always</i>" || event === "") {
+    trigger = { kind: "always" };
+  } else if (event === "<i>done</i>") {
+    trigger = { kind: "onDone" };
+  } else {
+    trigger = { kind: "on", event: unescapeMermaidLabel(event.replace(/^<b>(.*)<\/b>$/, "$1")) };
+  }
+  return guard ? { trigger, guard: unescapeMermaidLabel(guard), actions } : { trigger, actions };
+}
+
+/**
+ * Parse a branch label of a guarded choice: `(2) IF guard<br/><b>[ϟ action]</b>`
+ * or `(3) else`. Without the "IF", a hand-written label is the guard name.
+ */
+function parseBranchLabel(label: string): { index: number; guard?: string; actions: string[] } {
+  const [head = "", ...rest] = label.split("<br/>");
+  const actions = [...rest.join(" ").matchAll(/<b>\[ϟ (.*?)\]<\/b>/g)].map(match => unescapeMermaidLabel(match[1] ?? ""));
+  const [, index, condition = ""] = head.match(/^(?:\((\d+)\))?\s*(.*)$/) ?? [];
+  const guard = condition.replace(/^IF /, "").trim();
+  const branch = { index: index === undefined ? Infinity : Number(index), actions };
+  return guard && guard !== "else" ? { ...branch, guard: unescapeMermaidLabel(guard) } : branch;
+}
+
+/** A state while its diagram is being parsed */
+interface ParsedMermaidState {
+  id: string;
+  key: string;
+  parent: ParsedMermaidState | undefined;
+  children: ParsedMermaidState[];
+  /** Declared by a statement of its own, not only mentioned by a transition */
+  declared: boolean;
+  pseudo?: "choice" | "fork";
+  final: boolean;
+  /** Saw a `--` region divider */
+  regions: boolean;
+  /** Targets of `[*] -->` in its block */
+  initials: string[];
+  config: MermaidStateConfig;
+  transitions: Array<{ trigger: MermaidTransitionLabel["trigger"]; guard?: string; actions: string[]; target: ParsedMermaidState }>;
+  historyTargets: ParsedMermaidState[];
+}
+
+/**
+ * Apply state label sections as stateLabelSections writes them: tags,
+ * description, meta, entry/exit actions and invokes. Other lines (hand-written
+ * labels and notes) make up the description.
+ */
+function applyLabelSections(state: ParsedMermaidState, lines: string[]): void {
+  const { config } = state;
+  const described: string[] = [];
+  let section: "entry" | "exit" | "invoke" | undefined;
+
+  for (const line of lines) {
+    if (line === "────────") {
+      section = undefined;
+      continue;
+    }
+    if (line === "Entry actions" || line === "Exit actions" || line === "Invoke") {
+      section = line === "Invoke" ? "invoke" : line === "Entry actions" ? "entry" : "exit";
+      continue;
+    }
+    const action = line.match(/^<b>\[ϟ (.*)\]<\/b>$/);
+    if (action && (section === "entry" || section === "exit")) {
+      (config[section] ??= []).push(unescapeMermaidLabel(action[1] ?? ""));
+      continue;
+    }
+    const src = line.match(/^<b>\[◉ (.*)\]<\/b>$/);
+    if (src && section === "invoke") {
+      (config.invoke ??= []).push({ src: unescapeMermaidText(src[1] ?? "") });
+      continue;
+    }
+    const invokeId = line.match(/^<b><sup>∟ ID∶ (.*)<\/sup><\/b>$/);
+    const invoke = config.invoke?.[config.invoke.length - 1];
+    if (invokeId && invoke) {
+      invoke.id = unescapeMermaidText(invokeId[1] ?? "");
+      continue;
+    }
+    if (line === "<i>transient</i>") continue; // follows from the `always` transitions
+
+    const description = line.match(/^<sup><b>([\s\S]*)<\/b><\/sup>$/);
+    const tags = line.match(/^<sup>\((.*)\)<\/sup>$/);
+    const meta = line.match(/^<i>(.*?)<\/i> - (.*)$/);
+    if (description) {
+      described.push(unescapeMermaidText(description[1] ?? ""));
+    } else if (tags) {
+      config.tags = (tags[1] ?? "").split(") (").map(unescapeMermaidText);
+    } else if (meta) {
+      (config.meta ??= {})[unescapeMermaidLabel(meta[1] ?? "")] = unescapeMermaidLabel(meta[2] ?? "");
+    } else {
+      described.push(unescapeMermaidText(line.replace(/<\/?\w+\/?>/g, "")));
+    }
+  }
+
+  if (described.length > 0) {
+    config.description = described.join("\n");
+  }
+}
+
+/**
+ * Parse a Mermaid stateDiagram-v2 into an XState machine config.
+ *
+ * Reads the diagrams toMermaidNested writes: `state {}` blocks, `[*]` initial
+ * and final states, `--` regions (parallel states), history markers, labels
+ * with tags, description, meta, entry/exit actions and invokes, notes of
+ * compound states, `EVENT IF guard` transitions with `[ϟ action]`, delayed,
+ * eventless and done transitions, and `<<choice>>` branches. Hand-written
+ * diagrams work too: states are declared on first use, plain labels are
+ * descriptions or event names. Styling statements are skipped, the blocks of
+ * expanded invoked machines as well (the invoke stays on its state).
+ *
+ * Guards, actions and actors are referenced by name. Targets are sibling keys,
+ * `.child` paths or `#machine.path` ids.
+ */
+export function fromMermaid(text: string, options: FromMermaidOptions = {}): MermaidMachineConfig {
+  const machineId = options.id ?? "machine";
+  const createState = (id: string, parent: ParsedMermaidState | undefined): ParsedMermaidState => ({
+    id, key: id, parent, children: [], declared: false, final: false, regions: false,
+    initials: [], config: {}, transitions: [], historyTargets: [],
+  });
+  const root = createState(machineId, undefined);
+  const states = new Map<string, ParsedMermaidState>([[machineId, root]]);
+  const stack = [root];
+  const edges: Array<{ source: ParsedMermaidState; target: ParsedMermaidState; label: string }> = [];
+
+  /** The state behind a node id; a declaration moves a state first seen in a transition into its block */
+  const stateFor = (id: string, declare: boolean): ParsedMermaidState => {
+    const block = stack[stack.length - 1] ?? root;
+    let state = states.get(id);
+    if (!state) {
+      state = createState(id, block);
+      block.children.push(state);
+      states.set(id, state);
+    } else if (declare && !state.declared && state !== root && state.parent !== block) {
+      state.parent?.children.splice(state.parent.children.indexOf(state), 1);
+      state.parent = block;
+      block.children.push(state);
+    }
+    if (declare) {
+      state.declared = true;
+    }
+    return state;
+  };
+
+  const lines = text.split(/\r?\n/);
+  let index = 0;
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    index = end === -1 ? lines.length : end + 1;
+  }
+
+  let started = false;
+  let skipDepth = 0;
+  let note: { state: ParsedMermaidState; lines: string[] } | undefined;
+  for (; index < lines.length; index++) {
+    const line = (lines[index] ?? "").trim();
+    if (!line || line.startsWith("%%")) continue;
+
+    if (note) {
+      if (line === "end note") {
+        applyLabelSections(note.state, note.lines);
+        note = undefined;
+      } else {
+        note.lines.push(line);
+      }
+      continue;
+    }
+    if (!started) {
+      if (!/^stateDiagram(-v2)?$/.test(line)) {
+        throw new Error(`Line ${index + 1}: expected "stateDiagram-v2", found "${line}"`);
+      }
+      started = true;
+      continue;
+    }
+    // Expanded invoked machine: drawn from the invoked machine, not part of this one
+    if (skipDepth > 0) {
+      if (line.endsWith("{")) skipDepth++;
+      if (line === "}") skipDepth--;
+      continue;
+    }
+
+    let match: RegExpMatchArray | null;
+    if (line === "}") {
+      if (stack.length === 1) {
+        throw new Error(`Line ${index + 1}: "}" without an open state block`);
+      }
+      stack.pop();
+    } else if (line === "--") {
+      (stack[stack.length - 1] ?? root).regions = true;
+    } else if (/^(direction|classDef|class|style|click|accTitle|accDescr|scale)\b/.test(line)) {
+      // Layout and styling: no machine structure
+    } else if ((match = line.match(/^note (?:left|right) of (\S+?)\s*:\s*(.*)$/))) {
+      applyLabelSections(stateFor(match[1] ?? "", false), (match[2] ?? "").split("<br/>"));
+    } else if ((match = line.match(/^note (?:left|right) of (\S+)$/))) {
+      note = { state: stateFor(match[1] ?? "", false), lines: [] };
+    } else if ((match = line.match(/^state (?:"(.*)" as )?(\S+?)\s*\{$/))) {
+      const title = match[1];
+      if (title?.startsWith("◉ ")) {
+        skipDepth = 1;
+        continue;
+      }
+      const state = stateFor(match[2] ?? "", true);
+      if (title !== undefined) {
+        state.key = unescapeMermaidLabel(title).split(".").pop() ?? state.key;
+      }
+      stack.push(state);
+    } else if ((match = line.match(/^state (\S+)\s*<<(choice|fork|join)>>$/))) {
+      stateFor(match[1] ?? "", true).pseudo = match[2] === "choice" ? "choice" : "fork";
+    } else if ((match = line.match(/^state "(.*)" as (\S+)$/))) {
+      const title = match[1] ?? "";
+      if (title.startsWith("↻ ")) continue; // invoked machine already drawn further out
+      const state = stateFor(match[2] ?? "", true);
+      if (title === "H" || title === "H*") {
+        state.config.type = "history";
+        state.config.history = title === "H*" ? "deep" : "shallow";
+        // No name to go by: path ids ("cart_resume") start with the block's id
+        const block = stack[stack.length - 1];
+        if (block && block !== root && state.id.startsWith(`${block.id}_`)) {
+          state.key = state.id.substring(block.id.length + 1);
+        }
+      } else {
+        state.key = unescapeMermaidLabel(title).split(".").pop() ?? state.key;
+      }
+    } else if ((match = line.match(/^state (\S+)$/))) {
+      stateFor(match[1] ?? "", true);
+    } else if ((match = line.match(/^(\S+?)\s*-->\s*(\S+?)(?:\s*:\s*(.*))?$/))) {
+      const [, from = "", to = "", label = ""] = match;
+      const block = stack[stack.length - 1] ?? root;
+      if (from === "[*]") {
+        block.initials.push(to);
+        stateFor(to, false);
+      } else if (to === "[*]") {
+        stateFor(from, false).final = true;
+      } else {
+        edges.push({ source: stateFor(from, false), target: stateFor(to, false), label });
+      }
+    } else if ((match = line.match(/^(\S+?)\s*:\s*(.*)$/))) {
+      const state = stateFor(match[1] ?? "", true);
+      // Protect line breaks inside a description from the section split
+      const label = (match[2] ?? "").replace(/<sup><b>(.*?)<\/b><\/sup>/g, (_, desc: string) => `<sup><b>${desc.replace(/<br\/>/g, "\n")}</b></sup>`);
+      const [head = "", divider, ...sections] = label.split("<br/>").map(section => section.replace(/\n/g, "<br/>"));
+      const name = head.match(/^<b>(.*)<\/b>$/);
+      if (name && divider === "━━━━━━━━━━━━━━") {
+        state.key = labelStateKey(state.id, unescapeMermaidLabel(name[1] ?? ""));
+        applyLabelSections(state, sections);
+      } else if (label !== state.id) {
+        applyLabelSections(state, [label]);
+      }
+    } else {
+      throw new Error(`Line ${index + 1}: unsupported statement "${line}"`);
+    }
+  }
+
+  // Transitions, now that every state is known. A choice stands for the
+  // candidates of its event, in the order of the branch numbers.
+  for (const { source, target, label } of edges) {
+    if (source.pseudo || target.pseudo === "fork") continue;
+    if (source.config.type === "history") {
+      source.historyTargets.push(target);
+      continue;
+    }
+    const { trigger, guard, actions } = parseTransitionLabel(label);
+    if (target.pseudo !== "choice") {
+      source.transitions.push({ trigger, ...(guard ? { guard } : {}), actions, target });
+      continue;
+    }
+    const branches = edges
+      .filter(edge => edge.source === target)
+      .map(edge => ({ ...parseBranchLabel(edge.label), target: edge.target }))
+      .sort((a, b) => a.index - b.index);
+    for (const branch of branches) {
+      source.transitions.push({ trigger, ...(branch.guard ? { guard: branch.guard } : {}), actions: branch.actions, target: branch.target });
+    }
+  }
+
+  const path = (state: ParsedMermaidState): string[] =>
+    state.parent ? [...path(state.parent), state.key] : [];
+  const targetOf = (source: ParsedMermaidState, target: ParsedMermaidState): string => {
+    if (target !== root && target.parent === source.parent) return target.key;
+    const targetPath = path(target);
+    const sourcePath = path(source);
+    let ancestor = target.parent;
+    while (ancestor && ancestor !== source) ancestor = ancestor.parent;
+    return ancestor
+      ? `.${targetPath.slice(sourcePath.length).join(".")}`
+      : `#${[machineId, ...targetPath].join(".")}`;
+  };
+
+  const stateConfig = (state: ParsedMermaidState): MermaidStateConfig => {
+    const children = state.children.filter(child => !child.pseudo);
+    const config: MermaidStateConfig = {};
+    const parallel = state.regions || state.initials.length > 1;
+    if (parallel && children.length > 0) {
+      config.type = "parallel";
+    } else if (state.final) {
+      config.type = "final";
+    } else if (state.config.type === "history") {
+      config.type = "history";
+    }
+    if (state.config.history) {
+      config.history = state.config.history;
+    }
+    const historyTarget = state.historyTargets[0];
+    if (historyTarget) {
+      config.target = targetOf(state, historyTarget);
+    }
+    const initial = states.get(state.initials[0] ?? "");
+    if (!parallel && initial) {
+      config.initial = initial.key;
+    }
+
+    const { description, tags, meta, entry, exit, invoke } = state.config;
+    Object.assign(config,
+      description === undefined ? {} : { description },
+      tags ? { tags } : {},
+      meta ? { meta } : {},
+      entry ? { entry } : {},
+      exit ? { exit } : {},
+      invoke ? { invoke } : {});
+
+    for (const { trigger, guard, actions, target } of state.transitions) {
+      const transition: MermaidTransitionConfig = { target: targetOf(state, target) };
+      if (guard) transition.guard = guard;
+      if (actions.length > 0) transition.actions = actions;
+
+      if (trigger.kind === "on") {
+        ((config.on ??= {})[trigger.event] ??= []).push(transition);
+      } else if (trigger.kind === "after") {
+        ((config.after ??= {})[trigger.delay] ??= []).push(transition);
+      } else {
+        (config[trigger.kind] ??= []).push(transition);
+      }
+    }
+
+    if (children.length > 0) {
+      config.states = Object.fromEntries(children.map(child => [child.key, stateConfig(child)]));
+    }
+    return config;
+  };
+
+  return { id: machineId, ...stateConfig(root) };
+}
+
+/**
+ * TypeScript source of a value: object keys bare where they are identifiers,
+ * short string lists on one line
+ */
+function sourceLiteral(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    if (value.every(item => typeof item === "string") && JSON.stringify(value).length <= 60) {
+      return `[${value.map(item => JSON.stringify(item)).join(", ")}]`;
+    }
+    const inner = indent + "  ";
+    return `[\n${value.map(item => `${inner}${sourceLiteral(item, inner)},\n`).join("")}${indent}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const inner = indent + "  ";
+    const entries = Object.entries(value).map(([key, item]) => {
+      const name = /^(?:[A-Za-z_$][\w$]*|\d+)$/.test(key) ? key : JSON.stringify(key);
+      return `${inner}${name}: ${sourceLiteral(item, inner)},\n`;
+    });
+    return entries.length > 0 ? `{\n${entries.join("")}${indent}}` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Shorthands XState accepts for transitions: a lone candidate without the
+ * array, a bare target string
+ */
+function compactTransitions(transitions: MermaidTransitionConfig[]): unknown {
+  const compact = transitions.map(transition =>
+    Object.keys(transition).length === 1 && transition.target !== undefined ? transition.target : transition);
+  return compact.length === 1 ? compact[0] : compact;
+}
+
+/** A state config with its transitions compacted, recursively */
+function compactStateConfig(config: MermaidStateConfig): Record<string, unknown> {
+  const { on, after, always, onDone, states, ...rest } = config;
+  const compactMap = (map: Record<string, MermaidTransitionConfig[]>) =>
+    Object.fromEntries(Object.entries(map).map(([key, transitions]) => [key, compactTransitions(transitions)]));
+  return {
+    ...rest,
+    ...(on ? { on: compactMap(on) } : {}),
+    ...(after ? { after: compactMap(after) } : {}),
+    ...(always ? { always: compactTransitions(always) } : {}),
+    ...(onDone ? { onDone: compactTransitions(onDone) } : {}),
+    ...(states ? { states: Object.fromEntries(Object.entries(states).map(([key, state]) => [key, compactStateConfig(state)])) } : {}),
+  };
+}
+
+/**
+ * Print a machine config (see fromMermaid) as a TypeScript module exporting
+ * `createMachine(config)` under `name` (default: "machine")
+ */
+export function toMachineSource(config: MermaidMachineConfig, options: { name?: string } = {}): string {
+  return [
+    `import { createMachine } from "xstate";`,
+    ``,
+    `export const ${options.name ?? "machine"} = createMachine(${sourceLiteral(compactStateConfig(config), "")});`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Ids of every active state node in a snapshot (ancestors included, root
+ * excluded), in document order. Accepts a live snapshot or a persisted one
+ * (`actor.getPersistedSnapshot()`), since only `value` is read.
+ */
+export function getActiveStateIds(machine: AnyStateMachine, snapshot: { value: StateValue }): string[] {
+  type ValueNode = { id: string; states: Record<string, ValueNode> };
+  const activeIds: string[] = [];
+
+  function walk(node: ValueNode, value: StateValue): void {
+    const entries: Array<[string, StateValue | undefined]> =
+      typeof value === "string" ? [[value, undefined]] : Object.entries(value);
+    for (const [key, childValue] of entries) {
+      const child = node.states[key];
+      if (!child) {
+        throw new Error(`State "${key}" of the snapshot does not exist in "${node.id}"`);
+      }
+      activeIds.push(child.id);
+      if (childValue !== undefined) {
+        walk(child, childValue);
+      }
+    }
+  }
+
+  walk(machine.root as unknown as ValueNode, snapshot.value);
+  return activeIds;
+}
+
+/** Default classDef for active states: amber fill with a thick border */
+export const ACTIVE_STATE_STYLE = "fill:#fde68a,stroke:#d97706,stroke-width:3px";
+
+export interface SnapshotOptions extends MermaidOptions {
+  /** Render with toMermaidNested (compound blocks) instead of toMermaid. Default: true */
+  nested?: boolean;
+  /** Underline the labels of transitions leaving the active states. Default: false */
+  highlightEnabledTransitions?: boolean;
+  /** classDef style applied to active states. Default: ACTIVE_STATE_STYLE */
+  activeStateStyle?: string;
+}
+
+/**
+ * Render a machine with the active state configuration of a snapshot highlighted
+ * through `classDef active` / `class ... active`. Every active state is marked,
+ * so parallel states show one active leaf per region.
+ */
+export function toMermaidSnapshot(
+  machine: AnyStateMachine,
+  snapshot: { value: StateValue },
+  options: SnapshotOptions = {}
+): string {
+  const activeIds = getActiveStateIds(machine, snapshot);
+  // Transitions of active ancestors are enabled too: XState looks them up the parent chain
+  const enabledSources = new Set(
+    options.highlightEnabledTransitions ? [machine.root.id, ...activeIds] : []
+  );
+  const enabledEdges = new Set<string>();
+  const collect = (node: DirectedGraphNode) => {
+    if (enabledSources.has(node.id)) {
+      getEdges(node).forEach(edge => enabledEdges.add(edge.id));
+    }
+    node.children.forEach(collect);
+  };
+  if (enabledSources.size > 0) {
+    collect(toDirectedGraph(machine));
+  }
+  const highlight: RenderHighlight = {
+    decorate: (edge, label) => (edge.graphEdges.some(id => enabledEdges.has(id)) ? `<u>${label}</u>` : label),
+    trailer: model => {
+      const active = modelStates(model).filter(state => activeIds.includes(state.stateId));
+      return active.length === 0 ? [] : [
+        `classDef active ${options.activeStateStyle ?? ACTIVE_STATE_STYLE}`,
+        `class ${active.map(state => state.id).join(",")} active`,
+      ];
+    },
+  };
+  const model = buildDiagramModel(machine, options);
+  return (options.nested ?? true)
+    ? renderNested(model, highlight)
+    : renderFlat(model, highlight);
+}
+
+/** Where toMermaidPath takes its path from */
+export type PathSource =
+  /** Explicit event sequence, replayed from the initial state */
+  | readonly EventObject[]
+  /** A path from getShortestPaths / getSimplePaths / getPathsFromEvents */
+  | { steps: ReadonlyArray<{ state: AnyMachineSnapshot; event: EventObject }> }
+  /**
+   * Fewest-steps path to a state, by id ("order.failed") or path ("failed").
+   * `events` supplies payloads for the traversal, like @xstate/graph's option.
+   */
+  | { to: string; strategy?: "shortest" | "simple"; events?: EventObject[] };
+
+/** Default classDef for states on the path: blue fill with a thick border */
+export const PATH_STATE_STYLE = "fill:#dbeafe,stroke:#2563eb,stroke-width:3px";
+
+/** Default classDef for states off the path: grey */
+export const DIMMED_STATE_STYLE = "fill:#f3f4f6,stroke:#d1d5db,color:#9ca3af";
+
+export interface PathOptions extends MermaidOptions {
+  /** Render with toMermaidNested (compound blocks) instead of toMermaid. Default: true */
+  nested?: boolean;
+  /** classDef style of states on the path. Default: PATH_STATE_STYLE */
+  pathStateStyle?: string;
+  /** classDef style of states off the path. Default: DIMMED_STATE_STYLE */
+  dimmedStateStyle?: string;
+}
+
+/** Actor scope that runs no side effects, as @xstate/graph uses for its traversals */
+function createMockActorScope(): AnyActorScope {
+  const emptyActor = createEmptyActor();
+  return {
+    self: emptyActor,
+    logger: () => {},
+    id: "",
+    sessionId: "",
+    defer: () => {},
+    system: emptyActor.system,
+    stopChild: () => {},
+    emit: () => {},
+    actionExecutor: () => {},
+  } as unknown as AnyActorScope;
+}
+
+/**
+ * Resolve a PathSource to @xstate/graph path steps. The first step is the
+ * initial state (event "xstate.init").
+ */
+function resolvePathSteps(
+  machine: AnyStateMachine,
+  source: PathSource
+): ReadonlyArray<{ state: AnyMachineSnapshot; event: EventObject }> {
+  if (Array.isArray(source)) {
+    return getPathsFromEvents(machine, source as EventObject[])[0]?.steps ?? [];
+  }
+  if ("steps" in source) {
+    return source.steps;
+  }
+
+  const { to, strategy = "shortest", events } = source as { to: string; strategy?: "shortest" | "simple"; events?: EventObject[] };
+  type PathNode = { id: string; path: string[]; states: Record<string, PathNode> };
+  const findState = (node: PathNode): PathNode | undefined => {
+    for (const child of Object.values(node.states)) {
+      const found = child.id === to || child.path.join(".") === to ? child : findState(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  const target = findState(machine.root as unknown as PathNode);
+  if (!target) {
+    throw new Error(`State "${to}" does not exist in "${machine.id}"`);
+  }
+
+  const traverse = strategy === "simple" ? getSimplePaths : getShortestPaths;
+  const paths = traverse(machine, {
+    toState: (snapshot: AnyMachineSnapshot) => getActiveStateIds(machine, snapshot).includes(target.id),
+    ...(events ? { events } : {}),
+  });
+  const best = paths.reduce<(typeof paths)[number] | undefined>(
+    (shortest, path) => (!shortest || path.steps.length < shortest.steps.length ? path : shortest),
+    undefined
+  );
+  if (!best) {
+    throw new Error(`No path reaches "${to}" from the initial state of "${machine.id}"`);
+  }
+  return best.steps;
+}
+
+/**
+ * Render a machine with one path through it emphasised: transitions on the
+ * path carry their step numbers ("1.", or "2, 5." when taken twice), states on
+ * the path are highlighted and everything else is dimmed.
+ *
+ * Each step's event transitions come from XState itself (getTransitionData).
+ * Eventless `always` transitions taken in between are the first candidates of
+ * each state whose targets are active after the microstep.
+ */
+export function toMermaidPath(
+  machine: AnyStateMachine,
+  source: PathSource,
+  options: PathOptions = {}
+): string {
+  const steps = resolvePathSteps(machine, source);
+  const digraph = toDirectedGraph(machine);
+  const allStates: DirectedGraphNode[] = [];
+  const allEdges: DirectedGraphEdge[] = [];
+  const collect = (node: DirectedGraphNode) => {
+    allEdges.push(...getEdges(node));
+    for (const child of node.children) {
+      allStates.push(child);
+      collect(child);
+    }
+  };
+  collect(digraph);
+
+  const stepsByEdge = new Map<string, number[]>();
+  let step = 0;
+  const take = (transition: unknown) => {
+    step++;
+    for (const edge of allEdges.filter(e => e.transition === transition)) {
+      stepsByEdge.set(edge.id, [...(stepsByEdge.get(edge.id) ?? []), step]);
+    }
+  };
+
+  const visited = new Set<string>();
+  const actorScope = createMockActorScope();
+  steps.forEach(({ state, event }, index) => {
+    getActiveStateIds(machine, state).forEach(id => visited.add(id));
+    const previous = steps[index - 1]?.state;
+    if (!previous) return;
+
+    const transitions = machine.getTransitionData(previous, event);
+    if (transitions.length === 0) {
+      throw new Error(`Event "${event.type}" is not handled in state ${JSON.stringify(previous.value)}`);
+    }
+    transitions.forEach(take);
+
+    const microsteps = machine.microstep(previous, event, actorScope);
+    // Transient states only show up in the intermediate microsteps
+    microsteps.forEach(microstep => getActiveStateIds(machine, microstep).forEach(id => visited.add(id)));
+    microsteps.forEach((microstep, i) => {
+      const prior = microsteps[i - 1];
+      if (!prior) return;
+      const before = new Set(getActiveStateIds(machine, prior));
+      const after = new Set(getActiveStateIds(machine, microstep));
+      for (const node of allStates.filter(n => before.has(n.id))) {
+        type AlwaysTransition = { target?: Array<{ id: string }> };
+        const always = (node.stateNode as unknown as { always?: AlwaysTransition[] }).always ?? [];
+        const taken = always.find(t => t.target?.length && t.target.every(target => after.has(target.id)));
+        if (taken) take(taken);
+      }
+    });
+  });
+
+  const highlight: RenderHighlight = {
+    decorate: (edge, label) => {
+      const numbers = [...new Set(edge.graphEdges.flatMap(id => stepsByEdge.get(id) ?? []))].sort((a, b) => a - b);
+      return numbers.length > 0
+        ? `<b>${numbers.join(", ")}.</b> ${label}`
+        : `<span style='opacity:0.4'>${label}</span>`;
+    },
+    trailer: model => {
+      const states = modelStates(model);
+      const pathStates = states.filter(state => visited.has(state.stateId));
+      const dimmedStates = states.filter(state => !visited.has(state.stateId));
+      return [
+        ...(pathStates.length > 0 ? [
+          `classDef path ${options.pathStateStyle ?? PATH_STATE_STYLE}`,
+          `class ${pathStates.map(state => state.id).join(",")} path`,
+        ] : []),
+        ...(dimmedStates.length > 0 ? [
+          `classDef dimmed ${options.dimmedStateStyle ?? DIMMED_STATE_STYLE}`,
+          `class ${dimmedStates.map(state => state.id).join(",")} dimmed`,
+        ] : []),
+      ];
+    },
+  };
+  const model = buildDiagramModel(machine, options);
+  return (options.nested ?? true)
+    ? renderNested(model, highlight)
+    : renderFlat(model, highlight);
+}
+
+/** How a state or transition differs between two machine versions */
+export type DiffKind = "added" | "removed" | "modified";
+
+/** Entries of a list (tags, actions, invokes) only one version has */
+export interface DiffListChange {
+  added: string[];
+  removed: string[];
+}
+
+/** An added, removed or modified state, see diffMachines */
+export interface StateDiff {
+  kind: DiffKind;
+  /** Dotted path from the root ("fulfilment.shipping"); "" is the machine root */
+  path: string;
+  /** Modified states: what changed */
+  changes?: {
+    type?: { before: string; after: string };
+    /** Paths of the initial child states */
+    initial?: { before?: string; after?: string };
+    description?: { before?: string; after?: string };
+    tags?: DiffListChange;
+    entry?: DiffListChange;
+    exit?: DiffListChange;
+    /** Invoked actors by `src` */
+    invokes?: DiffListChange;
+  };
+}
+
+/** An added, removed or modified transition, see diffMachines */
+export interface TransitionDiff {
+  kind: DiffKind;
+  /** Path of the source state ("" for the root) */
+  source: string;
+  /** Path of the target state */
+  target: string;
+  /** Event as drawn: formatEventName of the event type, "" for eventless transitions */
+  event: string;
+  /** Guard of the transition (the removed one for removed transitions) */
+  guard?: string;
+  actions: string[];
+  /** Modified transitions: what changed */
+  changes?: {
+    guard?: { before?: string; after?: string };
+    actions?: DiffListChange;
+  };
+}
+
+/** Result of diffMachines */
+export interface MachineDiff {
+  /** Changed states in document order of the union diagram */
+  states: StateDiff[];
+  /** Changed transitions: those of the new version first, then the removed ones */
+  transitions: TransitionDiff[];
+  /** Nested stateDiagram-v2 of both versions at once, changes coloured */
+  mermaid: string;
+  /** Summary tables of the change set, for PR comments */
+  markdown: string;
+}
+
+/** classDef styles of added, removed and modified states in diffMachines diagrams */
+export const DIFF_STATE_STYLES: Readonly<Record<DiffKind, string>> = {
+  added: "fill:#dcfce7,stroke:#16a34a,color:#166534",
+  removed: "fill:#fee2e2,stroke:#dc2626,color:#991b1b,stroke-dasharray:5 5",
+  modified: "fill:#fef3c7,stroke:#d97706,color:#92400e",
+};
+
+/** Label colours of added, removed and modified transitions */
+const DIFF_EDGE_COLORS: Record<DiffKind, string> = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  modified: "#d97706",
+};
+
+/**
+ * Entries only one of two lists has; undefined when they hold the same entries
+ */
+function listChange(before: string[], after: string[]): DiffListChange | undefined {
+  const added = after.filter(entry => !before.includes(entry));
+  const removed = before.filter(entry => !after.includes(entry));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+/**
+ * Markdown summary of a change set: a table of states and one of transitions
+ */
+function diffMarkdown(machineId: string, states: StateDiff[], transitions: TransitionDiff[]): string {
+  if (states.length === 0 && transitions.length === 0) {
+    return `### \`${machineId}\`: no changes\n`;
+  }
+  const code = (text: string | undefined) => (text ? `\`${text.replace(/\|/g, "\\|")}\`` : "none");
+  const statePath = (path: string) => (path ? code(path) : "(root)");
+  const list = (name: string, change: DiffListChange | undefined) => change
+    ? [`${name} ${[...change.added.map(entry => `+${code(entry)}`), ...change.removed.map(entry => `−${code(entry)}`)].join(" ")}`]
+    : [];
+  const was = (name: string, change: { before?: string | undefined; after?: string | undefined } | undefined) =>
+    change ? [`${name} ${code(change.before)} → ${code(change.after)}`] : [];
+  const describe = (kind: DiffKind, details: string[]) => (details.length > 0 ? `${kind}: ${details.join("; ")}` : kind);
+
+  const lines = [
+    `### \`${machineId}\`: ${states.length} state${states.length === 1 ? "" : "s"}, ${transitions.length} transition${transitions.length === 1 ? "" : "s"} changed`,
+  ];
+  if (states.length > 0) {
+    lines.push("", "| State | Change |", "|---|---|");
+    for (const { kind, path, changes = {} } of states) {
+      const details = [
+        ...was("type", changes.type),
+        ...was("initial", changes.initial),
+        ...(changes.description ? ["description"] : []),
+        ...list("tags", changes.tags),
+        ...list("entry", changes.entry),
+        ...list("exit", changes.exit),
+        ...list("invokes", changes.invokes),
+      ];
+      lines.push(`| ${statePath(path)} | ${describe(kind, details)} |`);
+    }
+  }
+  if (transitions.length > 0) {
+    lines.push("", "| Source | Event | Target | Change |", "|---|---|---|---|");
+    for (const { kind, source, target, event, guard, changes = {} } of transitions) {
+      const details = [...was("guard", changes.guard), ...list("actions", changes.actions)];
+      const trigger = `${code(event || "always")}${guard && !changes.guard ? ` IF ${code(guard)}` : ""}`;
+      lines.push(`| ${statePath(source)} | ${trigger} | ${statePath(target)} | ${describe(kind, details)} |`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Compare two versions of a machine. States are matched by their path from
+ * the root, transitions by source, event and target (candidates of the same
+ * triple in order). The result holds the change set, a nested diagram of the
+ * union of both versions with added states and transitions in green, removed
+ * ones in red (dashed) and modified ones in amber, and a Markdown summary.
+ *
+ * Both versions are modelled with buildDiagramModel and the given options, so
+ * the include* options also decide what is compared. Guarded choices and
+ * invoked machines are not expanded.
+ */
+export function diffMachines(
+  before: AnyStateMachine,
+  after: AnyStateMachine,
+  options: MermaidOptions = {}
+): MachineDiff {
+  const modelOptions: MermaidOptions = { ...options, guardedChoices: false, expandInvokedMachines: false };
+  const beforeModel = buildDiagramModel(before, modelOptions);
+  const afterModel = buildDiagramModel(after, modelOptions);
+
+  // Diagram id -> path, and path -> state, of each version
+  const index = (machine: AnyStateMachine, model: DiagramModel) => {
+    const paths = new Map<string, string>();
+    const states = new Map<string, DiagramState>();
+    const visit = (state: DiagramState) => {
+      const path = machine.getStateNodeById(state.stateId).path.join(".");
+      paths.set(state.id, path);
+      states.set(path, state);
+      state.children.forEach(visit);
+    };
+    visit(model.root);
+    return { paths, states };
+  };
+  const old = index(before, beforeModel);
+  const current = index(after, afterModel);
+
+  // Union ids: those of the new version, removed states keep theirs unless taken
+  const unionIds = new Map<string, string>();
+  for (const [id, path] of current.paths) {
+    unionIds.set(path, id);
+  }
+  const taken = new Set(current.paths.keys());
+  for (const [id, path] of old.paths) {
+    if (unionIds.has(path)) continue;
+    let candidate = id;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${id}_${i}`;
+    }
+    taken.add(candidate);
+    unionIds.set(path, candidate);
+  }
+  const oldId = (id: string) => unionIds.get(old.paths.get(id) ?? "") ?? id;
+
+  const stateDiffs = new Map<DiagramState, StateDiff>();
+
+  function removedState(state: DiagramState): DiagramState {
+    const union: DiagramState = {
+      ...state,
+      id: oldId(state.id),
+      ...(state.initial ? { initial: oldId(state.initial) } : {}),
+      ...(state.history ? { history: { history: state.history.history, targets: state.history.targets.map(oldId) } } : {}),
+      classes: ["removed"],
+      children: state.children.map(removedState),
+    };
+    stateDiffs.set(union, { kind: "removed", path: old.paths.get(state.id) ?? "" });
+    return union;
+  }
+
+  function mergedState(state: DiagramState): DiagramState {
+    const path = current.paths.get(state.id) ?? "";
+    const previous = old.states.get(path);
+    const children = state.children.map(mergedState);
+    // Removed children go back near their old position
+    previous?.children.forEach((child, position) => {
+      if (!current.states.has(old.paths.get(child.id) ?? "")) {
+        children.splice(Math.min(position, children.length), 0, removedState(child));
+      }
+    });
+
+    let diff: StateDiff | undefined;
+    if (!previous) {
+      diff = { kind: "added", path };
+    } else {
+      const initialPath = (initial: string | undefined, paths: Map<string, string>) =>
+        initial === undefined ? undefined : paths.get(initial);
+      const initialBefore = initialPath(previous.initial, old.paths);
+      const initialAfter = initialPath(state.initial, current.paths);
+      const changes: NonNullable<StateDiff["changes"]> = {};
+      if (previous.type !== state.type) changes.type = { before: previous.type, after: state.type };
+      if (initialBefore !== initialAfter) {
+        changes.initial = {
+          ...(initialBefore === undefined ? {} : { before: initialBefore }),
+          ...(initialAfter === undefined ? {} : { after: initialAfter }),
+        };
+      }
+      if (previous.description !== state.description) {
+        changes.description = {
+          ...(previous.description === undefined ? {} : { before: previous.description }),
+          ...(state.description === undefined ? {} : { after: state.description }),
+        };
+      }
+      const lists = {
+        tags: listChange(previous.tags, state.tags),
+        entry: listChange(previous.entry, state.entry),
+        exit: listChange(previous.exit, state.exit),
+        invokes: listChange(previous.invokes.map(invoke => invoke.src), state.invokes.map(invoke => invoke.src)),
+      };
+      for (const [key, change] of Object.entries(lists) as Array<[keyof typeof lists, DiffListChange | undefined]>) {
+        if (change) changes[key] = change;
+      }
+      if (Object.keys(changes).length > 0) {
+        diff = { kind: "modified", path, changes };
+      }
+    }
+
+    const union: DiagramState = { ...state, classes: diff && state !== afterModel.root ? [diff.kind] : [], children };
+    if (diff) stateDiffs.set(union, diff);
+    return union;
+  }
+  const root = mergedState(afterModel.root);
+
+  // Transitions: paired by source, event and target, in order
+  const edgeKey = (edge: DiagramEdge, paths: Map<string, string>) =>
+    JSON.stringify([paths.get(edge.source), formatEventName(edge.event), paths.get(edge.target)]);
+  const unpaired = new Map<string, DiagramEdge[]>();
+  for (const edge of beforeModel.edges) {
+    const key = edgeKey(edge, old.paths);
+    unpaired.set(key, [...(unpaired.get(key) ?? []), edge]);
+  }
+
+  const transitionDiff = (kind: DiffKind, edge: DiagramEdge, paths: Map<string, string>): TransitionDiff => ({
+    kind,
+    source: paths.get(edge.source) ?? "",
+    target: paths.get(edge.target) ?? "",
+    event: formatEventName(edge.event),
+    ...(edge.guard === undefined ? {} : { guard: edge.guard }),
+    actions: edge.actions,
+  });
+  const edgeKinds = new Map<DiagramEdge, DiffKind>();
+  const transitions: TransitionDiff[] = [];
+  const edges: DiagramEdge[] = [];
+  for (const edge of afterModel.edges) {
+    const union = { ...edge };
+    edges.push(union);
+    const previous = unpaired.get(edgeKey(edge, current.paths))?.shift();
+    if (!previous) {
+      edgeKinds.set(union, "added");
+      transitions.push(transitionDiff("added", edge, current.paths));
+      continue;
+    }
+    const changes: NonNullable<TransitionDiff["changes"]> = {};
+    if (previous.guard !== edge.guard) {
+      changes.guard = {
+        ...(previous.guard === undefined ? {} : { before: previous.guard }),
+        ...(edge.guard === undefined ? {} : { after: edge.guard }),
+      };
+    }
+    const actions = listChange(previous.actions, edge.actions);
+    if (actions) changes.actions = actions;
+    if (Object.keys(changes).length > 0) {
+      edgeKinds.set(union, "modified");
+      transitions.push({ ...transitionDiff("modified", edge, current.paths), changes });
+    }
+  }
+  for (const edge of beforeModel.edges) {
+    if (!unpaired.get(edgeKey(edge, old.paths))?.includes(edge)) continue;
+    const union = { ...edge, source: oldId(edge.source), target: oldId(edge.target), scope: oldId(edge.scope) };
+    edges.push(union);
+    edgeKinds.set(union, "removed");
+    transitions.push(transitionDiff("removed", edge, old.paths));
+  }
+
+  const kinds = (["added", "removed", "modified"] as const).filter(kind =>
+    [...stateDiffs.keys()].some(state => state.classes.includes(kind)));
+  const model: DiagramModel = {
+    ...afterModel,
+    root,
+    edges,
+    choices: [],
+    classes: kinds.map(kind => ({ name: kind, style: DIFF_STATE_STYLES[kind] })),
+  };
+  const highlight: RenderHighlight = {
+    decorate: (edge, label) => {
+      const kind = edgeKinds.get(edge);
+      if (!kind) return label;
+      const text = kind === "removed" ? `<s>${label}</s>` : label;
+      return `<span style='color:${DIFF_EDGE_COLORS[kind]}'>${text}</span>`;
+    },
+    trailer: () => [],
+  };
+
+  // Document order of the union diagram, the root first
+  const states: StateDiff[] = [];
+  const collect = (state: DiagramState) => {
+    const diff = stateDiffs.get(state);
+    if (diff) states.push(diff);
+    state.children.forEach(collect);
+  };
+  collect(root);
+
+  return {
+    states,
+    transitions,
+    mermaid: renderNested(model, highlight),
+    markdown: diffMarkdown(after.id, states, transitions),
+  };
+}
+
+/** What analyzeMachine reports */
+export type FindingKind =
+  | "unreachable"
+  | "dead-end"
+  | "unused-event"
+  | "missing-implementation"
+  | "invariant-conflict";
+
+/** A problem analyzeMachine found */
+export interface MachineFinding {
+  kind: FindingKind;
+  /** What is wrong, naming the states and events involved */
+  message: string;
+  /**
+   * Dotted paths of the states involved ("" is the machine root): the state,
+   * the states referring to a missing implementation, or the source and
+   * targets of a transition with contradicting invariants
+   */
+  states: string[];
+  /** The unused event, or the event of the transition (formatEventName, "" for eventless) */
+  event?: string;
+  /** Missing implementations: which one */
+  implementation?: { type: "guard" | "action" | "actor"; name: string };
+  /** Invariant conflicts: the tag of the source and the tag it contradicts on the target */
+  invariants?: [string, string];
+}
+
+export interface AnalyzeOptions extends MermaidOptions {
+  /**
+   * Event types the machine declares in `types.events`. Types do not exist at
+   * runtime, so unused events are only reported when these are given
+   * (extractMachines reads them from the source).
+   */
+  events?: string[];
+  /**
+   * Names setup() provides, checked instead of machine.implementations; a kind
+   * left out is not checked. For machines whose implementations were not
+   * evaluated, such as extracted ones.
+   */
+  implementations?: { guards?: string[]; actions?: string[]; actors?: string[] };
+  /** Draw the annotated diagram with toMermaidNested(). Default: true */
+  nested?: boolean;
+}
+
+/** Result of analyzeMachine */
+export interface MachineAnalysis {
+  /** Findings in FindingKind order, states in document order within a kind */
+  findings: MachineFinding[];
+  /** Diagram with the states and transitions of the findings marked */
+  mermaid: string;
+}
+
+/** classDef styles of states with findings in analyzeMachine diagrams, by class name */
+export const ANALYSIS_STATE_STYLES: Readonly<Record<"unreachable" | "deadEnd" | "missingImplementation", string>> = {
+  unreachable: "fill:#f3f4f6,stroke:#9ca3af,color:#6b7280,stroke-dasharray:5 5",
+  deadEnd: "fill:#fee2e2,stroke:#dc2626,color:#991b1b",
+  missingImplementation: "fill:#fef3c7,stroke:#d97706,color:#92400e",
+};
+
+/** Label colour of transitions with findings */
+const ANALYSIS_EDGE_COLOR = "#dc2626";
+
+/**
+ * The fact an `INV:` tag states and whether it is negated: "INV:payment_charged"
+ * and "INV:payment_not_charged" (or "INV:!payment_charged") state the same
+ * fact, once negated. Undefined for other tags.
+ */
+function invariantFact(tag: string): { fact: string; negated: boolean } | undefined {
+  const match = /^INV:\s*(!*)(.*)$/i.exec(tag);
+  if (!match) return undefined;
+  const words = (match[2] ?? "").toLowerCase().split(/[\s_-]+/).filter(word => word !== "");
+  const negations = (match[1] ?? "").length + words.filter(word => word === "not" || word === "no").length;
+  return { fact: words.filter(word => word !== "not" && word !== "no").join("_"), negated: negations % 2 === 1 };
+}
+
+/**
+ * Lint a machine. Reports:
+ * - states that cannot be reached from the initial state (entering a state
+ *   enters its ancestors, the regions of parallel ancestors and its initial
+ *   states; history states enter their default targets)
+ * - reachable non-final atomic states that no transition of theirs or of
+ *   their ancestors leaves
+ * - events of `options.events` that no state handles (wildcards count)
+ * - guards, actions and actors referred to by name that setup() does not
+ *   provide (built-in `xstate.*` ones and inline functions aside)
+ * - transitions between states with contradicting `INV:` tags (see
+ *   invariantFact) that run no transition, exit or entry action that could
+ *   make the invariant change
+ *
+ * The result also holds a diagram with the findings marked: unreachable
+ * states dimmed, dead ends red, states with missing implementations amber,
+ * and the labels of transitions with findings red.
+ */
+export function analyzeMachine(machine: AnyStateMachine, options: AnalyzeOptions = {}): MachineAnalysis {
+  type TransitionLike = { eventType: string; guard?: unknown; actions: unknown[]; target?: Array<{ id: string }> };
+  type StateNodeLike = {
+    id: string;
+    type: string;
+    path: string[];
+    parent?: StateNodeLike;
+    entry: unknown[];
+    exit: unknown[];
+    transitions: Map<string, TransitionLike[]>;
+    always?: TransitionLike[];
+    invoke: Array<{ src: unknown }>;
+  };
+  const digraph = toDirectedGraph(machine);
+  const nodes = new Map<string, DirectedGraphNode>();
+  const collect = (node: DirectedGraphNode) => {
+    nodes.set(node.id, node);
+    node.children.forEach(collect);
+  };
+  collect(digraph);
+  const stateNode = (node: DirectedGraphNode) => node.stateNode as unknown as StateNodeLike;
+  /** Graph nodes of state ids, skipping ids outside the graph */
+  const nodesOf = (ids: string[]): DirectedGraphNode[] =>
+    ids.flatMap(id => {
+      const node = nodes.get(id);
+      return node ? [node] : [];
+    });
+  const pathOf = (node: DirectedGraphNode) => stateNode(node).path.join(".");
+  const stateName = (node: DirectedGraphNode) => (pathOf(node) ? `"${pathOf(node)}"` : "the machine root");
+  /** The state and its ancestors, innermost first */
+  const ancestry = (node: DirectedGraphNode): DirectedGraphNode[] => {
+    const chain: DirectedGraphNode[] = [];
+    for (let state: StateNodeLike | undefined = stateNode(node); state; state = state.parent) {
+      chain.push(...nodesOf([state.id]));
+    }
+    return chain;
+  };
+  const transitionsOf = (node: DirectedGraphNode): TransitionLike[] =>
+    [...stateNode(node).transitions.values()].flat().concat(stateNode(node).always ?? []);
+
+  /** States active after entering a target */
+  const entered = (target: DirectedGraphNode): Set<DirectedGraphNode> => {
+    const states = new Set<DirectedGraphNode>();
+    const enterDefault = (node: DirectedGraphNode): void => {
+      if (states.has(node)) return;
+      states.add(node);
+      const type = getStateType(node);
+      if (type === "parallel") {
+        node.children.forEach(enterDefault);
+      } else if (type === "history") {
+        nodesOf(getHistory(node)?.targets ?? []).forEach(enterPath);
+      } else {
+        const initial = getInitialStateId(node);
+        if (initial !== undefined) nodesOf([initial]).forEach(enterDefault);
+      }
+    };
+    const enterPath = (node: DirectedGraphNode): void => {
+      const chain = ancestry(node).reverse();
+      chain.slice(0, -1).forEach((state, index) => {
+        states.add(state);
+        if (isParallel(state)) {
+          state.children.filter(child => child !== chain[index + 1]).forEach(enterDefault);
+        }
+      });
+      enterDefault(node);
+    };
+    enterPath(target);
+    return states;
+  };
+  const targetsOf = (transition: TransitionLike) => nodesOf((transition.target ?? []).map(target => target.id));
+
+  const reachable = new Set<DirectedGraphNode>();
+  const queue = [...entered(digraph)];
+  for (let node = queue.shift(); node; node = queue.shift()) {
+    if (reachable.has(node)) continue;
+    reachable.add(node);
+    for (const transition of transitionsOf(node)) {
+      for (const target of targetsOf(transition)) {
+        queue.push(...entered(target));
+      }
+    }
+  }
+
+  const states = [...nodes.values()].filter(node => node !== digraph);
+  const unreachable = states.filter(node => !reachable.has(node));
+  const unreachableFindings: MachineFinding[] = unreachable
+    .filter(node => !unreachable.includes(ancestry(node)[1] as DirectedGraphNode))
+    .map(node => ({
+      kind: "unreachable",
+      message: `State ${stateName(node)} cannot be reached from the initial state`,
+      states: [pathOf(node)],
+    }));
+
+  const deadEnds = states.filter(node =>
+    reachable.has(node) &&
+    getStateType(node) === "atomic" &&
+    !ancestry(node).some(state => transitionsOf(state).some(transition =>
+      targetsOf(transition).some(target => target !== node))));
+  const deadEndFindings: MachineFinding[] = deadEnds.map(node => ({
+    kind: "dead-end",
+    message: `State ${stateName(node)} is not final, but no transition leaves it`,
+    states: [pathOf(node)],
+  }));
+
+  const handled = [...nodes.values()].flatMap(node => [...stateNode(node).transitions.keys()]);
+  const handles = (descriptor: string, event: string) =>
+    descriptor === event || descriptor === "*" || (descriptor.endsWith(".*") && event.startsWith(descriptor.slice(0, -1)));
+  const eventFindings: MachineFinding[] = (options.events ?? [])
+    .filter(event => !handled.some(descriptor => handles(descriptor, event)))
+    .map(event => ({ kind: "unused-event", message: `Event "${event}" is declared, but no state handles it`, states: [], event }));
+
+  // Missing implementations, with the states and transitions referring to them
+  const implementations = machine.implementations as { guards?: object; actions?: object; actors?: object };
+  const provided = options.implementations ?? {
+    guards: Object.keys(implementations.guards ?? {}),
+    actions: Object.keys(implementations.actions ?? {}),
+    actors: Object.keys(implementations.actors ?? {}),
+  };
+  const missing = new Map<string, MachineFinding>();
+  const flaggedTransitions = new Set<unknown>();
+  const missingIn = new Set<DirectedGraphNode>();
+  const use = (type: "guard" | "action" | "actor", name: string | undefined, node: DirectedGraphNode): boolean => {
+    const names = provided[`${type}s`];
+    if (name === undefined || name.startsWith("xstate.") || !names || names.includes(name)) return false;
+    const key = `${type}:${name}`;
+    const finding = missing.get(key) ?? { kind: "missing-implementation", message: "", states: [], implementation: { type, name } };
+    if (!finding.states.includes(pathOf(node))) finding.states.push(pathOf(node));
+    const label = `${type[0]?.toUpperCase()}${type.substring(1)}`;
+    finding.message = `${label} "${name}" is missing from setup (used by ${finding.states.map(path => (path ? `"${path}"` : "the machine root")).join(", ")})`;
+    missing.set(key, finding);
+    return true;
+  };
+  const guardNames = (guard: unknown): string[] => {
+    if ((typeof guard !== "object" && typeof guard !== "function") || guard === null) {
+      return typeof guard === "string" ? [guard] : [];
+    }
+    const name = getImplementationName(guard);
+    const nested = (guard as { guards?: unknown }).guards;
+    return [...(name === undefined ? [] : [name]), ...(Array.isArray(nested) ? nested.flatMap(guardNames) : [])];
+  };
+  for (const node of nodes.values()) {
+    const state = stateNode(node);
+    const stateActions = [...state.entry, ...state.exit].map(action => use("action", getImplementationName(action), node));
+    const actors = state.invoke.map(invoke => use("actor", typeof invoke.src === "string" ? invoke.src : undefined, node));
+    if ([...stateActions, ...actors].includes(true)) missingIn.add(node);
+    for (const transition of transitionsOf(node)) {
+      const uses = [
+        ...guardNames(transition.guard).map(name => use("guard", name, node)),
+        ...transition.actions.map(action => use("action", getImplementationName(action), node)),
+      ];
+      if (uses.includes(true)) flaggedTransitions.add(transition);
+    }
+  }
+
+  const invariantFindings: MachineFinding[] = [];
+  for (const node of states.filter(state => reachable.has(state))) {
+    const source = ancestry(node);
+    const before = source.flatMap(state => getTags(state).filter(tag => invariantFact(tag)).map(tag => ({ state, tag })));
+    if (before.length === 0) continue;
+    for (const transition of transitionsOf(node)) {
+      const targets = targetsOf(transition);
+      if (targets.length === 0) continue;
+      const after = new Set<DirectedGraphNode>(targets.flatMap(target => [...entered(target)]));
+      const runsActions = transition.actions.length > 0 || stateNode(node).exit.length > 0 ||
+        [...after].some(state => !source.includes(state) && stateNode(state).entry.length > 0);
+      if (runsActions) continue;
+      const event = formatEventName(transition.eventType);
+      for (const { state: owner, tag } of before) {
+        const fact = invariantFact(tag);
+        const contradicting = [...after].flatMap(state => getTags(state).map(other => ({ state, other })))
+          .find(({ other }) => {
+            const otherFact = invariantFact(other);
+            return otherFact?.fact === fact?.fact && otherFact?.negated !== fact?.negated;
+          });
+        if (!contradicting) continue;
+        flaggedTransitions.add(transition);
+        invariantFindings.push({
+          kind: "invariant-conflict",
+          message: `${contradicting.other} of ${stateName(contradicting.state)} contradicts ${tag} of ${stateName(owner)}, ` +
+            `but the ${event ? `${event} transition` : "eventless transition"} from ${stateName(node)} runs no action`,
+          states: [pathOf(node), ...targets.map(pathOf)],
+          event,
+          invariants: [tag, contradicting.other],
+        });
+      }
+    }
+  }
+
+  // Diagram: one class per state, the first that applies
+  const stateClasses = new Map<string, keyof typeof ANALYSIS_STATE_STYLES>();
+  unreachable.forEach(node => stateClasses.set(node.id, "unreachable"));
+  deadEnds.forEach(node => stateClasses.set(node.id, "deadEnd"));
+  missingIn.forEach(node => {
+    if (!stateClasses.has(node.id)) stateClasses.set(node.id, "missingImplementation");
+  });
+  const flaggedEdges = new Set(
+    [...nodes.values()].flatMap(node => getEdges(node)).filter(edge => flaggedTransitions.has(edge.transition)).map(edge => edge.id)
+  );
+  const highlight: RenderHighlight = {
+    decorate: (edge, label) => edge.graphEdges.some(id => flaggedEdges.has(id))
+      ? `<span style='color:${ANALYSIS_EDGE_COLOR}'>⚠ ${label}</span>`
+      : label,
+    trailer: model => {
+      const marked = modelStates(model).filter(state => stateClasses.has(state.stateId));
+      return (Object.keys(ANALYSIS_STATE_STYLES) as Array<keyof typeof ANALYSIS_STATE_STYLES>).flatMap(name => {
+        const ids = marked.filter(state => stateClasses.get(state.stateId) === name).map(state => state.id);
+        return ids.length > 0 ? [`classDef ${name} ${ANALYSIS_STATE_STYLES[name]}`, `class ${ids.join(",")} ${name}`] : [];
+      });
+    },
+  };
+  const model = buildDiagramModel(machine, options);
+
+  return {
+    findings: [...unreachableFindings, ...deadEndFindings, ...eventFindings, ...missing.values(), ...invariantFindings],
+    mermaid: (options.nested ?? true) ? renderNested(model, highlight) : renderFlat(model, highlight),
+  };
+}
+
+/** Actor reference fields read from inspection events (live ActorRefs qualify) */
+interface InspectedActorRef {
+  id: string;
+  sessionId: string;
+  src?: unknown;
+  logic?: unknown;
+}
+
+/**
+ * The parts of an XState inspection event toMermaidSequence reads. Events from
+ * `createActor(machine, { inspect })` fit as they are.
+ */
+export interface SequenceInspectionEvent {
+  type: string;
+  actorRef: InspectedActorRef;
+  sourceRef?: InspectedActorRef | undefined;
+  event?: { type: string };
+  snapshot?: unknown;
+}
+
+export interface SequenceOptions extends Pick<MermaidOptions, "title" | "theme" | "mermaidConfig"> {
+  /** Add a note whenever an actor's state value or status changes. Default: true */
+  includeStateNotes?: boolean;
+  /** Number the messages (Mermaid `autonumber`). Default: false */
+  autonumber?: boolean;
+}
+
+/** sequenceDiagram keywords a participant id must not collide with (matched case-insensitively) */
+const SEQUENCE_RESERVED_IDS = new Set([
+  "participant", "actor", "as", "note", "over", "left", "right", "of", "end",
+  "loop", "alt", "else", "opt", "par", "and", "rect", "critical", "break", "box",
+  "activate", "deactivate", "autonumber", "title", "create", "destroy", "link", "links",
+]);
+
+/**
+ * Participant label: the implementation name of invoked/spawned actors
+ * ("paymentProcessor"), the machine id of the root, else the actor id
+ */
+function getActorName(ref: InspectedActorRef): string {
+  if (typeof ref.src === "string") return ref.src;
+  const logicId = (ref.logic as { id?: unknown } | undefined)?.id;
+  return typeof logicId === "string" ? logicId : ref.id;
+}
+
+/**
+ * State value as dotted leaf paths: { fulfilment: { payment: "paid" } } -> "fulfilment.payment.paid"
+ */
+function formatStateValue(value: unknown, prefix = ""): string[] {
+  if (typeof value === "string") return [`${prefix}${value}`];
+  if (typeof value !== "object" || value === null) return [];
+  const entries = Object.entries(value);
+  if (entries.length === 0) return prefix ? [prefix.slice(0, -1)] : [];
+  return entries.flatMap(([key, child]) => formatStateValue(child, `${prefix}${key}.`));
+}
+
+/**
+ * Render a recorded actor run as a Mermaid sequenceDiagram.
+ *
+ * Participants are the actors in order of appearance (the root machine plus
+ * invoked and spawned children), messages are the events delivered between
+ * them (`sendTo`, `sendParent`, delayed events to self), and notes show state
+ * changes. Events sent from outside the system come from an "(external)"
+ * participant. Event names go through formatEventName, as in the state diagrams.
+ */
+export function toMermaidSequence(
+  events: Iterable<SequenceInspectionEvent>,
+  options: SequenceOptions = {}
+): string {
+  const includeNotes = options.includeStateNotes ?? true;
+  const participants = new Map<string, { id: string; label: string }>();
+  // Reserved up front so no actor takes the id of the external sender
+  const usedIds = new Set(["external"]);
+  const lastStates = new Map<string, string>();
+  const body: string[] = [];
+  let hasExternal = false;
+
+  const participant = (ref: InspectedActorRef) => {
+    const existing = participants.get(ref.sessionId);
+    if (existing) return existing;
+    const label = getActorName(ref);
+    let base = toMermaidId(label);
+    if (SEQUENCE_RESERVED_IDS.has(base.toLowerCase())) base = `${base}_`;
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    usedIds.add(id);
+    const created = { id, label };
+    participants.set(ref.sessionId, created);
+    return created;
+  };
+
+  for (const inspectionEvent of events) {
+    const target = participant(inspectionEvent.actorRef);
+    if (inspectionEvent.type === "@xstate.event" && inspectionEvent.event) {
+      const eventType = inspectionEvent.event.type;
+      const source = inspectionEvent.sourceRef;
+      // The root's own start is covered by its first state note
+      if (!source && eventType === "xstate.init") continue;
+      if (!source) hasExternal = true;
+      const from = source ? participant(source).id : "external";
+      body.push(`    ${from}->>${target.id}: ${escapeMermaidLabel(formatEventName(eventType))}`);
+    } else if (inspectionEvent.type === "@xstate.snapshot" && includeNotes) {
+      const snapshot = inspectionEvent.snapshot as { value?: unknown; status?: string } | undefined;
+      const value = formatStateValue(snapshot?.value).join(", ");
+      const status = snapshot?.status && snapshot.status !== "active" ? snapshot.status : "";
+      const text = value && status ? `${value} (${status})` : value || status;
+      if (text && lastStates.get(inspectionEvent.actorRef.sessionId) !== text) {
+        lastStates.set(inspectionEvent.actorRef.sessionId, text);
+        body.push(`    Note over ${target.id}: ${escapeMermaidLabel(text)}`);
+      }
+    }
+  }
+
+  const lines = [...formatFrontmatter(options), "sequenceDiagram"];
+  if (options.autonumber) {
+    lines.push("    autonumber");
+  }
+  if (hasExternal) {
+    lines.push("    participant external as (external)");
+  }
+  for (const { id, label } of participants.values()) {
+    lines.push(id === label ? `    participant ${id}` : `    participant ${id} as ${escapeMermaidLabel(label)}`);
+  }
+  lines.push(...body);
   return lines.join("\n");
 }
 
@@ -0,0 +1,217 @@
+/**
+ * xstate-ts-to-mermaid/markdown
+ * Keep Mermaid diagrams embedded in Markdown in sync with their machines
+ *
+ * A marker comment names a module, an export and render options:
+ *
+ *   <!-- xstate-mermaid: src/order.ts#orderMachine nested includeMeta=false -->
+ *
+ * The ```mermaid fence that follows it is the generated diagram. syncDiagrams
+ * regenerates every such fence (adding one where it is missing) and reports
+ * which ones were stale. Loading the module is left to the caller (see the
+ * CLI `sync` command).
+ */
+
+import type { MermaidOptions } from "./index.js";
+
+/** What a marker asks for: `<source>[#<export>] [nested] [option=value ...]` */
+export interface DiagramSpec {
+  /** Module path as written, relative to the Markdown file */
+  source: string;
+  /** Export name; omitted when the module exports a single machine */
+  exportName?: string;
+  /** toMermaidNested (true) or toMermaid (false); omitted: the caller's default */
+  nested?: boolean;
+  options: MermaidOptions;
+}
+
+/** A marker comment and the diagram fence that follows it */
+export interface DiagramMarker {
+  /** Line of the marker comment (1-based) */
+  line: number;
+  spec: DiagramSpec;
+  /** Diagram currently in the fence; omitted when no ```mermaid fence follows */
+  diagram?: string;
+}
+
+export interface SyncResult {
+  /** The Markdown with every diagram regenerated */
+  markdown: string;
+  /** Markers whose diagram differed from the generated one (or had none) */
+  stale: Array<{ marker: DiagramMarker; diagram: string }>;
+}
+
+/**
+ * The machine a spec names among the exported machines of its module: the
+ * named export, or the only one. Throws a message fit for the marker's line.
+ */
+export function selectMachine<T extends { name: string }>(machines: T[], spec: DiagramSpec): T {
+  const { source, exportName } = spec;
+  if (machines.length === 0) {
+    throw new Error(`${source} exports no state machine`);
+  }
+  if (exportName === undefined) {
+    if (machines.length === 1) return machines[0] as T;
+    throw new Error(`${source} exports ${machines.length} machines, name one (${source}#${machines[0]?.name})`);
+  }
+  const found = machines.find(machine => machine.name === exportName);
+  if (!found) throw new Error(`${source} exports no machine "${exportName}"`);
+  return found;
+}
+
+/** MermaidOptions a marker may set: those with a scalar value */
+const SPEC_OPTIONS = new Set<keyof MermaidOptions>([
+  "title", "maxDescriptionLength", "includeGuards", "includeActions", "includeEntryActions",
+  "includeExitActions", "includeInvokes", "includeTags", "includeMeta", "stateIds",
+  "fullyQualifiedNames", "guardedChoices", "direction", "theme", "expandInvokedMachines",
+]);
+
+const MARKER = /^\s*<!--\s*xstate-mermaid:\s*(.*?)\s*-->\s*$/;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+
+/**
+ * Option value as written: quoted text stays a string, true/false and numbers are converted
+ */
+function specValue(raw: string): string | number | boolean {
+  if (raw.startsWith('"')) return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  if (raw === "true" || raw === "false") return raw === "true";
+  return raw !== "" && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+}
+
+/**
+ * Set one option of a spec: `nested` or a scalar MermaidOptions key. `raw` is
+ * the value as written, undefined for a bare name (meaning `true`). Throws on
+ * unknown options.
+ */
+export function setSpecOption(spec: DiagramSpec, key: string, raw: string | undefined): void {
+  const value = raw === undefined ? true : specValue(raw);
+  if (key === "nested") {
+    if (typeof value !== "boolean") throw new Error(`"nested" expects true or false, found "${String(value)}"`);
+    spec.nested = value;
+  } else if (SPEC_OPTIONS.has(key as keyof MermaidOptions)) {
+    (spec.options as Record<string, unknown>)[key] = value;
+  } else {
+    throw new Error(`unknown option "${key}"`);
+  }
+}
+
+/**
+ * Parse the text of a marker (without the comment delimiters):
+ * `src/order.ts#orderMachine nested title="Order flow" includeMeta=false`.
+ * A bare option name means `true`. Throws on unknown options.
+ */
+export function parseDiagramSpec(text: string): DiagramSpec {
+  const tokens = text.match(/[^\s=]+(?:=(?:"(?:[^"\\]|\\.)*"|\S*))?/g) ?? [];
+  const [reference, ...rest] = tokens;
+  if (reference === undefined) {
+    throw new Error("expected a module path, e.g. src/order.ts#orderMachine");
+  }
+  const hash = reference.lastIndexOf("#");
+  const spec: DiagramSpec = {
+    source: hash === -1 ? reference : reference.substring(0, hash),
+    options: {},
+  };
+  if (hash !== -1) spec.exportName = reference.substring(hash + 1);
+
+  for (const token of rest) {
+    const eq = token.indexOf("=");
+    setSpecOption(spec, eq === -1 ? token : token.substring(0, eq), eq === -1 ? undefined : token.substring(eq + 1));
+  }
+  return spec;
+}
+
+/** A marker and the line range of its fence (0-based, end exclusive) */
+interface ScannedMarker {
+  marker: DiagramMarker;
+  fence?: { start: number; end: number; open: string };
+}
+
+/**
+ * Line closing a fence opened with `run`: the same character, at least as many times
+ */
+function closingFence(run: string): RegExp {
+  return new RegExp(`^\\s{0,3}\\${run[0]}{${run.length},}\\s*$`);
+}
+
+/**
+ * Scan Markdown lines for diagram markers. Markers inside code fences are
+ * examples, not markers.
+ */
+function scanMarkers(lines: string[]): ScannedMarker[] {
+  const found: ScannedMarker[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] as string;
+    const fence = FENCE.exec(line);
+    if (fence) {
+      // Skip the whole fence
+      const close = closingFence(fence[1] as string);
+      while (i + 1 < lines.length && !close.test(lines[i + 1] as string)) i++;
+      i++;
+      continue;
+    }
+    const match = MARKER.exec(line);
+    if (!match) continue;
+
+    let spec: DiagramSpec;
+    try {
+      spec = parseDiagramSpec(match[1] as string);
+    } catch (err) {
+      throw new Error(`Line ${i + 1}: ${(err as Error).message}`);
+    }
+    const marker: DiagramMarker = { line: i + 1, spec };
+
+    // The diagram is the next fence, if it is a mermaid one (blank lines in between are fine)
+    let next = i + 1;
+    while (next < lines.length && (lines[next] as string).trim() === "") next++;
+    const open = FENCE.exec(lines[next] ?? "");
+    if (!open || open[2] !== "mermaid") {
+      found.push({ marker });
+      continue;
+    }
+    const run = open[1] as string;
+    const close = closingFence(run);
+    let end = next + 1;
+    while (end < lines.length && !close.test(lines[end] as string)) end++;
+    marker.diagram = lines.slice(next + 1, end).join("\n");
+    found.push({ marker, fence: { start: next, end: Math.min(end + 1, lines.length), open: run } });
+    i = end;
+  }
+  return found;
+}
+
+/**
+ * Every diagram marker in a Markdown document, in order.
+ * Throws `Line N: ...` for a marker that cannot be parsed.
+ */
+export function findDiagramMarkers(markdown: string): DiagramMarker[] {
+  return scanMarkers(markdown.split(/\r?\n/)).map(({ marker }) => marker);
+}
+
+/**
+ * Regenerate the diagram after every marker. `render` returns the diagram for
+ * a marker (without the fence); a marker without a ```mermaid fence gets one
+ * right below it. Line endings of the document are kept.
+ */
+export function syncDiagrams(markdown: string, render: (marker: DiagramMarker) => string): SyncResult {
+  const eol = markdown.includes("\r\n") ? "\r\n" : "\n";
+  const lines = markdown.split(/\r?\n/);
+  const stale: SyncResult["stale"] = [];
+  const output: string[] = [];
+  let copied = 0;
+  for (const { marker, fence } of scanMarkers(lines)) {
+    const diagram = render(marker);
+    if (diagram === marker.diagram) continue;
+    stale.push({ marker, diagram });
+    const open = fence?.open ?? "```";
+    const block = [`${open}mermaid`, ...diagram.split("\n"), open];
+    if (fence) {
+      output.push(...lines.slice(copied, fence.start), ...block);
+      copied = fence.end;
+    } else {
+      output.push(...lines.slice(copied, marker.line), ...block);
+      copied = marker.line;
+    }
+  }
+  output.push(...lines.slice(copied));
+  return { markdown: stale.length === 0 ? markdown : output.join(eol), stale };
+}
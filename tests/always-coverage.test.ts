@@ -0,0 +1,106 @@
+#!/usr/bin/env npx tsx
+/**
+ * ALWAYS (EVENTLESS) TRANSITION COVERAGE TEST
+ *
+ * toDirectedGraph() leaves out `always` transitions. Ensures both renderers:
+ * 1. Draw every eventless transition with an italic "always" keyword
+ * 2. Combine it with the guard (object and string guards) and actions
+ * 3. Mark transient routing states (unguarded `always`) so the diagram shows
+ *    the machine never rests there
+ */
+import { setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// ============================================================================
+// TEST MACHINE: routing state with guarded branches and a fallback
+// ============================================================================
+const routerMachine = setup({
+  types: {
+    events: {} as { type: "LOGIN" } | { type: "BAN" },
+  },
+  guards: {
+    isAdmin: () => false,
+    isGuest: () => false,
+    isBanned: () => false,
+  },
+  actions: {
+    logGuest: () => {},
+  },
+}).createMachine({
+  id: "router",
+  initial: "anonymous",
+  states: {
+    anonymous: {
+      on: { LOGIN: "routing" },
+    },
+    routing: {
+      always: [
+        { guard: { type: "isAdmin" }, target: "admin" },
+        { guard: "isGuest", target: "guest", actions: "logGuest" },
+        { target: "member" },
+      ],
+    },
+    admin: {},
+    guest: {},
+    member: {
+      initial: "active",
+      states: {
+        active: {
+          // Guarded only: the machine may rest here
+          always: { guard: "isBanned", target: "#router.banned" },
+        },
+      },
+    },
+    banned: {
+      type: "final",
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== ALWAYS TRANSITION COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const sharedChecks = [
+  { name: "Guarded always edge (object guard)", pattern: /routing --> admin: <i>always<\/i> IF isAdmin/ },
+  { name: "Guarded always edge (string guard) with action", pattern: /routing --> guest: <i>always<\/i> IF isGuest<br\/><b>\[ϟ logGuest\]<\/b>/ },
+  { name: "Unguarded fallback always edge", pattern: /routing --> member: <i>always<\/i>$/m },
+  { name: "Nested always edge leaving its compound", pattern: /active --> banned: <i>always<\/i> IF isBanned/ },
+  { name: "Routing state marked transient", pattern: /routing: <b>routing<\/b><br\/>━+<br\/><i>transient<\/i>/ },
+  { name: "Guarded-only state not marked transient", pattern: /active: .*transient/, absent: true },
+  { name: "No empty event labels", pattern: /<b><\/b>/, absent: true },
+];
+
+runChecks("toMermaid", toMermaid(routerMachine), sharedChecks);
+runChecks("toMermaidNested", toMermaidNested(routerMachine), sharedChecks);
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL ALWAYS CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ ALWAYS CHECKS FAILED");
+  process.exit(1);
+}
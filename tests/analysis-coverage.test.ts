@@ -0,0 +1,175 @@
+#!/usr/bin/env npx tsx
+/**
+ * MACHINE ANALYSIS COVERAGE TEST
+ *
+ * Ensures analyzeMachine():
+ * 1. Reports states the initial state cannot reach, following parallel regions,
+ *    initial states and history defaults, once per unreachable subtree
+ * 2. Reports non-final states no transition leaves, counting the transitions
+ *    of ancestors and ignoring targetless ones
+ * 3. Reports declared events no state handles, wildcards counted
+ * 4. Reports guards (inside and/not too), actions and actors missing from
+ *    setup, or from the names given as options
+ * 5. Reports transitions between contradicting INV: tags that run no action
+ * 6. Marks the findings in a diagram Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { and, assign, not, setup } from "xstate";
+import { ANALYSIS_STATE_STYLES, analyzeMachine, type FindingKind } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// TEST MACHINE: one of each finding, next to look-alikes that are fine
+// ============================================================================
+const checkoutMachine = setup({
+  guards: {
+    hasItems: () => true,
+  },
+  actions: {
+    lockCart: () => {},
+  },
+}).createMachine({
+  id: "checkout",
+  initial: "cart",
+  states: {
+    cart: {
+      tags: ["INV: cart open"],
+      on: {
+        ADD: { actions: [assign({}), () => {}] },
+        PAY: { target: "payment", guard: and(["hasItems", not("isBlocked")]), actions: "lockCart" },
+        FORCE: "payment",
+      },
+    },
+    payment: {
+      tags: ["INV:cart_not_open"],
+      initial: "card",
+      states: {
+        card: { on: { FAIL: "failed" } },
+        failed: { on: { RETRY: "hist", GIVE_UP: "#checkout.stuck", CANCEL: "#checkout.cart" } },
+        hist: { type: "history", target: "review" },
+        review: { on: { CONFIRM: "card" } },
+      },
+      on: { SHIP: "shipping" },
+    },
+    shipping: {
+      type: "parallel",
+      states: {
+        parcel: {
+          initial: "packing",
+          states: {
+            packing: { invoke: { src: "courier" }, on: { "feedback.*": "sent" } },
+            sent: { type: "final" },
+          },
+        },
+        invoice: {
+          initial: "draft",
+          states: {
+            draft: { entry: "sendInvoice", on: { SEND: "sent" } },
+            sent: {},
+          },
+        },
+      },
+      on: { RESET: "cart" },
+    },
+    stuck: {
+      on: { PING: { actions: "ping" } },
+    },
+    archived: {
+      initial: "old",
+      states: { old: {} },
+    },
+  },
+});
+
+const events = ["ADD", "PAY", "FAIL", "feedback.good", "REFUND"];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== MACHINE ANALYSIS COVERAGE TEST ===\n");
+
+const analysis = analyzeMachine(checkoutMachine, { events });
+const of = (kind: FindingKind) => analysis.findings.filter(finding => finding.kind === kind);
+console.log(analysis.findings.map(finding => `${finding.kind}: ${finding.message}`).join("\n"));
+console.log();
+
+console.log("--- Reachability ---\n");
+check("Unreachable subtree reported once", of("unreachable").map(finding => finding.states.join()).join() === "archived");
+check("Message names the state", of("unreachable")[0]?.message === `State "archived" cannot be reached from the initial state`);
+check("Parallel regions, initial states and history defaults reached",
+  !analysis.findings.some(finding => finding.kind === "unreachable" && /invoice|review|packing/.test(finding.message)));
+
+console.log("\n--- Dead ends ---\n");
+check("Non-final state with only targetless transitions", of("dead-end").map(finding => finding.states.join()).join() === "stuck");
+check("Message names the state", of("dead-end")[0]?.message === `State "stuck" is not final, but no transition leaves it`);
+check("Final states and states left through an ancestor are fine", !of("dead-end").some(finding => /sent/.test(finding.message)));
+check("Unreachable states are not dead ends too", !of("dead-end").some(finding => /archived/.test(finding.message)));
+
+console.log("\n--- Events ---\n");
+check("Unhandled declared event", of("unused-event").map(finding => finding.event).join() === "REFUND");
+check("Message", of("unused-event")[0]?.message === `Event "REFUND" is declared, but no state handles it`);
+check("Wildcard counts as handling", !of("unused-event").some(finding => finding.event === "feedback.good"));
+check("Not checked without declared events", !analyzeMachine(checkoutMachine).findings.some(finding => finding.kind === "unused-event"));
+
+console.log("\n--- Implementations ---\n");
+const missing = of("missing-implementation").map(finding => `${finding.implementation?.type}:${finding.implementation?.name}@${finding.states.join("|")}`);
+check("Guard inside not(), actions and actor", missing.join() === "guard:isBlocked@cart,actor:courier@shipping.parcel.packing,action:sendInvoice@shipping.invoice.draft,action:ping@stuck");
+check("Message lists the states", of("missing-implementation")[0]?.message === `Guard "isBlocked" is missing from setup (used by "cart")`);
+const named = analyzeMachine(checkoutMachine, { implementations: { guards: ["hasItems", "isBlocked"] } });
+check("Names given as options; kinds left out not checked", !named.findings.some(finding => finding.kind === "missing-implementation"));
+
+console.log("\n--- Invariants ---\n");
+const conflicts = of("invariant-conflict");
+check("Transitions without actions between contradicting tags", conflicts.map(finding => `${finding.states.join("->")} ${finding.event}`).join() === "cart->payment FORCE,payment.failed->cart CANCEL");
+check("Tags of both ends", conflicts[0]?.invariants?.join() === "INV: cart open,INV:cart_not_open");
+check("Message", conflicts[0]?.message === `INV:cart_not_open of "payment" contradicts INV: cart open of "cart", but the FORCE transition from "cart" runs no action`);
+check("Tags named after the state holding them", conflicts[1]?.message === `INV: cart open of "cart" contradicts INV:cart_not_open of "payment", but the CANCEL transition from "payment.failed" runs no action`);
+check("A transition with actions may change an invariant", !conflicts.some(finding => finding.event === "PAY"));
+
+console.log("\n--- Diagram ---\n");
+check("State classes", analysis.mermaid.includes(`classDef unreachable ${ANALYSIS_STATE_STYLES.unreachable}`) &&
+  analysis.mermaid.includes("class archived,old unreachable") &&
+  analysis.mermaid.includes("class stuck deadEnd") &&
+  analysis.mermaid.includes("class packing,draft missingImplementation"));
+check("Transitions with findings in red", analysis.mermaid.includes("cart --> payment: <span style='color:#dc2626'>⚠ <b>FORCE</b></span>") &&
+  analysis.mermaid.includes("cart --> payment: <span style='color:#dc2626'>⚠ <b>PAY</b>"));
+check("Other transitions left alone", analysis.mermaid.includes("card --> failed: <b>FAIL</b>"));
+check("Nested by default, flat on request", analysis.mermaid.includes("state payment {") && !analyzeMachine(checkoutMachine, { nested: false }).mermaid.includes("state payment {"));
+
+const order = analyzeMachine(orderMachine, { events: ["SUBMIT", "CANCEL", "PAYMENT_SUCCESS", "PAYMENT_FAILED", "RETRY"] });
+check("Example machine: its two non-final ends", order.findings.map(finding => `${finding.kind}:${finding.states.join()}`).join() === "dead-end:completed,dead-end:cancelled");
+
+for (const [title, output] of [["checkout", analysis.mermaid], ["order", order.mermaid]] as const) {
+  try {
+    await mermaid.parse(output);
+    check(`${title} diagram parses as stateDiagram-v2`, true);
+  } catch (err) {
+    check(`${title} diagram parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`, false);
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL MACHINE ANALYSIS CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ MACHINE ANALYSIS CHECKS FAILED");
+  process.exit(1);
+}
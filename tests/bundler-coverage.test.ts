@@ -0,0 +1,154 @@
+#!/usr/bin/env npx tsx
+/**
+ * BUNDLER PLUGIN COVERAGE TEST
+ *
+ * Ensures the Vite/Rollup and esbuild plugins:
+ * 1. Recognise `?mermaid` imports and read options from the query
+ *    (nested, MermaidOptions, export=), ignoring parameters bundlers add
+ * 2. Resolve relative diagram imports next to the importer and others through
+ *    the bundler, keeping the query
+ * 3. Load them as `export default "<diagram>"` and watch the machine module
+ *    and the files it imports
+ * 4. Hot-update only the diagram imports whose diagram an edit changed
+ * 5. Name the import in errors
+ *
+ * The plugins only use a few hooks and context methods, so they are driven
+ * with hand-built contexts here.
+ */
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { parseMermaidImport, xstateMermaid, xstateMermaidEsbuild } from "../bundler.js";
+import { toMermaid, toMermaidNested } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const repoRoot = resolve(import.meta.dirname, "..");
+const workDir = mkdtempSync(join(tmpdir(), "xstate-mermaid-bundler-"));
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+const errorOf = async (run: () => unknown): Promise<string> => {
+  try {
+    await run();
+    return "";
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+const moduleOf = (diagram: string) => `export default ${JSON.stringify(diagram)};\n`;
+
+console.log("=== BUNDLER PLUGIN COVERAGE TEST ===\n");
+
+try {
+  const settings = { cacheDir: join(workDir, "cache"), onWarning: () => {} };
+  const orderFile = join(repoRoot, "examples/order-machine.ts");
+
+  console.log("--- Query ---\n");
+  const parsed = parseMermaidImport("/src/order.ts?mermaid&nested&includeMeta=false&maxDescriptionLength=40&title=Order%20flow&export=orderMachine&import&t=123");
+  check("File and export", parsed?.file === "/src/order.ts" && parsed.spec.exportName === "orderMachine");
+  check("Options typed from the query", parsed?.spec.nested === true && JSON.stringify(parsed.spec.options) === JSON.stringify({ includeMeta: false, maxDescriptionLength: 40, title: "Order flow" }));
+  check("Other imports ignored", parseMermaidImport("/src/order.ts") === undefined && parseMermaidImport("/src/order.ts?raw") === undefined && parseMermaidImport("/src/order.ts?mermaids") === undefined);
+  check("Unknown option rejected", await errorOf(() => parseMermaidImport("/a.ts?mermaid&colour=red")) === `unknown option "colour"`);
+
+  console.log("\n--- Vite / Rollup ---\n");
+  const plugin = xstateMermaid(settings);
+  const watched: string[] = [];
+  const context = {
+    resolve: async (source: string) => (source === "#machines/order" ? { id: orderFile } : null),
+    addWatchFile: (file: string) => { watched.push(file); },
+  };
+  const importer = join(repoRoot, "src/admin/page.ts");
+  const relativeId = await plugin.resolveId.call(context, "../../examples/order-machine.ts?mermaid&nested", importer);
+  check("Relative import resolved next to the importer", relativeId === `${orderFile}?mermaid&nested`);
+  check("Other specifiers resolved by the bundler", await plugin.resolveId.call(context, "#machines/order?mermaid", importer) === `${orderFile}?mermaid`);
+  check("Plain imports left to others", await plugin.resolveId.call(context, "./order.ts", importer) === null);
+
+  check("Loads the nested diagram as a string module", plugin.load.call(context, `${orderFile}?mermaid&nested`) === moduleOf(toMermaidNested(orderMachine)));
+  check("Query options reach the renderer", plugin.load.call(context, `${orderFile}?mermaid&includeGuards=false`) === moduleOf(toMermaid(orderMachine, { includeGuards: false })));
+  check("Machine module and its imports watched", watched.includes(orderFile) && watched.includes(join(repoRoot, "index.ts")));
+  check("Other ids not loaded", plugin.load.call(context, orderFile) === null);
+  check("Errors name the import", await errorOf(() => plugin.load.call(context, `${orderFile}?mermaid&export=nope`)) === `${orderFile}?mermaid&export=nope: ${orderFile} exports no machine "nope"`);
+
+  const lightFile = join(workDir, "light.ts");
+  const initialFile = join(workDir, "initial.ts");
+  const lightSource = (target: string, comment = "") => `import { createMachine } from "xstate";
+import { INITIAL } from "./initial.ts";
+${comment}
+export const light = createMachine({ id: "light", initial: INITIAL, states: { off: { on: { FLIP: "${target}" } }, on: {} } });
+`;
+  writeFileSync(initialFile, `export const INITIAL = "off";\n`);
+  writeFileSync(lightFile, lightSource("on"));
+  const machineModule = { id: lightFile };
+  const flatModule = { id: `${lightFile}?mermaid` };
+  const nestedModule = { id: `${lightFile}?mermaid&nested` };
+  plugin.load.call(context, flatModule.id);
+  plugin.load.call(context, nestedModule.id);
+  check("Imported constants file watched", watched.includes(lightFile) && watched.includes(initialFile));
+  const modules = [machineModule, flatModule, nestedModule];
+  check("Files without diagram imports left to Vite", plugin.handleHotUpdate({ modules: [machineModule] }) === undefined);
+
+  writeFileSync(lightFile, lightSource("on", "// a comment"));
+  const kept = plugin.handleHotUpdate({ modules });
+  check("Edit that keeps the diagram: diagram imports left out", kept?.length === 1 && kept[0] === machineModule);
+  writeFileSync(lightFile, lightSource("off"));
+  check("Edit that changes the diagram: diagram imports updated", plugin.handleHotUpdate({ modules })?.length === 3);
+  plugin.load.call(context, flatModule.id);
+  const partial = plugin.handleHotUpdate({ modules });
+  check("Only diagrams not yet served again are updated", partial?.length === 2 && partial.includes(nestedModule) && !partial.includes(flatModule));
+  plugin.load.call(context, nestedModule.id);
+  const initialModule = { id: initialFile };
+  writeFileSync(initialFile, `export const INITIAL = "on";\n`);
+  check("Edit to an imported constant: diagram imports updated", plugin.handleHotUpdate({ modules: [initialModule, flatModule, nestedModule] })?.length === 3);
+
+  console.log("\n--- esbuild ---\n");
+  type ResolveResult = { path: string; namespace: string } | { errors: Array<{ text: string }> } | undefined;
+  let onResolve: ((args: { path: string; resolveDir: string }) => Promise<ResolveResult>) | undefined;
+  let resolveFilter: RegExp | undefined;
+  let onLoad: ((args: { path: string }) => { contents: string; loader: "js"; watchFiles: string[] }) | undefined;
+  let loadNamespace = "";
+  xstateMermaidEsbuild(settings).setup({
+    resolve: async (path, options) => (path === "#machines/order" && options.kind === "import-statement"
+      ? { path: orderFile, errors: [] }
+      : { path: "", errors: [{ text: `Could not resolve "${path}"` }] }),
+    onResolve: (options, callback) => { resolveFilter = options.filter; onResolve = callback; },
+    onLoad: (options, callback) => { loadNamespace = options.namespace; onLoad = callback; },
+  });
+  check("Resolve filter matches diagram imports only", resolveFilter !== undefined &&
+    resolveFilter.test("./order.ts?mermaid") && resolveFilter.test("./order.ts?nested&mermaid") && resolveFilter.test("./order.ts?mermaid=1") &&
+    !resolveFilter.test("./order.ts") && !resolveFilter.test("./order.ts?raw") && !resolveFilter.test("./order.ts?mermaids"));
+  const resolved = await onResolve?.({ path: "./order-machine.ts?mermaid&nested", resolveDir: join(repoRoot, "examples") });
+  check("Resolved into the plugin namespace", resolved !== undefined && "path" in resolved &&
+    resolved.path === `${orderFile}?mermaid&nested` && resolved.namespace === loadNamespace);
+  const aliased = await onResolve?.({ path: "#machines/order?mermaid", resolveDir: join(repoRoot, "src") });
+  check("Other specifiers resolved by esbuild", aliased !== undefined && "path" in aliased && aliased.path === `${orderFile}?mermaid`);
+  const unresolved = await onResolve?.({ path: "missing-package?mermaid", resolveDir: repoRoot });
+  check("esbuild resolve errors passed on", unresolved !== undefined && "errors" in unresolved && unresolved.errors[0]?.text === `Could not resolve "missing-package"`);
+  const loaded = resolved && "path" in resolved ? onLoad?.({ path: resolved.path }) : undefined;
+  check("Loaded as a JS string module", loaded?.loader === "js" && loaded.contents === moduleOf(toMermaidNested(orderMachine)));
+  check("Machine module and its imports are watch files", loaded?.watchFiles.includes(orderFile) === true && loaded.watchFiles.includes(join(repoRoot, "index.ts")));
+  check("Imported constants file is a watch file", onLoad?.({ path: `${lightFile}?mermaid` }).watchFiles.includes(initialFile) === true);
+  check("Errors name the import", await errorOf(() => onLoad?.({ path: `${workDir}/missing.ts?mermaid` })) === `${workDir}/missing.ts?mermaid: cannot read ${workDir}/missing.ts`);
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL BUNDLER PLUGIN CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ BUNDLER PLUGIN CHECKS FAILED");
+  process.exit(1);
+}
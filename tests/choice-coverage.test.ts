@@ -0,0 +1,164 @@
+#!/usr/bin/env npx tsx
+/**
+ * GUARDED CHOICE COVERAGE TEST
+ *
+ * Ensures both renderers:
+ * 1. Keep every guarded candidate, including candidates that share a target
+ * 2. With guardedChoices, route events with guarded candidates through a
+ *    <<choice>> pseudo-state with numbered branches in priority order
+ * 3. Label the unguarded fallback "else" and drop unreachable candidates
+ * 4. Declare choices next to their source (inside compound blocks when nested)
+ * 5. Produce output Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE: form submission with prioritised guards
+// ============================================================================
+const formMachine = setup({
+  types: {
+    events: {} as { type: "SUBMIT" } | { type: "RETRY" } | { type: "SAVE" },
+  },
+  guards: {
+    isValid: () => false,
+    isDraft: () => false,
+    isAdmin: () => false,
+    isOnline: () => false,
+  },
+  actions: {
+    notify: () => {},
+  },
+}).createMachine({
+  id: "form",
+  initial: "editing",
+  states: {
+    editing: {
+      on: {
+        SUBMIT: [
+          { guard: "isValid", target: "submitted", actions: "notify" },
+          { guard: { type: "isDraft" }, target: "drafts" },
+          { target: "invalid" },
+          // Unreachable: the fallback above always wins
+          { target: "drafts" },
+        ],
+        // Two guarded candidates with the same target, no fallback
+        SAVE: [
+          { guard: "isAdmin", target: "drafts" },
+          { guard: "isOnline", target: "drafts" },
+        ],
+      },
+    },
+    invalid: {
+      on: { RETRY: "editing" },
+    },
+    drafts: {},
+    submitted: {
+      initial: "checking",
+      states: {
+        checking: {
+          always: [
+            { guard: "isOnline", target: "sent" },
+            { target: "#form.drafts" },
+          ],
+        },
+        sent: { type: "final" },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== GUARDED CHOICE COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+async function checkParses(title: string, output: string): Promise<void> {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as stateDiagram-v2`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+const defaultChecks = [
+  { name: "Candidates sharing a target are all drawn", pattern: /editing --> drafts: <b>SAVE<\/b> IF isAdmin[\s\S]*editing --> drafts: <b>SAVE<\/b> IF isOnline/ },
+  { name: "No choice pseudo-states by default", pattern: /<<choice>>/, absent: true },
+];
+
+const choiceChecks = [
+  { name: "SUBMIT choice declared", pattern: /^\s*state editing_SUBMIT_choice <<choice>>$/m },
+  { name: "Source enters the choice with the bare event", pattern: /^\s*editing --> editing_SUBMIT_choice: <b>SUBMIT<\/b>$/m },
+  { name: "First branch numbered with guard and actions", pattern: /editing_SUBMIT_choice --> submitted: \(1\) IF isValid<br\/><b>\[ϟ notify\]<\/b>/ },
+  { name: "Second branch numbered with object guard", pattern: /editing_SUBMIT_choice --> drafts: \(2\) IF isDraft$/m },
+  { name: "Fallback branch labelled else", pattern: /editing_SUBMIT_choice --> invalid: \(3\) else$/m },
+  { name: "Unreachable candidate after the fallback dropped", pattern: /\(4\)/, absent: true },
+  { name: "Guards sharing a target become separate branches", pattern: /editing_SAVE_choice --> drafts: \(1\) IF isAdmin[\s\S]*editing_SAVE_choice --> drafts: \(2\) IF isOnline/ },
+  { name: "No else branch without a fallback", pattern: /editing_SAVE_choice --> \w+: \(\d\) else/, absent: true },
+  { name: "Eventless candidates use an always choice", pattern: /checking --> checking_always_choice: <i>always<\/i>$/m },
+  { name: "Always choice branches", pattern: /checking_always_choice --> sent: \(1\) IF isOnline[\s\S]*checking_always_choice --> drafts: \(2\) else/ },
+  { name: "Guarded events no longer drawn directly", pattern: /editing --> (submitted|drafts|invalid):/, absent: true },
+  { name: "Single-candidate events unchanged", pattern: /invalid --> editing: <b>RETRY<\/b>$/m },
+];
+
+const flat = toMermaid(formMachine);
+const nested = toMermaidNested(formMachine);
+runChecks("toMermaid (default)", flat, defaultChecks);
+runChecks("toMermaidNested (default)", nested, defaultChecks);
+
+const flatChoices = toMermaid(formMachine, { guardedChoices: true });
+const nestedChoices = toMermaidNested(formMachine, { guardedChoices: true });
+runChecks("toMermaid (guardedChoices)", flatChoices, choiceChecks);
+runChecks("toMermaidNested (guardedChoices)", nestedChoices, [
+  ...choiceChecks,
+  // The choice sits in the compound block next to its source state
+  { name: "Nested choice declared inside its compound", pattern: /state submitted \{[\s\S]*\n {8}state checking_always_choice <<choice>>[\s\S]*\n {4}\}/ },
+  { name: "Branch leaving the compound drawn at top level", pattern: /^ {4}checking_always_choice --> drafts: \(2\) else$/m },
+]);
+
+runChecks("toMermaid (guardedChoices, no guards)", toMermaid(formMachine, { guardedChoices: true, includeGuards: false, includeActions: false }), [
+  { name: "Branches keep their priority number", pattern: /editing_SUBMIT_choice --> submitted: \(1\)$/m },
+  { name: "Fallback still labelled else", pattern: /editing_SUBMIT_choice --> invalid: \(3\) else$/m },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["toMermaid", flatChoices], ["toMermaidNested", nestedChoices]] as const) {
+  await checkParses(title, output);
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL CHOICE CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ CHOICE CHECKS FAILED");
+  process.exit(1);
+}
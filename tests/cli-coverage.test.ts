@@ -0,0 +1,285 @@
+#!/usr/bin/env npx tsx
+/**
+ * CLI COVERAGE TEST
+ *
+ * Runs the CLI entry point (main) against the example machine and ensures:
+ * 1. One diagram file is written per exported machine (mmd and md formats)
+ * 2. --nested selects toMermaidNested(), option flags reach the renderer
+ * 3. Config file defaults are applied and overridden by flags; unknown keys
+ *    and values the flags would reject are usage errors
+ * 4. --static extracts machines from the source without running modules
+ * 5. sync regenerates diagrams behind Markdown markers; --check fails on stale ones
+ *    (the README's own diagram included)
+ * 6. lint prints analyzeMachine() findings and fails on them; with --static it
+ *    checks declared events and setup() names, with --out it writes marked diagrams
+ * 7. Modules that fail to load or export no machine give a non-zero exit code
+ */
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative, resolve } from "node:path";
+import { loadConfig, main, parseArgs } from "../cli.js";
+import { analyzeMachine, TAG_STYLE_PRESETS, toMermaid, toMermaidNested } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const repoRoot = resolve(import.meta.dirname, "..");
+const workDir = mkdtempSync(join(tmpdir(), "xstate-mermaid-cli-"));
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) allPassed = false;
+}
+
+console.log("=== CLI COVERAGE TEST ===\n");
+
+try {
+  // --------------------------------------------------------------------------
+  // Flag parsing
+  // --------------------------------------------------------------------------
+  const parsed = parseArgs(["a.ts", "--no-guards", "--title=Orders", "--max-description-length", "40", "--nested"]);
+  check("Positional args become patterns", parsed.patterns.join(",") === "a.ts");
+  check("--no-guards sets includeGuards=false", parsed.config.options?.includeGuards === false);
+  check("--title=value sets title", parsed.config.options?.title === "Orders");
+  check("--max-description-length parses a number", parsed.config.options?.maxDescriptionLength === 40);
+  check("--nested selects nested renderer", parsed.config.nested === true);
+  check("--no-nested overrides a nested config", parseArgs(["a.ts", "--no-nested"]).config.nested === false);
+  check("--direction and --state-ids take their values", JSON.stringify(parseArgs(["a.ts", "--direction", "LR", "--state-ids=path"]).config.options) ===
+    JSON.stringify({ direction: "LR", stateIds: "path" }));
+  const flagError = (argv: string[]): string => {
+    try {
+      parseArgs(argv);
+      return "";
+    } catch (err) {
+      return (err as Error).message;
+    }
+  };
+  check("Unknown --direction named", flagError(["a.ts", "--direction", "up"]) === `Invalid --direction "up" (expected TB, LR, BT or RL)`);
+  check("Unknown --state-ids named", flagError(["a.ts", "--state-ids=short"]) === `Invalid --state-ids "short" (expected auto or path)`);
+  check(
+    "--state-directions takes JSON, checked like the config file",
+    JSON.stringify(parseArgs(["a.ts", "--state-directions", `{"processing":"LR"}`]).config.options?.stateDirections) === `{"processing":"LR"}` &&
+      flagError(["a.ts", `--state-directions={"processing":"up"}`]) ===
+        `Invalid --state-directions: "options.stateDirections" expects an object of state ids to TB, LR, BT or RL`
+  );
+  const tags = parseArgs(["--tags", "unstyled", "a.ts", "--tags"]);
+  check(
+    "--tags takes unstyled",
+    parseArgs(["a.ts", "--tags=unstyled"]).config.options?.includeTags === "unstyled" &&
+      parseArgs(["--tags", "unstyled", "a.ts"]).config.options?.includeTags === "unstyled" &&
+      tags.patterns.join() === "a.ts" && tags.config.options?.includeTags === true &&
+      flagError(["a.ts", "--tags=bold"]) === `Invalid --tags "bold" (expected unstyled)`
+  );
+  check(
+    "--tag-styles takes preset names or JSON",
+    JSON.stringify(parseArgs(["a.ts", "--tag-styles", "loading,error"]).config.options?.tagStyles) ===
+      JSON.stringify({ error: TAG_STYLE_PRESETS.error, loading: TAG_STYLE_PRESETS.loading }) &&
+      JSON.stringify(parseArgs(["a.ts", `--tag-styles={"draft":"fill:#eee"}`]).config.options?.tagStyles) === `{"draft":"fill:#eee"}` &&
+      flagError(["a.ts", "--tag-styles", "error,draft"]) === `Invalid --tag-styles "draft" (expected JSON or error, success or loading)` &&
+      flagError(["a.ts", `--tag-styles={"draft":1}`]) === `Invalid --tag-styles: "options.tagStyles" expects an object of class names to classDef styles`
+  );
+  check(
+    "--mermaid-config takes a JSON object",
+    JSON.stringify(parseArgs(["a.ts", `--mermaid-config={"look":"handDrawn"}`]).config.options?.mermaidConfig) === `{"look":"handDrawn"}` &&
+      flagError(["a.ts", "--mermaid-config", "[1]"]) === `Invalid --mermaid-config: "options.mermaidConfig" expects an object` &&
+      flagError(["a.ts", "--mermaid-config", "{look}"]).startsWith("Invalid --mermaid-config: ")
+  );
+
+  // --------------------------------------------------------------------------
+  // Writing diagrams
+  // --------------------------------------------------------------------------
+  const flatOut = join(workDir, "flat");
+  const flatCode = await main(["examples/*.ts", "--out", flatOut], repoRoot);
+  const flatFile = join(flatOut, "orderMachine.mmd");
+  check("Glob input exits 0", flatCode === 0);
+  check("Writes <exportName>.mmd", existsSync(flatFile));
+  check(
+    "Flat output matches toMermaid()",
+    existsSync(flatFile) && readFileSync(flatFile, "utf8") === `${toMermaid(orderMachine)}\n`
+  );
+
+  const nestedOut = join(workDir, "nested");
+  const nestedCode = await main(
+    ["examples/order-machine.ts", "--out", nestedOut, "--nested", "--format", "md", "--no-meta"],
+    repoRoot
+  );
+  const nestedFile = join(nestedOut, "orderMachine.md");
+  const nestedContent = existsSync(nestedFile) ? readFileSync(nestedFile, "utf8") : "";
+  check("--nested --format md exits 0", nestedCode === 0);
+  check(
+    "Markdown wraps toMermaidNested() output in a mermaid fence",
+    nestedContent.includes(`\`\`\`mermaid\n${toMermaidNested(orderMachine, { includeMeta: false })}\n\`\`\``)
+  );
+
+  // --------------------------------------------------------------------------
+  // Config file defaults
+  // --------------------------------------------------------------------------
+  const configOut = join(workDir, "config");
+  const configPath = join(workDir, "config.json");
+  writeFileSync(
+    configPath,
+    JSON.stringify({ out: configOut, options: { includeGuards: false, includeActions: false } })
+  );
+  const configCode = await main(
+    ["examples/order-machine.ts", "--config", configPath, "--actions"],
+    repoRoot
+  );
+  const configFile = join(configOut, "orderMachine.mmd");
+  check("Config file run exits 0", configCode === 0);
+  check(
+    "Config defaults apply and flags override them",
+    existsSync(configFile) &&
+      readFileSync(configFile, "utf8") ===
+        `${toMermaid(orderMachine, { includeGuards: false, includeActions: true })}\n`
+  );
+
+  const configError = (config: unknown): string => {
+    writeFileSync(configPath, JSON.stringify(config));
+    try {
+      loadConfig(configPath, workDir);
+      return "";
+    } catch (err) {
+      return (err as Error).message;
+    }
+  };
+  check(
+    "Config options beyond the flags accepted",
+    configError({ nested: true, options: { includeTags: "unstyled", expandInvokedMachines: 2, tagStyles: { error: "fill:red" } } }) === ""
+  );
+  check(
+    "Unknown config keys reported",
+    configError({ outDir: "docs", options: { guards: false } }) ===
+      `Invalid config file config.json: unknown key "outDir"; unknown option "options.guards"`
+  );
+  check(
+    "Config values checked like flags",
+    configError({ nested: "yes", format: "svg", options: { maxDescriptionLength: "40", includeTags: 1, direction: "up" } }) ===
+      `Invalid config file config.json: "nested" expects true or false; invalid "format" "svg" (expected mmd or md); ` +
+        `"options.maxDescriptionLength" expects a number; "options.includeTags" expects true, false or "unstyled"; ` +
+        `invalid "options.direction" "up" (expected TB, LR, BT or RL)`
+  );
+  check("Invalid config file exits 2", (await main(["examples/order-machine.ts", "--config", configPath], repoRoot)) === 2);
+
+  // --------------------------------------------------------------------------
+  // Static extraction
+  // --------------------------------------------------------------------------
+  const staticOut = join(workDir, "static");
+  const staticCode = await main(["examples/order-machine.ts", "--static", "--out", staticOut], repoRoot);
+  const staticFile = join(staticOut, "orderMachine.mmd");
+  check("--static exits 0", staticCode === 0);
+  check(
+    "--static output matches the imported machine",
+    existsSync(staticFile) && readFileSync(staticFile, "utf8") === `${toMermaid(orderMachine)}\n`
+  );
+
+  const sideEffects = join(workDir, "side-effects.ts");
+  writeFileSync(
+    sideEffects,
+    'import { createMachine } from "xstate";\n' +
+      'export const light = createMachine({ initial: "off", context: () => ({}), states: { off: {} } });\n' +
+      'throw new Error("boom");\n'
+  );
+  check("--static never runs the module", (await main([sideEffects, "--static", "--out", staticOut], repoRoot)) === 0);
+  check("--static writes the extracted machine", existsSync(join(staticOut, "light.mmd")));
+
+  // --------------------------------------------------------------------------
+  // Markdown sync
+  // --------------------------------------------------------------------------
+  const doc = join(workDir, "doc.md");
+  const example = relative(workDir, join(repoRoot, "examples/order-machine.ts"));
+  const stale = `# Orders\n\n<!-- xstate-mermaid: ${example}#orderMachine nested includeMeta=false -->\n\`\`\`mermaid\nstateDiagram-v2\n\`\`\`\n`;
+  writeFileSync(doc, stale);
+  check("sync --check exits 1 on a stale diagram", (await main(["sync", doc, "--check"], repoRoot)) === 1);
+  check("sync --check leaves the file alone", readFileSync(doc, "utf8") === stale);
+  check("sync exits 0", (await main(["sync", doc], repoRoot)) === 0);
+  check(
+    "sync writes the diagram into the fence",
+    readFileSync(doc, "utf8").includes(`\`\`\`mermaid\n${toMermaidNested(orderMachine, { includeMeta: false })}\n\`\`\`\n`)
+  );
+  check("sync --check exits 0 once in sync", (await main(["sync", doc, "--check"], repoRoot)) === 0);
+  check("README diagrams are in sync", (await main(["sync", "README.md", "--check"], repoRoot)) === 0);
+
+  const unknownExport = `<!-- xstate-mermaid: ${example}#missingMachine -->\n`;
+  writeFileSync(doc, unknownExport);
+  check("Unknown export exits 1", (await main(["sync", doc], repoRoot)) === 1);
+  check("File with errors is not written", readFileSync(doc, "utf8") === unknownExport);
+  check("--check without sync exits 2", (await main(["examples/order-machine.ts", "--check"], repoRoot)) === 2);
+
+  // --------------------------------------------------------------------------
+  // Lint
+  // --------------------------------------------------------------------------
+  const printed = async (argv: string[]) => {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => { lines.push(args.join(" ")); };
+    try {
+      return { code: await main(argv, repoRoot), lines };
+    } finally {
+      console.log = log;
+    }
+  };
+  const lint = await printed(["lint", "examples/order-machine.ts"]);
+  check("lint exits 1 on findings", lint.code === 1);
+  check(
+    "lint prints one line per finding",
+    lint.lines.join("\n") === [
+      `examples/order-machine.ts#orderMachine: dead-end: State "completed" is not final, but no transition leaves it`,
+      `examples/order-machine.ts#orderMachine: dead-end: State "cancelled" is not final, but no transition leaves it`,
+    ].join("\n")
+  );
+
+  const lintOut = join(workDir, "lint");
+  await printed(["lint", "examples/order-machine.ts", "--out", lintOut]);
+  const lintFile = join(lintOut, "orderMachine.mmd");
+  check(
+    "lint --out writes the marked diagram",
+    existsSync(lintFile) && readFileSync(lintFile, "utf8") === `${analyzeMachine(orderMachine, { nested: false }).mermaid}\n`
+  );
+
+  const declared = join(workDir, "declared.ts");
+  writeFileSync(
+    declared,
+    'import { setup } from "xstate";\n' +
+      'export const toggle = setup({ types: { events: {} as { type: "FLIP" } | { type: "RESET" } }, actions: { log: () => {} } }).createMachine({\n' +
+      '  initial: "off", states: { off: { on: { FLIP: "on" } }, on: { entry: ["log", "beep"], on: { FLIP: "off" } } },\n' +
+      "});\n"
+  );
+  const lintStatic = await printed(["lint", declared, "--static"]);
+  check(
+    "lint --static checks declared events and setup() names",
+    lintStatic.code === 1 &&
+      lintStatic.lines.some(line => line.endsWith(`unused-event: Event "RESET" is declared, but no state handles it`)) &&
+      lintStatic.lines.some(line => line.endsWith(`missing-implementation: Action "beep" is missing from setup (used by "on")`)) &&
+      lintStatic.lines.length === 2
+  );
+  writeFileSync(declared, readFileSync(declared, "utf8").replace(`{ type: "RESET" }`, `{ type: "FLIP" }`).replace(`, "beep"`, ""));
+  check("lint exits 0 without findings", (await printed(["lint", declared, "--static"])).code === 0);
+
+  // --------------------------------------------------------------------------
+  // Failures
+  // --------------------------------------------------------------------------
+  const noMachine = join(workDir, "no-machine.mjs");
+  writeFileSync(noMachine, "export const notAMachine = 42;\n");
+  check("Module without machines exits 1", (await main([noMachine, "--out", workDir], repoRoot)) === 1);
+
+  const broken = join(workDir, "broken.mjs");
+  writeFileSync(broken, "throw new Error('boom');\n");
+  check("Module that throws on load exits 1", (await main([broken, "--out", workDir], repoRoot)) === 1);
+
+  check("Missing file exits 1", (await main(["does-not-exist.ts"], repoRoot)) === 1);
+  check("Unknown flag exits 2", (await main(["examples/order-machine.ts", "--bogus"], repoRoot)) === 2);
+  check("Invalid --direction exits 2", (await main(["examples/order-machine.ts", "--direction", "up"], repoRoot)) === 2);
+  check("No input files exits 2", (await main([], repoRoot)) === 2);
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+console.log("\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL CLI CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ CLI CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,176 @@
+#!/usr/bin/env npx tsx
+/**
+ * DIFF COVERAGE TEST
+ *
+ * Ensures diffMachines():
+ * 1. Reports added, removed and modified states by path, with what changed
+ *    (type, initial state, description, tags, entry/exit actions, invokes)
+ * 2. Matches transitions by source, event and target and reports guard and
+ *    action changes
+ * 3. Draws the union of both versions, colouring states through classDef and
+ *    transition labels, with removed states back in their old block
+ * 4. Keeps removed states apart from new states that took their id
+ * 5. Summarises the change set as Markdown tables
+ * 6. Produces output Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { createMachine } from "xstate";
+import { DIFF_STATE_STYLES, diffMachines, toMermaidNested } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINES: two versions of a checkout
+// ============================================================================
+const before = createMachine({
+  id: "checkout",
+  initial: "cart",
+  states: {
+    cart: {
+      tags: ["editable"],
+      on: {
+        PAY: { target: "payment", guard: "hasItems" },
+        CANCEL: "cancelled",
+      },
+    },
+    payment: {
+      initial: "card",
+      invoke: { src: "gateway" },
+      states: {
+        card: { on: { NEXT: "confirm" } },
+        confirm: {},
+      },
+      on: { DONE: "complete" },
+    },
+    cancelled: { type: "final" },
+    complete: { type: "final" },
+  },
+});
+
+const after = createMachine({
+  id: "checkout",
+  initial: "cart",
+  states: {
+    cart: {
+      tags: ["editable", "draft"],
+      entry: "trackView",
+      on: {
+        PAY: { target: "payment", guard: "isReady", actions: "lockCart" },
+      },
+    },
+    payment: {
+      initial: "wallet",
+      invoke: { src: "gateway" },
+      states: {
+        card: { on: { NEXT: "review" } },
+        wallet: {},
+        review: {},
+      },
+      on: { DONE: "complete" },
+    },
+    confirm: { description: "Top-level now" },
+    complete: { type: "final" },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== DIFF COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+const diff = diffMachines(before, after);
+const stateOf = (path: string) => diff.states.find(state => state.path === path);
+const transitionOf = (source: string, event: string, target: string) =>
+  diff.transitions.find(transition => transition.source === source && transition.event === event && transition.target === target);
+
+console.log("--- States ---\n");
+check("Added states by path", stateOf("payment.wallet")?.kind === "added" && stateOf("payment.review")?.kind === "added" && stateOf("confirm")?.kind === "added");
+check("Removed states by path", stateOf("payment.confirm")?.kind === "removed" && stateOf("cancelled")?.kind === "removed");
+check("Tags and entry actions changed", JSON.stringify(stateOf("cart")) === JSON.stringify({
+  kind: "modified",
+  path: "cart",
+  changes: { tags: { added: ["draft"], removed: [] }, entry: { added: ["trackView"], removed: [] } },
+}));
+check("Initial state changed", JSON.stringify(stateOf("payment")?.changes) === JSON.stringify({ initial: { before: "payment.card", after: "payment.wallet" } }));
+check("Unchanged states left out", stateOf("payment.card") === undefined && stateOf("complete") === undefined && stateOf("") === undefined);
+check("Document order of the union diagram", diff.states.map(state => state.path).join() === "cart,payment,payment.confirm,payment.wallet,payment.review,cancelled,confirm");
+
+const typed = diffMachines(
+  createMachine({ id: "m", initial: "a", states: { a: { exit: "log" }, b: { invoke: { src: "poll" } } } }),
+  createMachine({ id: "m", initial: "a", states: { a: { type: "final", description: "Done" }, b: { invoke: { src: "push" } } } })
+);
+check("Type, description and exit actions changed", JSON.stringify(typed.states[0]) === JSON.stringify({
+  kind: "modified",
+  path: "a",
+  changes: { type: { before: "atomic", after: "final" }, description: { after: "Done" }, exit: { added: [], removed: ["log"] } },
+}));
+check("Invokes changed by src", JSON.stringify(typed.states[1]?.changes) === JSON.stringify({ invokes: { added: ["push"], removed: ["poll"] } }));
+
+console.log("\n--- Transitions ---\n");
+check("Guard and actions changed", JSON.stringify(transitionOf("cart", "PAY", "payment")) === JSON.stringify({
+  kind: "modified",
+  source: "cart",
+  target: "payment",
+  event: "PAY",
+  guard: "isReady",
+  actions: ["lockCart"],
+  changes: { guard: { before: "hasItems", after: "isReady" }, actions: { added: ["lockCart"], removed: [] } },
+}));
+check("Retargeted transition is removed and added", transitionOf("payment.card", "NEXT", "payment.confirm")?.kind === "removed" && transitionOf("payment.card", "NEXT", "payment.review")?.kind === "added");
+check("Removed transition", transitionOf("cart", "CANCEL", "cancelled")?.kind === "removed");
+check("Unchanged transitions left out", transitionOf("payment", "DONE", "complete") === undefined);
+check("New version first, then the removed ones", diff.transitions.map(transition => transition.kind).join() === "modified,added,removed,removed");
+
+const same = diffMachines(orderMachine, orderMachine);
+check("No changes against itself", same.states.length === 0 && same.transitions.length === 0);
+check("Unchanged diagram is the nested one", same.mermaid === toMermaidNested(orderMachine));
+
+console.log("\n--- Union diagram ---\n");
+check("Removed state kept in its old block", /state payment \{\n(?:.*\n)*? {8}state "confirm" as confirm_2\n(?:.*\n)*? {4}\}/.test(diff.mermaid));
+check("New state keeps the id a removed one had", diff.mermaid.includes(`    confirm: <b>confirm</b><br/>━━━━━━━━━━━━━━<br/><sup><b>Top-level now</b></sup>`));
+check("Classes per kind", diff.mermaid.includes(`classDef added ${DIFF_STATE_STYLES.added}`) && diff.mermaid.includes("class wallet,review,confirm added") && diff.mermaid.includes("class confirm_2,cancelled removed") && diff.mermaid.includes("class cart,payment modified"));
+check("Added transition in green", diff.mermaid.includes("card --> review: <span style='color:#16a34a'><b>NEXT</b></span>"));
+check("Removed transition struck through in red", diff.mermaid.includes("card --> confirm_2: <span style='color:#dc2626'><s><b>NEXT</b></s></span>") && diff.mermaid.includes("cart --> cancelled: <span style='color:#dc2626'><s><b>CANCEL</b></s></span>"));
+check("Modified transition in amber", diff.mermaid.includes("cart --> payment: <span style='color:#d97706'><b>PAY</b> IF isReady<br/><b>[ϟ lockCart]</b></span>"));
+check("Unchanged transition as drawn by toMermaidNested", diff.mermaid.includes("payment --> complete: <b>DONE</b>\n"));
+
+console.log("\n--- Markdown ---\n");
+check("Heading with counts", diff.markdown.startsWith("### `checkout`: 7 states, 4 transitions changed\n"));
+check("State rows", diff.markdown.includes("| `cart` | modified: tags +`draft`; entry +`trackView` |") && diff.markdown.includes("| `payment` | modified: initial `payment.card` → `payment.wallet` |") && diff.markdown.includes("| `cancelled` | removed |"));
+check("Transition rows", diff.markdown.includes("| `cart` | `PAY` | `payment` | modified: guard `hasItems` → `isReady`; actions +`lockCart` |") && diff.markdown.includes("| `payment.card` | `NEXT` | `payment.review` | added |"));
+check("No changes", same.markdown === "### `order`: no changes\n");
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["checkout diff", diff.mermaid], ["type diff", typed.mermaid]] as const) {
+  try {
+    await mermaid.parse(output);
+    check(`${title} parses as stateDiagram-v2`, true);
+  } catch (err) {
+    check(`${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`, false);
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL DIFF CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ DIFF CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,153 @@
+#!/usr/bin/env npx tsx
+/**
+ * DOCS PLUGIN COVERAGE TEST
+ *
+ * Ensures the remark and markdown-it plugins:
+ * 1. Replace ```xstate fences with ```mermaid fences holding the diagram of the
+ *    named export, resolving the module relative to the Markdown file
+ * 2. Apply plugin defaults and fence options (nested, MermaidOptions)
+ * 3. Report fences that cannot be rendered with the Markdown file and line
+ * 4. Cache diagrams by the sources extraction read: unchanged modules are not
+ *    extracted again, edited ones (or files they import) are, and rendered
+ *    diagrams land in the cache directory
+ *
+ * The plugins only touch a few fields of mdast nodes and markdown-it tokens,
+ * so both are driven with hand-built trees and token streams here.
+ */
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import {
+  DiagramFenceError,
+  markdownItXStateMermaid,
+  remarkXStateMermaid,
+  renderDiagramFence,
+  type DiagramFenceOptions,
+} from "../docs.js";
+import { toMermaid, toMermaidNested } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const repoRoot = resolve(import.meta.dirname, "..");
+const workDir = mkdtempSync(join(tmpdir(), "xstate-mermaid-docs-"));
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+const errorOf = (run: () => unknown): Error | undefined => {
+  try {
+    run();
+    return undefined;
+  } catch (error) {
+    return error as Error;
+  }
+};
+
+console.log("=== DOCS PLUGIN COVERAGE TEST ===\n");
+
+try {
+  const cacheDir = join(workDir, "cache");
+  const settings: DiagramFenceOptions = { cacheDir, onWarning: () => {} };
+  const docPath = join(repoRoot, "docs", "orders.md");
+
+  console.log("--- remark ---\n");
+  const tree = {
+    type: "root",
+    children: [
+      { type: "code", lang: "xstate", meta: null, value: "../examples/order-machine.ts#orderMachine nested", position: { start: { line: 3 } } },
+      { type: "blockquote", children: [{ type: "code", lang: "xstate", meta: "title", value: "../examples/order-machine.ts includeMeta=false", position: { start: { line: 9 } } }] },
+      { type: "code", lang: "ts", meta: null, value: "const a = 1;", position: { start: { line: 14 } } },
+    ],
+  };
+  remarkXStateMermaid(settings)(tree, { path: docPath });
+  const [nestedNode, quote, tsNode] = tree.children;
+  check("Fence becomes a mermaid fence", nestedNode?.lang === "mermaid" && nestedNode.meta === null);
+  check("Diagram of the named export, nested", nestedNode?.value === toMermaidNested(orderMachine));
+  check("Nested fences found, options applied, only export picked", quote?.children?.[0]?.value === toMermaid(orderMachine, { includeMeta: false }));
+  check("Other code left alone", tsNode?.lang === "ts" && tsNode.value === "const a = 1;");
+
+  const defaults = { type: "root", children: [{ type: "code", lang: "xstate", value: "../examples/order-machine.ts nested=false", position: { start: { line: 1 } } }] };
+  remarkXStateMermaid({ ...settings, nested: true, options: { includeGuards: false } })(defaults, { path: docPath });
+  check("Plugin defaults, overridden by the fence", defaults.children[0]?.value === toMermaid(orderMachine, { includeGuards: false }));
+
+  console.log("\n--- markdown-it ---\n");
+  let rule: ((state: { tokens: Array<{ type: string; info: string; content: string; map: [number, number] | null }>; env: unknown }) => void) | undefined;
+  markdownItXStateMermaid({ core: { ruler: { push: (_name, push) => { rule = push; } } } }, settings);
+  const tokens = [
+    { type: "paragraph_open", info: "", content: "", map: [0, 1] as [number, number] },
+    { type: "fence", info: "xstate", content: "../examples/order-machine.ts#orderMachine\n  title=\"Orders\"\n", map: [4, 8] as [number, number] },
+    { type: "fence", info: "mermaid", content: "stateDiagram-v2\n", map: [9, 12] as [number, number] },
+  ];
+  rule?.({ tokens, env: { path: docPath } });
+  check("Core rule registered", rule !== undefined);
+  check("Fence token rewritten, options over several lines", tokens[1]?.info === "mermaid" && tokens[1].content === `${toMermaid(orderMachine, { title: "Orders" })}\n`);
+  check("Mermaid fence left alone", tokens[2]?.content === "stateDiagram-v2\n");
+
+  const cwdTokens = [{ type: "fence", info: "xstate", content: "examples/order-machine.ts", map: [0, 3] as [number, number] }];
+  rule?.({ tokens: cwdTokens, env: {} });
+  check("Paths relative to cwd without env.path", cwdTokens[0]?.content === `${toMermaid(orderMachine)}\n`);
+
+  console.log("\n--- Errors ---\n");
+  const unknownOption = errorOf(() => renderDiagramFence("../examples/order-machine.ts colour=red", { file: docPath, line: 12 }, settings));
+  check("Error names the Markdown file and line", unknownOption instanceof DiagramFenceError && unknownOption.message === `${docPath}:12: unknown option "colour"`);
+  const missingExport = errorOf(() => remarkXStateMermaid(settings)(
+    { type: "root", children: [{ type: "code", lang: "xstate", value: "../examples/order-machine.ts#nope", position: { start: { line: 7 } } }] },
+    { path: docPath }
+  ));
+  check("Missing export", missingExport?.message === `${docPath}:7: ../examples/order-machine.ts exports no machine "nope"`);
+  const missingModule = errorOf(() => rule?.({ tokens: [{ type: "fence", info: "xstate", content: "missing.ts", map: [20, 22] }], env: { path: docPath } }));
+  check("Missing module, line from the token map", missingModule?.message === `${docPath}:21: cannot read missing.ts`);
+
+  console.log("\n--- Cache ---\n");
+  const modulePath = join(workDir, "light.ts");
+  const lightSource = (final: string) => `import { createMachine } from "xstate";
+export const light = createMachine({ id: "light", context: () => ({}), initial: "off", states: { off: { on: { FLIP: "${final}" } }, on: {} } });
+`;
+  writeFileSync(modulePath, lightSource("on"));
+  const warnings: string[] = [];
+  const counting: DiagramFenceOptions = { cacheDir, onWarning: message => warnings.push(message) };
+  const first = renderDiagramFence("light.ts", { line: 1 }, { ...counting, cwd: workDir });
+  check("Extraction diagnostics reach onWarning", warnings.length === 1 && warnings[0]?.startsWith(`warning: ${modulePath}:2:`) === true);
+  const second = renderDiagramFence("light.ts", { line: 1 }, { ...counting, cwd: workDir });
+  check("Unchanged module served from the cache", second === first && warnings.length === 1);
+  check("Diagram written to the cache directory", readdirSync(cacheDir).some(name => readFileSync(join(cacheDir, name), "utf8") === first));
+
+  writeFileSync(modulePath, lightSource("off"));
+  const edited = renderDiagramFence("light.ts", { line: 1 }, { ...counting, cwd: workDir });
+  check("Edited module rendered again", edited !== first && edited.includes("off --> off") && warnings.length === 2);
+
+  const targetsPath = join(workDir, "targets.ts");
+  writeFileSync(targetsPath, `export const TARGET = "on";\n`);
+  writeFileSync(join(workDir, "imported.ts"), `import { createMachine } from "xstate";
+import { TARGET } from "./targets";
+export const light = createMachine({ id: "light", initial: "off", states: { off: { on: { FLIP: TARGET } }, on: {} } });
+`);
+  const importing = renderDiagramFence("imported.ts", { line: 1 }, { ...counting, cwd: workDir });
+  writeFileSync(targetsPath, `export const TARGET = "off";\n`);
+  const importEdited = renderDiagramFence("imported.ts", { line: 1 }, { ...counting, cwd: workDir });
+  check("Edited imported constant rendered again", importing.includes("off --> on") && importEdited.includes("off --> off"));
+
+  const cachedFiles = readdirSync(cacheDir).length;
+  const uncached = renderDiagramFence("light.ts nested", { line: 1 }, { cwd: workDir, cacheDir: false, onWarning: () => {} });
+  check("cacheDir: false writes nothing", uncached.includes("off --> off") && readdirSync(cacheDir).length === cachedFiles);
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL DOCS PLUGIN CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ DOCS PLUGIN CHECKS FAILED");
+  process.exit(1);
+}
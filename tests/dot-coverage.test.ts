@@ -0,0 +1,174 @@
+#!/usr/bin/env npx tsx
+/**
+ * GRAPHVIZ DOT COVERAGE TEST
+ *
+ * Ensures toDot():
+ * 1. Draws compound and parallel states as clusters (parallel regions dashed)
+ * 2. Adds initial and final markers per cluster and history / choice nodes
+ * 3. Carries the state label sections as HTML-like labels, escaped for Graphviz
+ * 4. Attaches edges to cluster borders (lhead / ltail) through an invisible anchor
+ * 5. Honours the MermaidOptions flags, translating tagStyles to Graphviz attributes
+ * 6. Produces output Graphviz lays out without errors
+ */
+import { Graphviz } from "@hpcc-js/wasm-graphviz";
+import { createMachine, setup } from "xstate";
+import { TAG_STYLE_PRESETS, toDot } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const graphviz = await Graphviz.load();
+
+// ============================================================================
+// TEST MACHINE: clusters, history, choices, keyword ids and hostile text
+// ============================================================================
+const courier = createMachine({
+  id: "courier",
+  initial: "driving",
+  states: {
+    driving: { on: { ARRIVE: "delivered" } },
+    delivered: { type: "final" },
+  },
+});
+
+const checkoutMachine = setup({
+  actors: { courier },
+  guards: { isValid: () => true },
+  actions: { saveCart: () => {}, notify: () => {} },
+}).createMachine({
+  id: "checkout",
+  initial: "editing",
+  states: {
+    editing: {
+      description: 'Cart <open> & "ready"',
+      tags: ["error", "INV:cart_saved"],
+      meta: { owner: "shop" },
+      entry: "saveCart",
+      on: {
+        SUBMIT: [
+          { guard: "isValid", target: "fulfilment", actions: "notify" },
+          { target: "done" },
+        ],
+      },
+    },
+    fulfilment: {
+      type: "parallel",
+      states: {
+        shipping: {
+          initial: "packing",
+          states: {
+            packing: { on: { SHIP: "shipped" } },
+            shipped: { invoke: { id: "courier", src: "courier" } },
+            resume: { type: "history", history: "deep" },
+          },
+        },
+        invoicing: {},
+      },
+      on: { DONE: "done" },
+    },
+    // Graphviz keyword
+    node: { on: { RESUME: "fulfilment.shipping.resume" } },
+    done: { type: "final" },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== GRAPHVIZ DOT COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated DOT:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const defaults = toDot(checkoutMachine);
+runChecks("Defaults", defaults, [
+  { name: "Digraph named by machine id", pattern: /^digraph "checkout" \{\n {4}compound=true;\n/ },
+  { name: "Default node style", pattern: /^ {4}node \[shape=box, style=rounded, fontname="Helvetica", fontsize=11\];$/m },
+  { name: "Initial marker", pattern: /^ {4}checkout_start \[shape=point, width=0\.15\];$/m },
+  { name: "Final marker", pattern: /^ {4}checkout_end \[shape=point, width=0\.15, peripheries=2\];$/m },
+  { name: "Final state leads to the marker", pattern: /^ {4}done -> checkout_end;$/m },
+  { name: "HTML-like label sections", pattern: /^ {4}editing \[label=<<B>editing<\/B><BR\/>━+<BR\/><SUP>\(error\) \(Invariant:cart_saved\)<\/SUP><BR\/><SUP><B>Cart &lt;open&gt; &amp; &quot;ready&quot;<\/B><\/SUP><BR\/><I>owner<\/I> - shop<BR\/>────────<BR\/>Entry actions<BR\/><B>\[ϟ saveCart\]<\/B>>\];$/m },
+  { name: "Parallel state as cluster", pattern: /^ {4}subgraph cluster_fulfilment \{\n {8}label=<fulfilment>;\n {8}style="rounded";$/m },
+  { name: "Invisible anchor inside the cluster", pattern: /^ {8}fulfilment \[shape=point, style=invis, width=0, height=0, label=""\];$/m },
+  { name: "Compound region dashed", pattern: /^ {8}subgraph cluster_shipping \{\n {12}label=<shipping>;\n {12}style="rounded,dashed";$/m },
+  { name: "Atomic region dashed", pattern: /^ {8}invoicing \[label=<invoicing>, style="rounded,dashed"\];$/m },
+  { name: "Atomic region entered from the parallel marker", pattern: /^ {4}fulfilment_start -> invoicing;$/m },
+  { name: "History node", pattern: /^ {12}resume \[shape=circle, label="H\*"\];$/m },
+  { name: "History default edge", pattern: /^ {4}resume -> packing;$/m },
+  { name: "Keyword id quoted", pattern: /^ {4}"node" \[label=<node>\];$/m },
+  { name: "Edge into a cluster", pattern: /^ {4}editing -> fulfilment \[label=<<B>SUBMIT<\/B> IF isValid<BR\/><B>\[ϟ notify\]<\/B>>, lhead=cluster_fulfilment\];$/m },
+  { name: "Edge out of a cluster", pattern: /^ {4}fulfilment -> done \[label=<<B>DONE<\/B>>, ltail=cluster_fulfilment\];$/m },
+  { name: "Edge between states of one cluster", pattern: /^ {4}packing -> shipped \[label=<<B>SHIP<\/B>>\];$/m },
+  { name: "No Mermaid markup", pattern: /<b>|<br\/>|#lt;|∶/, absent: true },
+]);
+
+const tuned = toDot(checkoutMachine, {
+  title: "Checkout & co",
+  direction: "LR",
+  guardedChoices: true,
+  includeGuards: false,
+  includeEntryActions: false,
+  includeMeta: false,
+  includeTags: "unstyled",
+  tagStyles: { ...TAG_STYLE_PRESETS, wide: { style: "stroke-width:3px,stroke:rgb(0,0,255)", match: state => state.type === "parallel" } },
+  stateIds: "path",
+  maxDescriptionLength: 8,
+  expandInvokedMachines: true,
+});
+runChecks("Options", tuned, [
+  { name: "Graph title escaped", pattern: /^ {4}label=<Checkout &amp; co>;\n {4}labelloc=t;$/m },
+  { name: "Direction as rankdir", pattern: /^ {4}rankdir=LR;$/m },
+  { name: "Tag style translated", pattern: /^ {4}editing \[label=<[^\n]*>, style="rounded,filled", fillcolor="#fee2e2", color="#dc2626", fontcolor="#991b1b"\];$/m },
+  { name: "Rule style on a cluster", pattern: /^ {8}style="rounded";\n {8}penwidth=3;\n {8}color="rgb\(0,0,255\)";$/m },
+  { name: "Styled tag hidden, others kept", pattern: /<SUP>\(Invariant:cart_saved\)<\/SUP>/ },
+  { name: "Description truncated, label intact", pattern: /<SUP><B>Cart &lt;op\.\.\.<\/B><\/SUP>/ },
+  { name: "Choice diamond", pattern: /^ {4}editing_SUBMIT_choice \[shape=diamond, label="", width=0\.3, height=0\.3\];$/m },
+  { name: "Choice branch into a cluster", pattern: /^ {4}editing_SUBMIT_choice -> fulfilment \[label=<\(1\)<BR\/><B>\[ϟ notify\]<\/B>>, lhead=cluster_fulfilment\];$/m },
+  { name: "Guards hidden", pattern: /IF isValid/, absent: true },
+  { name: "Invoking state becomes a cluster", pattern: /^ {12}subgraph cluster_fulfilment_shipping_shipped \{$/m },
+  { name: "Invoked machine as dashed cluster", pattern: /^ {16}subgraph cluster_fulfilment_shipping_shipped_courier \{\n {20}label=<◉ courier>;\n {20}style="rounded,dashed";$/m },
+  { name: "Invoked machine edges", pattern: /^ {20}fulfilment_shipping_shipped_courier_driving -> fulfilment_shipping_shipped_courier_delivered \[label=<<B>ARRIVE<\/B>>\];$/m },
+]);
+
+const order = toDot(orderMachine);
+runChecks("Example order machine", order, [
+  { name: "Delayed transition label", pattern: /validating -> processing \[label=<<I>after<\/I> 5000ms>\];/ },
+]);
+
+console.log("\n--- Graphviz layout ---\n");
+for (const [title, output] of [["defaults", defaults], ["options", tuned], ["order machine", order]] as const) {
+  try {
+    const svg = graphviz.dot(output);
+    const ok = svg.includes("<svg");
+    console.log(`  ${ok ? "✅" : "❌"} ${title} lays out with Graphviz`);
+    if (!ok) allPassed = false;
+  } catch (err) {
+    console.log(`  ❌ ${title} lays out with Graphviz: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL DOT CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ DOT CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,167 @@
+#!/usr/bin/env npx tsx
+/**
+ * EDGE COVERAGE TEST
+ *
+ * Ensures toMermaidNested() never loses a transition:
+ * 1. Every edge from toDirectedGraph() appears exactly once in the output
+ * 2. Cross-compound jumps (`#machine.other.child`) are rendered at the
+ *    least-common-ancestor scope (root when the compounds are top-level)
+ * 3. Edges that stay inside a compound are rendered inside its block
+ */
+import { setup } from "xstate";
+import { toDirectedGraph, type DirectedGraphNode } from "@xstate/graph";
+import { formatTransitionLabel, getStateName, toMermaidNested } from "../index.js";
+
+// ============================================================================
+// TEST MACHINE: deep nesting with jumps across compounds
+// ============================================================================
+const checkoutMachine = setup({
+  types: {
+    events: {} as
+      | { type: "NEXT" }
+      | { type: "PAY" }
+      | { type: "FAIL" }
+      | { type: "EDIT_CART" }
+      | { type: "RETRY" }
+      | { type: "RESET" }
+      | { type: "REFRESH" }
+      | { type: "ABORT" },
+  },
+  guards: {
+    isCard: () => true,
+    isWallet: () => true,
+  },
+}).createMachine({
+  id: "checkout",
+  initial: "cart",
+  on: {
+    RESET: ".cart",
+  },
+  states: {
+    cart: {
+      initial: "browsing",
+      states: {
+        browsing: { on: { NEXT: "reviewing" } },
+        reviewing: {
+          on: {
+            // Cross-compound jump into a deeply nested state
+            PAY: "#checkout.payment.method.card",
+          },
+        },
+      },
+    },
+    payment: {
+      initial: "method",
+      on: {
+        // Compound -> its own child
+        REFRESH: ".method",
+      },
+      states: {
+        method: {
+          initial: "card",
+          states: {
+            card: {
+              on: {
+                // Jump out of two levels into a sibling compound of the root
+                EDIT_CART: "#checkout.cart.reviewing",
+                // Two guarded candidates sharing a target plus a fallthrough
+                NEXT: [
+                  { target: "#checkout.payment.confirming", guard: "isCard" },
+                  { target: "#checkout.payment.confirming", guard: "isWallet" },
+                  { target: "wallet" },
+                ],
+              },
+            },
+            wallet: {
+              on: {
+                // Self-transition
+                REFRESH: "wallet",
+              },
+            },
+          },
+        },
+        confirming: {
+          on: {
+            FAIL: "#checkout.failed",
+            // Child -> ancestor
+            ABORT: "#checkout.payment",
+          },
+        },
+      },
+    },
+    failed: {
+      on: { RETRY: "#checkout.payment.method.wallet" },
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== EDGE COVERAGE TEST ===\n");
+
+const output = toMermaidNested(checkoutMachine);
+console.log("Generated Mermaid:\n");
+console.log(output);
+
+let allPassed = true;
+
+// Every graph edge must produce exactly one line (edges that render identically
+// must produce as many lines as there are edges)
+const expectedCounts = new Map<string, number>();
+function collectExpected(node: DirectedGraphNode): void {
+  for (const edge of node.edges) {
+    const t = edge.transition as { eventType: string; guard?: { type: string } | null; actions?: readonly { type: string }[] };
+    const line = `${getStateName(edge.source.id)} --> ${getStateName(edge.target.id)}: ${formatTransitionLabel(t)}`;
+    expectedCounts.set(line, (expectedCounts.get(line) ?? 0) + 1);
+  }
+  for (const child of node.children) {
+    collectExpected(child);
+  }
+}
+collectExpected(toDirectedGraph(checkoutMachine));
+
+const outputLines = output.split("\n").map(l => l.trim());
+console.log("\nEvery graph edge exactly once:");
+for (const [line, expected] of expectedCounts) {
+  const actual = outputLines.filter(l => l === line).length;
+  const passed = actual === expected;
+  console.log(`  ${passed ? "✅" : "❌"} ${line} (expected ${expected}, found ${actual})`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+// Scope checks: indentation reflects the block an edge is rendered in
+const scopeChecks = [
+  { name: "cart -> payment jump rendered at root", line: "    reviewing --> card: <b>PAY</b>" },
+  { name: "payment -> cart jump rendered at root", line: "    card --> reviewing: <b>EDIT_CART</b>" },
+  { name: "payment -> failed jump rendered at root", line: "    confirming --> failed: <b>FAIL</b>" },
+  { name: "failed -> nested wallet rendered at root", line: "    failed --> wallet: <b>RETRY</b>" },
+  { name: "Compound -> own child rendered outside its block", line: "    payment --> method: <b>REFRESH</b>" },
+  { name: "card -> confirming rendered inside payment block", line: "        card --> confirming: <b>NEXT</b>" },
+  { name: "Self-transition rendered inside method block", line: "            wallet --> wallet: <b>REFRESH</b>" },
+  { name: "Internal edge rendered inside cart block", line: "        browsing --> reviewing: <b>NEXT</b>" },
+];
+
+console.log("\nScope checks:");
+for (const check of scopeChecks) {
+  const found = output.split("\n").some(l => l.startsWith(check.line));
+  console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+  if (!found) {
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL EDGES RENDERED EXACTLY ONCE");
+  process.exit(0);
+} else {
+  console.log("❌ EDGE COVERAGE FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,242 @@
+#!/usr/bin/env npx tsx
+/**
+ * ESCAPING FUZZ TEST
+ *
+ * Generates machines whose state names, events, guards, actions, descriptions,
+ * tags, meta and invoke ids are hostile to Mermaid and HTML, and ensures the
+ * output of both renderers:
+ * 1. Parses with Mermaid's own stateDiagram-v2 parser
+ * 2. Only contains statements this library emits, with Mermaid-safe ids
+ * 3. Contains no HTML besides the library's own formatting tags
+ *
+ * Machines come from a seeded PRNG, so failures are reproducible.
+ */
+import { JSDOM } from "jsdom";
+import { createMachine } from "xstate";
+import { escapeMermaidLabel, toMermaid, toMermaidId, toMermaidNested } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// HOSTILE INPUTS
+// ============================================================================
+const HOSTILE = [
+  "in-progress",
+  "end",
+  "state",
+  "note",
+  "class",
+  "direction",
+  "as",
+  "user.submit",
+  "<script>alert(1)</script>",
+  "<img src=x onerror=alert(1)>",
+  "a;b",
+  "x#y",
+  "#35;",
+  "}",
+  "{open",
+  "a:b",
+  'say "hi"',
+  "multi\nline",
+  "--",
+  "-->",
+  "[*]",
+  "%%comment",
+  "&amp;",
+  "back`tick",
+  "with space",
+  "ünïcödé",
+  "123start",
+  "<<fork>>",
+  "a|b",
+];
+
+// XState reserves "." (path delimiter) and a leading "#" (id reference) in state keys
+const HOSTILE_KEYS = HOSTILE.filter(k => !k.includes(".") && !k.startsWith("#"));
+
+/** Deterministic PRNG (mulberry32) */
+function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)] as T;
+}
+
+type Config = Record<string, unknown>;
+
+/**
+ * Build a random machine config with hostile names everywhere
+ */
+function generateMachine(seed: number): Config {
+  const random = createRandom(seed);
+  const machineId = `fuzz${seed}`;
+  const paths: string[][] = [];
+
+  function generateStates(path: string[], depth: number): Config {
+    const states: Config = {};
+    const count = 2 + Math.floor(random() * 3);
+    const keys = [...HOSTILE_KEYS].sort(() => random() - 0.5).slice(0, count);
+    for (const key of keys) {
+      const statePath = [...path, key];
+      paths.push(statePath);
+      const state: Config = {};
+      const roll = random();
+      if (depth < 2 && roll < 0.3) {
+        state.states = generateStates(statePath, depth + 1);
+        state.initial = Object.keys(state.states as Config)[0];
+      } else if (depth < 2 && roll < 0.4) {
+        state.type = "parallel";
+        state.states = generateStates(statePath, depth + 1);
+      } else if (roll < 0.5) {
+        state.type = "final";
+      }
+      if (random() < 0.5) state.description = pick(random, HOSTILE);
+      if (random() < 0.4) state.tags = [pick(random, HOSTILE), `INV:${pick(random, HOSTILE)}`];
+      if (random() < 0.3) state.meta = { [pick(random, HOSTILE)]: pick(random, HOSTILE), nested: { key: pick(random, HOSTILE) } };
+      if (random() < 0.3) state.entry = [{ type: pick(random, HOSTILE) }];
+      if (random() < 0.3) state.exit = [{ type: pick(random, HOSTILE) }];
+      if (random() < 0.2) state.invoke = [{ src: pick(random, HOSTILE), id: pick(random, HOSTILE) }];
+      states[key] = state;
+    }
+    return states;
+  }
+
+  const states = generateStates([], 0);
+
+  // Random transitions between any two states, addressed by id
+  function addTransitions(statesConfig: Config, path: string[]): void {
+    for (const [key, value] of Object.entries(statesConfig)) {
+      const state = value as Config;
+      const statePath = [...path, key];
+      if (state.type !== "final" && random() < 0.8) {
+        const on: Config = {};
+        const transitionCount = 1 + Math.floor(random() * 3);
+        for (let i = 0; i < transitionCount; i++) {
+          const target = pick(random, paths);
+          on[pick(random, HOSTILE)] = {
+            target: `#${[machineId, ...target].join(".")}`,
+            ...(random() < 0.5 ? { guard: { type: pick(random, HOSTILE) } } : {}),
+            ...(random() < 0.5 ? { actions: [{ type: pick(random, HOSTILE) }] } : {}),
+          };
+        }
+        state.on = on;
+      }
+      if (state.states) {
+        addTransitions(state.states as Config, statePath);
+      }
+    }
+  }
+  addTransitions(states, []);
+
+  return { id: machineId, initial: Object.keys(states)[0], states };
+}
+
+// ============================================================================
+// OUTPUT VALIDATION
+// ============================================================================
+const ID = "[A-Za-z_][A-Za-z0-9_]*";
+const ENDPOINT = `(?:${ID}|\\[\\*\\])`;
+const STATEMENT_PATTERNS = [
+  /^stateDiagram-v2$/,
+  new RegExp(`^${ENDPOINT} --> ${ENDPOINT}(?:: .+)?$`),
+  new RegExp(`^${ID}: .+$`),
+  new RegExp(`^state "[^"\\n]+" as ${ID}(?: \\{)?$`),
+  new RegExp(`^state ${ID}(?: \\{| <<fork>>)$`),
+  new RegExp(`^note right of ${ID}: .+$`),
+  /^\}$/,
+  /^--$/,
+];
+// Only the library's own formatting tags may appear as HTML
+const FOREIGN_HTML = /<(?!\/?(?:b|i|sup)>|br\/>)/;
+
+function validate(output: string): string[] {
+  const problems: string[] = [];
+  let depth = 0;
+  for (const rawLine of output.split("\n")) {
+    const line = rawLine.trim();
+    if (!STATEMENT_PATTERNS.some(p => p.test(line))) {
+      problems.push(`unexpected statement: ${line}`);
+    }
+    if (FOREIGN_HTML.test(line.replace(/ <<fork>>$/, ""))) {
+      problems.push(`raw HTML: ${line}`);
+    }
+    if (line.endsWith("{")) depth++;
+    if (line === "}") depth--;
+    if (depth < 0) problems.push("unbalanced }");
+  }
+  if (depth !== 0) problems.push(`unbalanced braces (depth ${depth})`);
+  return problems;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== ESCAPING FUZZ TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean, details: string[] = []): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  for (const detail of details.slice(0, 5)) {
+    console.log(`       ${detail}`);
+  }
+  if (!passed) allPassed = false;
+}
+
+console.log("--- Escaping helpers ---\n");
+check("HTML becomes entity codes", escapeMermaidLabel("<script>") === "#lt;script#gt;");
+check("Mermaid syntax characters escaped", escapeMermaidLabel('a;b#c{d}"e"') === "a#59;b#35;c#123;d#125;#quot;e#quot;");
+check("Colons become ratio characters", escapeMermaidLabel("a:b") === "a∶b");
+check("Line breaks become <br/>", escapeMermaidLabel("a\nb") === "a<br/>b");
+check("Ids are sanitised", toMermaidId("in-progress") === "in_progress");
+check("Keyword ids are suffixed", toMermaidId("end") === "end_");
+check("Ids never start with a digit", toMermaidId("123start") === "_123start");
+
+console.log("\n--- Fuzzed machines ---\n");
+
+const SEEDS = 40;
+let sample = "";
+for (let seed = 1; seed <= SEEDS; seed++) {
+  const machine = createMachine(generateMachine(seed) as Parameters<typeof createMachine>[0]);
+  for (const [rendererName, render] of [["toMermaid", toMermaid], ["toMermaidNested", toMermaidNested]] as const) {
+    const output = render(machine);
+    if (seed === 1 && rendererName === "toMermaidNested") sample = output;
+
+    const problems = validate(output);
+    try {
+      await mermaid.parse(output);
+    } catch (err) {
+      problems.push(`mermaid.parse: ${(err as Error).message.split("\n")[0]}`);
+    }
+    if (problems.length > 0) {
+      check(`seed ${seed} ${rendererName}`, false, problems);
+    }
+  }
+}
+check(`${SEEDS} hostile machines parse as stateDiagram-v2 in both renderers`, allPassed);
+
+console.log("\nSample output (seed 1, toMermaidNested):\n");
+console.log(sample);
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL ESCAPING CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ ESCAPING CHECKS FAILED");
+  process.exit(1);
+}
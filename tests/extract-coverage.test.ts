@@ -0,0 +1,154 @@
+#!/usr/bin/env npx tsx
+/**
+ * STATIC EXTRACTION COVERAGE TEST
+ *
+ * Ensures extractMachines():
+ * 1. Extracts the example order machine without running its module, drawing
+ *    the same diagram as the imported machine
+ * 2. Finds createMachine() and setup().createMachine() calls, named after their
+ *    variable, with export status and line
+ * 3. Evaluates constants (imported ones too), enum members, spreads, computed
+ *    keys, arithmetic and template strings
+ * 4. Provides machines passed to setup({ actors }), so invoked machines expand
+ * 5. Reports non-literal parts as diagnostics with file, line and column,
+ *    leaves them out and keeps going
+ * 6. Reads the event types of `types.events` and the implementation names
+ *    setup() provides, for analyzeMachine()
+ */
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { extractMachines, formatDiagnostic } from "../extract.js";
+import { toMermaid, toMermaidNested } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const repoRoot = resolve(import.meta.dirname, "..");
+const workDir = mkdtempSync(join(tmpdir(), "xstate-mermaid-extract-"));
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+console.log("=== STATIC EXTRACTION COVERAGE TEST ===\n");
+
+try {
+  // ==========================================================================
+  // FIXTURES: a module that throws when run, and the constants it imports
+  // ==========================================================================
+  writeFileSync(join(workDir, "constants.ts"), `export const EVENTS = { GO: "GO" } as const;
+export const TIMEOUT = 1000;
+`);
+  const machinesFile = join(workDir, "machines.ts");
+  writeFileSync(machinesFile, `import { assign, createMachine, setup } from "xstate";
+import { EVENTS, TIMEOUT } from "./constants";
+
+enum Delay {
+  Short = 100,
+}
+
+const shared = { tags: ["busy"] };
+
+const courier = createMachine({
+  id: "courier",
+  initial: "driving",
+  states: { driving: { on: { ARRIVE: "delivered" } }, delivered: { type: "final" } },
+});
+
+export const dispatch = setup({ actors: { courier } }).createMachine({
+  id: "dispatch",
+  context: () => ({ count: 0 }),
+  initial: "idle",
+  states: {
+    idle: {
+      entry: [assign({ count: 1 }), { type: "log" }],
+      on: {
+        [EVENTS.GO]: { target: "busy", guard: ({ context }) => context.count > 0 },
+      },
+      after: { [Delay.Short]: "idle", [TIMEOUT * 2]: "busy" },
+    },
+    busy: {
+      ...shared,
+      description: \`Waits \${TIMEOUT}ms\`,
+      invoke: { id: "courier", src: "courier" },
+    },
+  },
+});
+
+export default createMachine({ id: "fallback", initial: "on", states: { on: {} } });
+
+throw new Error("this module must not run");
+`);
+
+  console.log("--- Example machine ---\n");
+  const example = extractMachines([join(repoRoot, "examples/order-machine.ts")]);
+  const order = example.machines[0];
+  check("One machine, named after its export", example.machines.length === 1 && order?.name === "orderMachine" && order.exported);
+  check("Same diagram as the imported machine", order !== undefined && toMermaid(order.machine) === toMermaid(orderMachine));
+  check("Same nested diagram", order !== undefined && toMermaidNested(order.machine) === toMermaidNested(orderMachine));
+  check("No diagnostics for a literal config", example.diagnostics.length === 0);
+  check("Declared events from types.events", order?.events?.join() === "SUBMIT,CANCEL,PAYMENT_SUCCESS,PAYMENT_FAILED,RETRY");
+  check("Names provided by setup()", JSON.stringify(order?.implementations) === JSON.stringify({
+    guards: ["hasValidPayment", "stockAvailable"],
+    actions: ["notifyUser", "reserveStock", "chargeCard", "releaseStock", "logCancellation", "cleanupResources"],
+    actors: ["paymentProcessor"],
+  }));
+
+  console.log("\n--- Machines of a module that throws ---\n");
+  const { machines, diagnostics } = extractMachines([machinesFile]);
+  const names = machines.map(machine => `${machine.name}:${machine.exported}:${machine.line}`);
+  check("Every createMachine call, with export status and line", names.join() === "courier:false:10,dispatch:true:16,machines:true:36");
+  const dispatch = machines.find(machine => machine.name === "dispatch");
+  const states = (dispatch?.config["states"] ?? {}) as Record<string, Record<string, unknown>>;
+  check("Imported constant as computed event name", JSON.stringify(states["idle"]?.["on"]) === JSON.stringify({ GO: { target: "busy" } }));
+  check("Enum member and arithmetic as delays", JSON.stringify(states["idle"]?.["after"]) === JSON.stringify({ 100: "idle", 2000: "busy" }));
+  check("Spread and template string", JSON.stringify(states["busy"]?.["tags"]) === `["busy"]` && states["busy"]?.["description"] === "Waits 1000ms");
+  check("Literal items kept next to a non-literal one", JSON.stringify(states["idle"]?.["entry"]) === `[{"type":"log"}]`);
+  check("Non-literal context left out", dispatch !== undefined && !("context" in dispatch.config));
+  check("Files read: the module and the constants it imports", extractMachines([machinesFile]).files.sort().join() === [join(workDir, "constants.ts"), machinesFile].join());
+
+  const nested = dispatch ? toMermaidNested(dispatch.machine, { expandInvokedMachines: true }) : "";
+  check("Machine from setup({ actors }) expanded", nested.includes(`state "◉ courier" as busy_courier {`) && nested.includes("<b>ARRIVE</b>"));
+  const fallback = machines.find(machine => machine.name === "machines");
+  check("Kinds setup() leaves out provide nothing", JSON.stringify(dispatch?.implementations) === JSON.stringify({ guards: [], actions: [], actors: ["courier"] }));
+  check("No setup(): nothing provided, no declared events", JSON.stringify(fallback?.implementations) === JSON.stringify({ guards: [], actions: [], actors: [] }) && fallback.events === undefined);
+
+  console.log("\n--- Diagnostics ---\n");
+  const reported = diagnostics.map(diagnostic => `${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`);
+  check("Inline function reported at its position", reported.includes("18:12 Non-literal inline function at context left out"));
+  check("Action creator call reported", reported.includes("22:15 Non-literal call to assign() at states.idle.entry[0] left out"));
+  check("Inline guard reported with its path", reported.includes("24:47 Non-literal inline function at states.idle.on.GO.guard left out"));
+  check("Nothing else reported", diagnostics.length === 3);
+  check("Diagnostics carry the file", diagnostics.every(diagnostic => diagnostic.file === machinesFile));
+  check("Formatted as file:line:column", diagnostics[0] !== undefined && formatDiagnostic(diagnostics[0]) === `${machinesFile}:18:12 - Non-literal inline function at context left out`);
+
+  const invalid = join(workDir, "invalid.ts");
+  writeFileSync(invalid, `import { createMachine } from "xstate";
+export const broken = createMachine({ id: "broken", initial: "a", states: { a: { on: { GO: "missing" } } } });
+export const config = createMachine(makeConfig());
+`);
+  const failures = extractMachines([invalid, join(workDir, "missing.ts")]);
+  const messages = failures.diagnostics.map(diagnostic => `${diagnostic.line} ${diagnostic.message}`);
+  check("Machine that cannot be created reported, not thrown", failures.machines.length === 0 && messages.some(message => message.startsWith(`2 Cannot create machine "broken"`)));
+  check("Non-literal config reported", messages.includes("3 Non-literal call to makeConfig() at config left out"));
+  check("Missing file reported", messages.includes("1 File not found"));
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL STATIC EXTRACTION CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ STATIC EXTRACTION CHECKS FAILED");
+  process.exit(1);
+}
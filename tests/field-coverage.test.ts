@@ -12,15 +12,16 @@
  * XState v5 StateNodeConfig fields (from source):
  * - initial: structural, not rendered in state labels
  * - type: structural (atomic/compound/parallel/final/history)
- * - history: structural (shallow/deep)
+ *   final -> `--> [*]`, history -> H/H* (see pseudo-state-coverage.test.ts)
+ * - history: structural (shallow/deep) -> H / H* marker
  * - states: structural, child states
  * - invoke: ✅ MUST RENDER - invoked actors
  * - on: ✅ MUST RENDER - event transitions
  * - entry: ✅ MUST RENDER - entry actions
  * - exit: ✅ MUST RENDER - exit actions
- * - onDone: renders as transition edge
+ * - onDone: renders as transition edge labelled "done"
  * - after: ✅ MUST RENDER - delayed transitions
- * - always: renders as transition edge (if present)
+ * - always: ✅ MUST RENDER - eventless transitions as "always" edges
  * - parent: internal, not user-configured
  * - meta: ✅ MUST RENDER - metadata object
  * - output: final state output (if present)
@@ -28,7 +29,7 @@
  * - order: internal
  * - tags: ✅ MUST RENDER - array of tags
  * - description: ✅ MUST RENDER - text description
- * - target: history default target
+ * - target: history default target -> edge from the H/H* marker
  */
 import { setup } from "xstate";
 import { toMermaid } from "../index.js";
@@ -90,6 +91,8 @@ const comprehensiveMachine = setup({
       on: {
         BACK: { target: "stateA" },
       },
+      // always: ✅ (guarded, so stateB is not transient)
+      always: [{ target: "stateA", guard: { type: "isValid" } }],
     },
   },
 });
@@ -148,6 +151,11 @@ const checks: { field: string; pattern: RegExp; description: string }[] = [
     pattern: /<i>after<\/i> 1000ms/,
     description: "Delayed transitions (only 'after' is italic)",
   },
+  {
+    field: "always",
+    pattern: /stateB --> stateA: <i>always<\/i> IF isValid/,
+    description: "Eventless transitions (italic 'always' keyword with guard)",
+  },
 ];
 
 console.log("=== FIELD COVERAGE TEST ===\n");
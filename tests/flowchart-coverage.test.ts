@@ -0,0 +1,169 @@
+#!/usr/bin/env npx tsx
+/**
+ * FLOWCHART COVERAGE TEST
+ *
+ * Ensures toMermaidFlowchart():
+ * 1. Draws compound and parallel states as subgraphs (parallel regions dashed)
+ * 2. Picks node shapes by state type: rounded atomic, double circle final,
+ *    hexagon choice, circle history, small circle initial marker
+ * 3. Labels edges with formatTransitionLabel, writing them after all subgraphs
+ * 4. Honours the MermaidOptions flags shared with the state diagram renderers
+ * 5. Produces output Mermaid's flowchart parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { createMachine, setup } from "xstate";
+import { toMermaidFlowchart } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE: every state type, guarded candidates and an invoked machine
+// ============================================================================
+const courier = createMachine({
+  id: "courier",
+  initial: "driving",
+  states: {
+    driving: { on: { ARRIVE: "delivered" } },
+    delivered: { type: "final" },
+  },
+});
+
+const checkoutMachine = setup({
+  actors: { courier },
+  guards: { isValid: () => true, isDraft: () => false },
+  actions: { saveCart: () => {}, notify: () => {} },
+}).createMachine({
+  id: "checkout",
+  initial: "editing",
+  states: {
+    editing: {
+      description: "Cart is open",
+      tags: ["draft"],
+      entry: "saveCart",
+      on: {
+        SUBMIT: [
+          { guard: "isValid", target: "fulfilment", actions: "notify" },
+          { guard: "isDraft", target: "editing" },
+          { target: "end" },
+        ],
+      },
+    },
+    fulfilment: {
+      type: "parallel",
+      states: {
+        shipping: {
+          initial: "packing",
+          states: {
+            packing: { on: { SHIP: "shipped" } },
+            shipped: { invoke: { id: "courier", src: "courier" } },
+            resume: { type: "history", history: "deep" },
+          },
+        },
+        invoicing: {},
+      },
+      on: { DONE: "end" },
+    },
+    // Flowchart keyword
+    end: { type: "final" },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== FLOWCHART COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const defaults = toMermaidFlowchart(checkoutMachine);
+runChecks("Defaults", defaults, [
+  { name: "Flowchart header with default direction", pattern: /^flowchart TB\n/ },
+  { name: "Initial marker", pattern: /^ {4}checkout_start@\{ shape: sm-circ \}$/m },
+  { name: "Initial edge", pattern: /^ {4}checkout_start --> editing$/m },
+  { name: "Atomic state rounded with full label", pattern: /^ {4}editing\("<b>editing<\/b><br\/>━+<br\/><sup>\(draft\)<\/sup><br\/><sup><b>Cart is open<\/b><\/sup>[^\n]*\[ϟ saveCart\][^\n]*"\)$/m },
+  { name: "Parallel state as subgraph", pattern: /^ {4}subgraph fulfilment \["fulfilment"\]$/m },
+  { name: "Compound region nested with its own marker", pattern: /^ {8}subgraph shipping \["shipping"\]\n {12}shipping_start@\{ shape: sm-circ \}$/m },
+  { name: "Atomic region entered from the parallel marker", pattern: /^ {4}fulfilment_start --> invoicing$/m },
+  { name: "Regions dashed", pattern: /^ {4}style shipping stroke-dasharray:5 5\n {4}style invoicing stroke-dasharray:5 5$/m },
+  { name: "History as circle", pattern: /^ {12}resume\(\("H\*"\)\)$/m },
+  { name: "History default edge", pattern: /^ {4}resume --> packing$/m },
+  { name: "Final state as double circle, keyword id suffixed", pattern: /^ {4}end_\(\(\("end"\)\)\)$/m },
+  { name: "Subgraphs closed", pattern: /^ {8}end\n {8}invoicing\("invoicing"\)\n {4}end$/m },
+  { name: "Guard and action in edge label", pattern: /^ {4}editing -->\|"<b>SUBMIT<\/b> IF isValid<br\/><b>\[ϟ notify\]<\/b>"\| fulfilment$/m },
+  { name: "Edge from a subgraph", pattern: /^ {4}fulfilment -->\|"<b>DONE<\/b>"\| end_$/m },
+  { name: "Nested edge written at top level", pattern: /^ {4}packing -->\|"<b>SHIP<\/b>"\| shipped$/m },
+  { name: "No choice without guardedChoices", pattern: /_choice/, absent: true },
+  { name: "No state diagram syntax", pattern: /\[\*\]|stateDiagram|<<|: </, absent: true },
+]);
+
+const tuned = toMermaidFlowchart(checkoutMachine, {
+  title: "Checkout",
+  direction: "LR",
+  stateDirections: { "fulfilment.shipping": "TB" },
+  guardedChoices: true,
+  includeActions: false,
+  includeEntryActions: false,
+  includeTags: "unstyled",
+  tagStyles: { draft: "fill:#eee" },
+  fullyQualifiedNames: true,
+  stateIds: "path",
+  expandInvokedMachines: true,
+});
+runChecks("Options", tuned, [
+  { name: "Frontmatter title and direction", pattern: /^---\ntitle: "Checkout"\n---\nflowchart LR\n/ },
+  { name: "Per-subgraph direction", pattern: /subgraph fulfilment_shipping \["fulfilment\.shipping"\]\n {12}direction TB$/m },
+  { name: "Choice as hexagon in the source's block", pattern: /^ {4}editing_SUBMIT_choice\{\{" "\}\}$/m },
+  { name: "Event enters the choice", pattern: /^ {4}editing -->\|"<b>SUBMIT<\/b>"\| editing_SUBMIT_choice$/m },
+  { name: "Numbered guarded branch", pattern: /^ {4}editing_SUBMIT_choice -->\|"\(1\) IF isValid"\| fulfilment$/m },
+  { name: "Else branch", pattern: /^ {4}editing_SUBMIT_choice -->\|"\(3\) else"\| end_$/m },
+  { name: "Actions hidden", pattern: /ϟ/, absent: true },
+  { name: "Styled tag hidden from label", pattern: /\(draft\)/, absent: true },
+  { name: "Tag style class", pattern: /^ {4}classDef draft fill:#eee\n {4}class editing draft$/m },
+  { name: "Invoking state becomes a subgraph", pattern: /^ {12}subgraph fulfilment_shipping_shipped \["[^"]*"\]\n {16}subgraph fulfilment_shipping_shipped_courier \["◉ courier"\]$/m },
+  { name: "Invoked machine drawn as flowchart", pattern: /fulfilment_shipping_shipped_courier_driving -->\|"<b>ARRIVE<\/b>"\| fulfilment_shipping_shipped_courier_delivered/ },
+]);
+
+runChecks("Description length", toMermaidFlowchart(checkoutMachine, { maxDescriptionLength: 20 }), [
+  { name: "Label truncated", pattern: /^ {4}editing\("<b>editing<\/b><br\/>━\.\.\."\)$/m },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["defaults", defaults], ["options", tuned]] as const) {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as flowchart`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as flowchart: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL FLOWCHART CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ FLOWCHART CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,185 @@
+#!/usr/bin/env npx tsx
+/**
+ * MERMAID IMPORT COVERAGE TEST
+ *
+ * Ensures fromMermaid() and toMachineSource():
+ * 1. Round-trip toMermaidNested output: a machine created from the parsed
+ *    config draws the same diagram (path ids and guarded choices included)
+ * 2. Parse blocks, regions, initial/final/history states, labels, notes,
+ *    transition triggers, guards and actions into an XState-shaped config
+ * 3. Unescape Mermaid entities, ratio characters and line breaks
+ * 4. Read hand-written diagrams: implicit states, plain labels, multi-line notes
+ * 5. Reject anything that is not a stateDiagram, and unknown statements
+ * 6. Print the config as a TypeScript module that evaluates to the same machine
+ */
+import { createMachine, setup, type AnyStateMachine } from "xstate";
+import { fromMermaid, toMachineSource, toMermaidNested, type MermaidMachineConfig, type MermaidOptions } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+// ============================================================================
+// TEST MACHINE: every construct the nested diagram can carry
+// ============================================================================
+const checkoutMachine = setup({
+  actors: { courier: createMachine({}) },
+  guards: { isValid: () => true, isDraft: () => false },
+  actions: { saveCart: () => {}, notify: () => {} },
+}).createMachine({
+  id: "checkout",
+  initial: "editing",
+  on: { RESET: ".editing" },
+  states: {
+    editing: {
+      description: "Cart is open\nItems; #1 <b>",
+      tags: ["draft", "INV: total > 0"],
+      entry: "saveCart",
+      after: { 5000: "done" },
+      on: {
+        SUBMIT: [
+          { guard: "isValid", target: "fulfilment", actions: "notify" },
+          { guard: "isDraft", target: "editing" },
+          { target: "done" },
+        ],
+        "ns:ping": { target: "editing", actions: "notify" },
+      },
+    },
+    fulfilment: {
+      type: "parallel",
+      tags: ["busy"],
+      meta: { team: "logistics" },
+      exit: "notify",
+      onDone: "done",
+      on: { DONE: "done" },
+      states: {
+        shipping: {
+          initial: "packing",
+          states: {
+            packing: { on: { SHIP: "shipped" } },
+            shipped: {
+              invoke: { id: "courier", src: "courier" },
+              always: { guard: "isValid", target: "#checkout.done" },
+            },
+            resume: { type: "history", history: "deep" },
+          },
+        },
+        invoicing: {},
+      },
+    },
+    done: { type: "final" },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== MERMAID IMPORT COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+function roundTrips(machine: AnyStateMachine, options: MermaidOptions = {}): boolean {
+  const diagram = toMermaidNested(machine, options);
+  const config = fromMermaid(diagram, { id: machine.id });
+  return toMermaidNested(createMachine(config), options) === diagram;
+}
+
+console.log("--- Round trip ---\n");
+check("Example order machine", roundTrips(orderMachine, { title: "Order Processing" }));
+check("Compound, parallel, history, delayed, eventless and done transitions", roundTrips(checkoutMachine));
+check("Path state ids", roundTrips(checkoutMachine, { stateIds: "path" }));
+check("Fully qualified names", roundTrips(checkoutMachine, { fullyQualifiedNames: true }));
+check("Guarded choices", roundTrips(checkoutMachine, { guardedChoices: true }));
+
+console.log("\n--- Parsed config ---\n");
+const config = fromMermaid(toMermaidNested(checkoutMachine), { id: "checkout" });
+const editing = config.states?.["editing"];
+const fulfilment = config.states?.["fulfilment"];
+const shipping = fulfilment?.states?.["shipping"];
+check("Machine id and initial state", config.id === "checkout" && config.initial === "editing");
+check("Machine-level transition targets a child", config.on?.["RESET"]?.[0]?.target === ".editing");
+check("Candidates in order with guards and actions",
+  JSON.stringify(editing?.on?.["SUBMIT"]) === JSON.stringify([
+    { target: "fulfilment", guard: "isValid", actions: ["notify"] },
+    { target: "editing", guard: "isDraft" },
+    { target: "done" },
+  ]));
+check("Delayed transition", editing?.after?.[5000]?.[0]?.target === "done");
+check("Parallel state from regions", fulfilment?.type === "parallel" && fulfilment.initial === undefined);
+check("Compound note: tags, meta, exit actions", fulfilment?.tags?.join() === "busy" && fulfilment.meta?.["team"] === "logistics" && fulfilment.exit?.join() === "notify");
+check("Done transition", fulfilment?.onDone?.[0]?.target === "done");
+check("History state with default target", JSON.stringify(shipping?.states?.["resume"]) === JSON.stringify({ type: "history", history: "deep", target: "packing" }));
+check("Invoke with id", JSON.stringify(shipping?.states?.["shipped"]?.invoke) === JSON.stringify([{ src: "courier", id: "courier" }]));
+check("Eventless transition out of the block by id", JSON.stringify(shipping?.states?.["shipped"]?.always) === JSON.stringify([{ target: "#checkout.done", guard: "isValid" }]));
+check("Final state", config.states?.["done"]?.type === "final");
+
+const choices = fromMermaid(toMermaidNested(checkoutMachine, { guardedChoices: true }), { id: "checkout" });
+check("Choice branches become candidates", JSON.stringify(choices.states?.["editing"]?.on?.["SUBMIT"]) === JSON.stringify(editing?.on?.["SUBMIT"]));
+check("No state for the choice", Object.keys(choices.states ?? {}).join() === "editing,fulfilment,done");
+
+console.log("\n--- Unescaping ---\n");
+check("Entities and line breaks in descriptions", editing?.description === "Cart is open\nItems; #1 <b>");
+check("Invariant tags folded back", editing?.tags?.join("|") === "draft|INV: total > 0");
+check("Colons in event names", editing?.on?.["ns:ping"]?.[0]?.actions?.join() === "notify");
+
+console.log("\n--- Hand-written diagrams ---\n");
+const sketch = fromMermaid(`stateDiagram-v2
+  direction LR
+  %% states are declared on first use
+  [*] --> Idle
+  Idle --> Loading : FETCH
+  Loading --> Idle : CANCEL
+  Loading --> Done
+  state Loading {
+    [*] --> Waiting
+    Waiting --> Retrying : TIMEOUT
+  }
+  note right of Loading
+    Fetches the data
+  end note
+  Idle : Nothing happening
+  Done --> [*]
+`);
+check("Default machine id", sketch.id === "machine" && sketch.initial === "Idle");
+check("Plain labels are event names", sketch.states?.["Idle"]?.on?.["FETCH"]?.[0]?.target === "Loading");
+check("Unlabelled transitions are eventless", sketch.states?.["Loading"]?.always?.[0]?.target === "Done");
+check("States first seen in a block belong to it", Object.keys(sketch.states?.["Loading"]?.states ?? {}).join() === "Waiting,Retrying");
+check("Plain state label and multi-line note are descriptions", sketch.states?.["Idle"]?.description === "Nothing happening" && sketch.states?.["Loading"]?.description === "Fetches the data");
+
+const errorOf = (text: string): string => {
+  try {
+    fromMermaid(text);
+    return "";
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+check("Not a state diagram", errorOf("flowchart TD\n  a --> b") === `Line 1: expected "stateDiagram-v2", found "flowchart TD"`);
+check("Unknown statement", errorOf("stateDiagram-v2\n  a -> b") === `Line 2: unsupported statement "a -> b"`);
+check("Unbalanced block", errorOf("stateDiagram-v2\n  }") === `Line 2: "}" without an open state block`);
+
+console.log("\n--- TypeScript source ---\n");
+const source = toMachineSource(config, { name: "checkoutMachine" });
+check("Module exporting createMachine()", source.startsWith(`import { createMachine } from "xstate";\n\nexport const checkoutMachine = createMachine({\n  id: "checkout",\n`));
+check("Bare targets and lone candidates compacted", /^ {6}after: \{\n {8}5000: "done",\n {6}\},$/m.test(source) && /^ {4}RESET: "\.editing",$/m.test(source));
+check("Non-identifier keys quoted", source.includes(`"ns:ping": {`));
+const literal = source.substring(source.indexOf("createMachine(") + "createMachine(".length, source.lastIndexOf(");"));
+const evaluated = new Function(`return ${literal};`)() as MermaidMachineConfig;
+check("Source evaluates to the same machine", toMermaidNested(createMachine(evaluated)) === toMermaidNested(checkoutMachine));
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL MERMAID IMPORT CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ MERMAID IMPORT CHECKS FAILED");
+  process.exit(1);
+}
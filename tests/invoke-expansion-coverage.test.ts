@@ -0,0 +1,193 @@
+#!/usr/bin/env npx tsx
+/**
+ * INVOKED MACHINE EXPANSION COVERAGE TEST
+ *
+ * Ensures expandInvokedMachines draws invoked statecharts in both renderers:
+ * 1. Machines registered in setup({ actors }) and inline machines are expanded
+ * 2. toMermaidNested draws them inside the invoking state (own section in parallel states)
+ * 3. toMermaid draws them next to the invoking state, linked by an "invoke" edge
+ * 4. Child ids are prefixed and never collide with the parent's states
+ * 5. Expansion stops at the depth limit, and cycles become a "↻" leaf
+ * 6. Non-machine actors and the default (off) leave the diagram unchanged
+ * 7. Output parses with Mermaid's stateDiagram-v2 parser
+ */
+import { JSDOM } from "jsdom";
+import { createMachine, fromPromise, setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINES: order -> payment -> fraud check, plus shipping and a promise
+// ============================================================================
+const fraudCheck = createMachine({
+  id: "fraudCheck",
+  initial: "scoring",
+  states: {
+    scoring: { on: { SCORED: "cleared" } },
+    cleared: { type: "final" },
+  },
+});
+
+const paymentMachine = setup({}).createMachine({
+  id: "payment",
+  initial: "charging",
+  states: {
+    // Inline logic, not registered in setup()
+    charging: {
+      invoke: { id: "fraud", src: fraudCheck },
+      on: { CHARGED: "done" },
+    },
+    // Same short name as a parent state: ids must not collide
+    done: { type: "final" },
+  },
+});
+
+const shippingMachine = createMachine({
+  id: "shipping",
+  initial: "packing",
+  states: {
+    packing: { on: { PACKED: "sent" } },
+    sent: { type: "final" },
+  },
+});
+
+const orderMachine = setup({
+  actors: {
+    paymentProcessor: paymentMachine,
+    shippingService: shippingMachine,
+    sendEmail: fromPromise(async () => {}),
+  },
+}).createMachine({
+  id: "order",
+  initial: "paying",
+  states: {
+    paying: {
+      invoke: { id: "payment", src: "paymentProcessor", onDone: "fulfilling" },
+    },
+    fulfilling: {
+      type: "parallel",
+      invoke: { id: "mail", src: "sendEmail" },
+      states: {
+        shipping: {
+          initial: "waiting",
+          invoke: { id: "ship", src: "shippingService" },
+          states: { waiting: {} },
+        },
+        billing: {},
+      },
+      on: { FINISH: "done" },
+    },
+    done: { type: "final" },
+  },
+});
+
+// A worker that invokes itself
+const worker = setup({ actors: { worker: createMachine({}) } }).createMachine({
+  id: "worker",
+  initial: "working",
+  states: {
+    working: { invoke: { id: "sub", src: "worker" } },
+  },
+});
+(worker.implementations.actors as Record<string, unknown>)["worker"] = worker;
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== INVOKED MACHINE EXPANSION COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const nested = toMermaidNested(orderMachine, { expandInvokedMachines: true });
+runChecks("toMermaidNested (expanded)", nested, [
+  { name: "Invoking atomic state becomes a block", pattern: /^ {4}state paying \{\n {8}state "◉ paymentProcessor" as paying_payment \{$/m },
+  { name: "Child machine entered at its initial state", pattern: /^ {12}\[\*\] --> paying_payment_charging$/m },
+  { name: "Child state names kept as aliases", pattern: /^ {12}state "charging" as paying_payment_charging \{$/m },
+  { name: "Inline grandchild expanded (named by machine id)", pattern: /^ {16}state "◉ fraudCheck" as paying_payment_charging_fraud \{$/m },
+  { name: "Grandchild transitions drawn", pattern: /paying_payment_charging_fraud_scoring --> paying_payment_charging_fraud_cleared: <b>SCORED<\/b>/ },
+  { name: "Child ids do not collide with parent ids", pattern: /paying_payment_charging --> paying_payment_done: <b>CHARGED<\/b>/ },
+  { name: "Parent's own done state untouched", pattern: /^ {4}done --> \[\*\]$/m },
+  { name: "Invoke in a compound state drawn inside it", pattern: /state shipping \{[\s\S]*waiting: waiting\n {12}state "◉ shippingService" as shipping_ship \{/ },
+  { name: "Promise actors not expanded", pattern: /sendEmail" as/, absent: true },
+]);
+
+runChecks("toMermaidNested (depth 1)", toMermaidNested(orderMachine, { expandInvokedMachines: 1 }), [
+  { name: "First level expanded", pattern: /state "◉ paymentProcessor" as paying_payment \{/ },
+  { name: "Second level left as label", pattern: /◉ fraudCheck/, absent: true },
+]);
+
+const parallelInvoke = setup({ actors: { shippingService: shippingMachine } }).createMachine({
+  id: "split",
+  type: "parallel",
+  states: {
+    work: {
+      type: "parallel",
+      invoke: { id: "ship", src: "shippingService" },
+      states: { a: {}, b: {} },
+    },
+  },
+});
+runChecks("toMermaidNested (parallel invoker)", toMermaidNested(parallelInvoke, { expandInvokedMachines: true }), [
+  { name: "Invoked machine is its own concurrent section", pattern: /\n {12}b: b\n {12}--\n {12}state "◉ shippingService" as work_ship \{/ },
+]);
+
+const flat = toMermaid(orderMachine, { expandInvokedMachines: true });
+runChecks("toMermaid (expanded)", flat, [
+  { name: "Invoking state keeps its label", pattern: /^ {4}paying: <b>paying<\/b>.*\[◉ paymentProcessor\]/m },
+  { name: "Block next to the invoking state", pattern: /^ {4}state "◉ paymentProcessor" as paying_payment \{\n {8}\[\*\] --> paying_payment_charging$/m },
+  { name: "Child statechart flat inside the block", pattern: /^ {8}paying_payment_charging --> paying_payment_done: <b>CHARGED<\/b>$/m },
+  { name: "Nested block for the grandchild", pattern: /^ {8}state "◉ fraudCheck" as paying_payment_charging_fraud \{$/m },
+  { name: "Invoke link edge", pattern: /^ {4}paying --> paying_payment: <i>invoke<\/i>$/m },
+]);
+
+const cyclic = toMermaidNested(worker, { expandInvokedMachines: 5 });
+runChecks("toMermaidNested (cycle)", cyclic, [
+  { name: "Cycle drawn as a leaf", pattern: /^ {8}state "↻ worker" as working_sub$/m },
+  { name: "No recursion into the cycle", pattern: /working_sub_working/, absent: true },
+]);
+
+runChecks("toMermaidNested (default)", toMermaidNested(orderMachine), [
+  { name: "Nothing expanded by default", pattern: /◉ paymentProcessor" as|<i>invoke<\/i>/, absent: true },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["nested", nested], ["flat", flat], ["cycle", cyclic]] as const) {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as stateDiagram-v2`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL INVOKE EXPANSION CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ INVOKE EXPANSION CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,132 @@
+#!/usr/bin/env npx tsx
+/**
+ * LAYOUT COVERAGE TEST
+ *
+ * Ensures diagram-level options reach the output of both renderers:
+ * 1. `title` is written to YAML frontmatter (quoted, so hostile titles stay intact)
+ * 2. `theme` and raw `mermaidConfig` become the frontmatter `config:` block
+ * 3. `direction` sets the global layout direction
+ * 4. `stateDirections` sets per-compound directions (nested renderer), by id or path
+ * 5. Output with frontmatter and directions parses with Mermaid
+ */
+import { JSDOM } from "jsdom";
+import { createMachine } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE: wide checkout flow with nested steps
+// ============================================================================
+const checkoutMachine = createMachine({
+  id: "checkout",
+  initial: "cart",
+  states: {
+    cart: {
+      initial: "browsing",
+      states: {
+        browsing: { on: { EDIT: "editing" } },
+        editing: { on: { DONE: "browsing" } },
+      },
+      on: { CHECKOUT: "shipping" },
+    },
+    shipping: { on: { NEXT: "payment" } },
+    payment: {
+      initial: "entering",
+      states: {
+        entering: { on: { SUBMIT: "authorising" } },
+        authorising: {},
+      },
+      on: { PAID: "done" },
+    },
+    done: { type: "final" },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== LAYOUT COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const options = {
+  title: "Checkout: \"wide\" flow",
+  direction: "LR",
+  stateDirections: { "checkout.cart": "TB", payment: "TB" },
+  theme: "forest",
+  mermaidConfig: { theme: "dark", state: { nodeSpacing: 60 }, "font-family": "Inter", "odd: key": 1 },
+} as const;
+
+const sharedChecks = [
+  { name: "Frontmatter opens the diagram", pattern: /^---\ntitle: "Checkout: \\"wide\\" flow"\n/ },
+  { name: "theme option overrides mermaidConfig.theme", pattern: /^config:\n {2}theme: "forest"$/m },
+  { name: "Nested config objects become YAML blocks", pattern: /^ {2}state:\n {4}nodeSpacing: 60$/m },
+  { name: "Hyphenated keys stay plain", pattern: /^ {2}font-family: "Inter"$/m },
+  { name: "Keys with YAML syntax are quoted", pattern: /^ {2}"odd: key": 1$/m },
+  { name: "Frontmatter closed before the diagram type", pattern: /^---\nstateDiagram-v2\n {4}direction LR\n/m },
+  { name: "Raw config theme dropped", pattern: /"dark"/, absent: true },
+];
+
+const flat = toMermaid(checkoutMachine, options);
+const nested = toMermaidNested(checkoutMachine, options);
+
+runChecks("toMermaid", flat, [
+  ...sharedChecks,
+  { name: "Flat diagram has a single direction", pattern: /direction TB/, absent: true },
+]);
+runChecks("toMermaidNested", nested, [
+  ...sharedChecks,
+  { name: "Direction by state id", pattern: /state cart \{\n {8}direction TB\n/ },
+  { name: "Direction by path from root", pattern: /state payment \{\n {8}direction TB\n/ },
+]);
+
+runChecks("toMermaid (no layout options)", toMermaid(checkoutMachine), [
+  { name: "No frontmatter without title or config", pattern: /^stateDiagram-v2\n/ },
+  { name: "No direction by default", pattern: /direction/, absent: true },
+]);
+
+runChecks("toMermaidNested (title only)", toMermaidNested(checkoutMachine, { title: "Checkout" }), [
+  { name: "Title-only frontmatter", pattern: /^---\ntitle: "Checkout"\n---\nstateDiagram-v2\n/ },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["toMermaid", flat], ["toMermaidNested", nested]] as const) {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as stateDiagram-v2`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL LAYOUT CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ LAYOUT CHECKS FAILED");
+  process.exit(1);
+}
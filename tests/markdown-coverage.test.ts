@@ -0,0 +1,104 @@
+#!/usr/bin/env npx tsx
+/**
+ * MARKDOWN MARKER COVERAGE TEST
+ *
+ * Ensures findDiagramMarkers() and syncDiagrams():
+ * 1. Parse marker specs: module, export, nested, typed and quoted options
+ * 2. Find the ```mermaid fence after a marker, skipping markers in code fences
+ * 3. Replace stale diagrams, insert missing fences, leave current ones alone
+ * 4. Keep the fence style and the line endings of the document
+ * 5. Reject unknown options with the line of the marker
+ */
+import { findDiagramMarkers, parseDiagramSpec, syncDiagrams } from "../markdown.js";
+
+console.log("=== MARKDOWN MARKER COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+const errorOf = (run: () => unknown): string => {
+  try {
+    run();
+    return "";
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+console.log("--- Marker specs ---\n");
+check("Module and export", JSON.stringify(parseDiagramSpec("src/order.ts#orderMachine")) === JSON.stringify({ source: "src/order.ts", options: {}, exportName: "orderMachine" }));
+check("Export optional", JSON.stringify(parseDiagramSpec("src/order.ts")) === JSON.stringify({ source: "src/order.ts", options: {} }));
+const spec = parseDiagramSpec(`src/order.ts#orderMachine nested includeMeta=false maxDescriptionLength=40 title="Order \\"flow\\"" direction=LR`);
+check("Bare nested", spec.nested === true);
+check("Booleans, numbers and strings", JSON.stringify(spec.options) === JSON.stringify({ includeMeta: false, maxDescriptionLength: 40, title: `Order "flow"`, direction: "LR" }));
+check("nested=false", parseDiagramSpec("a.ts nested=false").nested === false);
+check("Unknown option", errorOf(() => parseDiagramSpec("a.ts colour=red")) === `unknown option "colour"`);
+check("Object options are not marker options", errorOf(() => parseDiagramSpec("a.ts tagStyles=x")) === `unknown option "tagStyles"`);
+check("Module required", /expected a module path/.test(errorOf(() => parseDiagramSpec("  "))));
+
+console.log("\n--- Finding markers ---\n");
+const document = `# Orders
+
+<!-- xstate-mermaid: order.ts#orderMachine -->
+
+\`\`\`mermaid
+stateDiagram-v2
+    old
+\`\`\`
+
+Markers in code are examples:
+
+\`\`\`\`markdown
+<!-- xstate-mermaid: example.ts -->
+\`\`\`
+\`\`\`\`
+
+<!--xstate-mermaid: order.ts nested-->
+Paragraph right below.
+
+<!-- xstate-mermaid: order.ts#current -->
+~~~~mermaid
+stateDiagram-v2
+    current
+~~~~
+`;
+const markers = findDiagramMarkers(document);
+check("Markers in order, none from code fences", markers.map(marker => `${marker.line}:${marker.spec.source}`).join() === "3:order.ts,17:order.ts,20:order.ts");
+check("Current diagram after blank lines", markers[0]?.diagram === "stateDiagram-v2\n    old");
+check("No diagram when no fence follows", markers[1] !== undefined && !("diagram" in markers[1]));
+check("Tilde fence", markers[2]?.diagram === "stateDiagram-v2\n    current");
+check("Bad marker reported with its line", errorOf(() => findDiagramMarkers("text\n<!-- xstate-mermaid: a.ts bogus -->")) === `Line 2: unknown option "bogus"`);
+
+console.log("\n--- Regenerating ---\n");
+const rendered = (name: string) => `stateDiagram-v2\n    ${name}`;
+const { markdown, stale } = syncDiagrams(document, marker => rendered(marker.spec.exportName ?? (marker.spec.nested ? "nested" : "flat")));
+check("Stale and missing diagrams reported", stale.map(({ marker }) => marker.line).join() === "3,17");
+check("Stale fence replaced in place", markdown.includes("<!-- xstate-mermaid: order.ts#orderMachine -->\n\n```mermaid\nstateDiagram-v2\n    orderMachine\n```\n\nMarkers"));
+check("Missing fence inserted below the marker", markdown.includes("<!--xstate-mermaid: order.ts nested-->\n```mermaid\nstateDiagram-v2\n    nested\n```\nParagraph right below."));
+check("Current diagram and its fence untouched", markdown.includes("~~~~mermaid\nstateDiagram-v2\n    current\n~~~~\n"));
+check("Code fence examples untouched", markdown.includes("````markdown\n<!-- xstate-mermaid: example.ts -->\n```\n````"));
+const again = syncDiagrams(markdown, marker => rendered(marker.spec.exportName ?? (marker.spec.nested ? "nested" : "flat")));
+check("Second run finds nothing stale", again.stale.length === 0 && again.markdown === markdown);
+
+const crlf = syncDiagrams("a\r\n<!-- xstate-mermaid: x.ts -->\r\nb\r\n", () => "stateDiagram-v2");
+check("CRLF line endings kept", crlf.markdown === "a\r\n<!-- xstate-mermaid: x.ts -->\r\n```mermaid\r\nstateDiagram-v2\r\n```\r\nb\r\n");
+check("Unchanged document returned as is", syncDiagrams("no markers\n", () => "").markdown === "no markers\n");
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL MARKDOWN MARKER CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ MARKDOWN MARKER CHECKS FAILED");
+  process.exit(1);
+}
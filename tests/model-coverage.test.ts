@@ -0,0 +1,202 @@
+#!/usr/bin/env npx tsx
+/**
+ * DIAGRAM MODEL COVERAGE TEST
+ *
+ * Ensures buildDiagramModel() and the renderer interface:
+ * 1. Resolve ids, types, initial states, regions and annotations for every state
+ * 2. Hold every graph edge exactly once, scoped to the block it is drawn in
+ * 3. Route guarded candidates through choices with numbered branches
+ * 4. Model expanded invoked machines with prefixed ids, cycles without a model
+ * 5. Feed the built-in renderers (renderDiagram equals toMermaid & co.) and custom ones
+ * 6. Keep flat and nested output consistent: the same transitions, and
+ *    annotations of compound states shown in nested mode
+ */
+import { toDirectedGraph, type DirectedGraphNode } from "@xstate/graph";
+import { createMachine, setup } from "xstate";
+import {
+  buildDiagramModel,
+  DOT_RENDERER,
+  getEdges,
+  MERMAID_FLOWCHART_RENDERER,
+  MERMAID_NESTED_RENDERER,
+  MERMAID_RENDERER,
+  renderDiagram,
+  toDot,
+  toMermaid,
+  toMermaidFlowchart,
+  toMermaidNested,
+  type DiagramModel,
+  type DiagramRenderer,
+  type DiagramState,
+} from "../index.js";
+
+// ============================================================================
+// TEST MACHINE: compound annotations, parallel regions, history, choices, invokes
+// ============================================================================
+const courier = createMachine({
+  id: "courier",
+  initial: "driving",
+  states: {
+    driving: { on: { ARRIVE: "delivered" } },
+    delivered: { type: "final" },
+  },
+});
+
+const checkoutMachine = setup({
+  actors: { courier },
+  guards: { isValid: () => true, isDraft: () => false },
+  actions: { saveCart: () => {}, notify: () => {} },
+}).createMachine({
+  id: "checkout",
+  initial: "editing",
+  on: { RESET: ".editing" },
+  states: {
+    editing: {
+      description: "Cart is open",
+      tags: ["draft"],
+      entry: "saveCart",
+      on: {
+        SUBMIT: [
+          { guard: "isValid", target: "fulfilment", actions: "notify" },
+          { guard: "isDraft", target: "editing" },
+          { target: "done" },
+        ],
+        // Identical candidates: both are transitions of their own
+        SKIP: [{ target: "done" }, { target: "done" }],
+      },
+    },
+    fulfilment: {
+      type: "parallel",
+      tags: ["busy"],
+      meta: { team: "logistics" },
+      exit: "notify",
+      states: {
+        shipping: {
+          initial: "packing",
+          states: {
+            packing: { on: { SHIP: "shipped" } },
+            shipped: { invoke: { id: "courier", src: "courier" } },
+            resume: { type: "history", history: "deep" },
+          },
+        },
+        invoicing: {},
+      },
+      on: { DONE: "done" },
+    },
+    done: { type: "final" },
+  },
+});
+
+// A worker that invokes itself
+const worker = setup({ actors: { worker: createMachine({}) } }).createMachine({
+  id: "worker",
+  initial: "working",
+  states: {
+    working: { invoke: { id: "sub", src: "worker" } },
+  },
+});
+(worker.implementations.actors as Record<string, unknown>)["worker"] = worker;
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== DIAGRAM MODEL COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+function findState(model: DiagramModel, stateId: string): DiagramState | undefined {
+  const find = (state: DiagramState): DiagramState | undefined =>
+    state.stateId === stateId ? state : state.children.map(find).find(Boolean);
+  return find(model.root);
+}
+
+const model = buildDiagramModel(checkoutMachine, { tagStyles: { busy: "fill:#eee" } });
+const editing = findState(model, "checkout.editing");
+const fulfilment = findState(model, "checkout.fulfilment");
+const shipping = findState(model, "checkout.fulfilment.shipping");
+const resume = findState(model, "checkout.fulfilment.shipping.resume");
+
+console.log("--- States ---\n");
+check("Root carries the machine id and its initial state", model.id === "checkout" && model.root.id === "checkout" && model.root.initial === "editing");
+check("State types resolved", fulfilment?.type === "parallel" && shipping?.type === "compound" && findState(model, "checkout.done")?.type === "final");
+check("Regions of a parallel state flagged", shipping?.region === true && findState(model, "checkout.fulfilment.invoicing")?.region === true && editing?.region === false);
+check("Initial child as diagram id", shipping?.initial === "packing");
+check("Atomic annotations", editing?.description === "Cart is open" && editing.tags.join() === "draft" && editing.entry.join() === "saveCart");
+check("Compound annotations", fulfilment?.tags.join() === "busy" && fulfilment.meta?.["team"] === "logistics" && fulfilment.exit.join() === "notify");
+check("History depth and default target", resume?.history?.history === "deep" && resume.history.targets.join() === "packing");
+check("Tag style classes", fulfilment?.classes.join() === "busy" && model.classes.length === 1 && model.classes[0]?.style === "fill:#eee");
+check("Nothing expanded by default", findState(model, "checkout.fulfilment.shipping.shipped")?.invoked.length === 0);
+
+const hidden = buildDiagramModel(checkoutMachine, { includeTags: false, includeMeta: false, includeEntryActions: false, includeGuards: false, includeActions: false });
+check("Options filter annotations", findState(hidden, "checkout.editing")?.tags.length === 0 && findState(hidden, "checkout.editing")?.entry.length === 0 && findState(hidden, "checkout.fulfilment")?.meta === undefined);
+check("Options filter guards and actions", hidden.edges.every(edge => edge.guard === undefined && edge.actions.length === 0));
+
+console.log("\n--- Edges ---\n");
+const graphEdgeIds: string[] = [];
+const collectGraphEdges = (node: DirectedGraphNode) => {
+  graphEdgeIds.push(...getEdges(node).map(edge => edge.id));
+  node.children.forEach(collectGraphEdges);
+};
+collectGraphEdges(toDirectedGraph(checkoutMachine));
+const modelled = model.edges.flatMap(edge => edge.graphEdges);
+check("Every graph edge exactly once", modelled.length === graphEdgeIds.length && graphEdgeIds.every(id => modelled.filter(other => other === id).length === 1));
+check("Identical candidates kept apart", model.edges.filter(edge => edge.source === "editing" && edge.event === "SKIP").length === 2);
+check("Guard and actions resolved", model.edges.some(edge => edge.source === "editing" && edge.target === "fulfilment" && edge.guard === "isValid" && edge.actions.join() === "notify"));
+check("Edge inside a compound scoped to it", model.edges.find(edge => edge.source === "packing")?.scope === "shipping");
+check("Edge inside a parallel region scoped past the parallel state", model.edges.find(edge => edge.event === "DONE")?.scope === "checkout");
+check("Root transition scoped to the root", model.edges.find(edge => edge.event === "RESET")?.scope === "checkout");
+
+const choices = buildDiagramModel(checkoutMachine, { guardedChoices: true });
+const choice = choices.choices[0];
+const branches = choices.edges.filter(edge => edge.source === choice?.id);
+check("Choice for the guarded event", choices.choices.length === 1 && choice?.source === "editing" && choice.event === "SUBMIT" && choice.scope === "checkout");
+check("Edge into the choice stands for every candidate", choices.edges.find(edge => edge.target === choice?.id)?.graphEdges.length === 3);
+check("Numbered branches, unguarded fallback last", branches.map(edge => `${edge.branch?.index}:${edge.branch?.else}:${edge.target}`).join() === "1:false:fulfilment,2:false:editing,3:true:done");
+
+console.log("\n--- Invoked machines ---\n");
+const expanded = buildDiagramModel(checkoutMachine, { expandInvokedMachines: true });
+const invoked = findState(expanded, "checkout.fulfilment.shipping.shipped")?.invoked[0];
+check("Invoked machine block", invoked?.id === "shipped_courier" && invoked.name === "courier");
+check("Invoked model with prefixed ids", invoked?.model?.root.initial === "shipped_courier_driving" && invoked.model.edges[0]?.source === "shipped_courier_driving");
+const cycle = findState(buildDiagramModel(worker, { expandInvokedMachines: 5 }), "worker.working")?.invoked[0];
+check("Cycle has no model", cycle?.id === "working_sub" && cycle.model === undefined);
+
+console.log("\n--- Renderers ---\n");
+const options = { guardedChoices: true, expandInvokedMachines: true, tagStyles: { busy: "fill:#eee" } };
+check("MERMAID_RENDERER draws toMermaid", renderDiagram(checkoutMachine, MERMAID_RENDERER, options) === toMermaid(checkoutMachine, options));
+check("MERMAID_NESTED_RENDERER draws toMermaidNested", renderDiagram(checkoutMachine, MERMAID_NESTED_RENDERER, options) === toMermaidNested(checkoutMachine, options));
+check("MERMAID_FLOWCHART_RENDERER draws toMermaidFlowchart", renderDiagram(checkoutMachine, MERMAID_FLOWCHART_RENDERER, options) === toMermaidFlowchart(checkoutMachine, options));
+check("DOT_RENDERER draws toDot", renderDiagram(checkoutMachine, DOT_RENDERER, options) === toDot(checkoutMachine, options));
+
+const edgeList: DiagramRenderer<string[]> = {
+  render: ({ edges }) => edges.map(edge => `${edge.source} ${edge.event || "always"} ${edge.target}`),
+};
+const custom = renderDiagram(courier, edgeList);
+check("Custom renderer with its own output type", custom.length === 1 && custom[0] === "driving ARRIVE delivered");
+
+console.log("\n--- Flat and nested agree ---\n");
+const transitionLines = (output: string) =>
+  output.split("\n").map(line => line.trim()).filter(line => / --> \w+: /.test(line) && !line.startsWith("[*]")).sort();
+check("Same transitions in both modes", transitionLines(toMermaid(checkoutMachine)).join("\n") === transitionLines(toMermaidNested(checkoutMachine)).join("\n"));
+const nested = toMermaidNested(checkoutMachine);
+check("Compound tags, meta and actions in the nested note", /^ {4}note right of fulfilment: <sup>\(busy\)<\/sup><br\/><i>team<\/i> - logistics<br\/>────────<br\/>Exit actions<br\/><b>\[ϟ notify\]<\/b>$/m.test(nested));
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL DIAGRAM MODEL CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ DIAGRAM MODEL CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,190 @@
+#!/usr/bin/env npx tsx
+/**
+ * PARALLEL STATE COVERAGE TEST
+ *
+ * Ensures `type: "parallel"` states render as orthogonal regions:
+ * 1. toMermaidNested() gives each region its own initial-bearing section,
+ *    separated by Mermaid's `--` concurrency divider
+ * 2. Cross-region edges are drawn outside the parallel block (never inside a section)
+ * 3. toMermaid() forks into every region so concurrency survives flattening
+ * 4. A parallel root enters every region from [*]; nested, the machine is a
+ *    block whose regions are sections separated by `--` too, in a diagram
+ *    Mermaid's parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE 1: PARALLEL STATE INSIDE A FLAT MACHINE
+// ============================================================================
+const uploadMachine = setup({
+  types: {
+    events: {} as
+      | { type: "START" }
+      | { type: "CANCEL" }
+      | { type: "SENT" }
+      | { type: "OK" }
+      | { type: "RECHECK" },
+  },
+}).createMachine({
+  id: "upload",
+  initial: "idle",
+  states: {
+    idle: {
+      on: { START: "working" },
+    },
+    working: {
+      type: "parallel",
+      on: { CANCEL: "idle" },
+      states: {
+        transfer: {
+          initial: "sending",
+          states: {
+            sending: { on: { SENT: "sent" } },
+            // Cross-region edge: transfer.sent -> validation.checking
+            sent: { on: { RECHECK: "#upload.working.validation.checking" } },
+          },
+        },
+        validation: {
+          initial: "checking",
+          states: {
+            checking: { on: { OK: "valid" } },
+            valid: {},
+          },
+        },
+        // Atomic region
+        audit: {},
+      },
+    },
+  },
+});
+
+// ============================================================================
+// TEST MACHINE 2: PARALLEL ROOT
+// ============================================================================
+const parallelRootMachine = setup({
+  types: {
+    events: {} as { type: "TOGGLE_BOLD" } | { type: "TOGGLE_ITALIC" },
+  },
+}).createMachine({
+  id: "editor",
+  type: "parallel",
+  states: {
+    bold: {
+      initial: "off",
+      states: {
+        off: { on: { TOGGLE_BOLD: "on" } },
+        on: { on: { TOGGLE_BOLD: "off" } },
+      },
+    },
+    italic: {
+      initial: "plain",
+      states: {
+        plain: { on: { TOGGLE_ITALIC: "slanted" } },
+        slanted: { on: { TOGGLE_ITALIC: "plain" } },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== PARALLEL STATE COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const nestedOutput = toMermaidNested(uploadMachine);
+
+/** Extract the body of `state <name> {` ... matching `}` */
+function blockBody(output: string, name: string): string {
+  const lines = output.split("\n");
+  const start = lines.findIndex(l => l.trim() === `state ${name} {`);
+  if (start === -1) return "";
+  const indent = (lines[start] ?? "").search(/\S/);
+  const end = lines.findIndex((l, i) => i > start && l.trim() === "}" && l.search(/\S/) === indent);
+  return lines.slice(start + 1, end).join("\n");
+}
+
+const workingBody = blockBody(nestedOutput, "working");
+
+runChecks("Parallel state + toMermaidNested", nestedOutput, [
+  { name: "Parallel state is a composite block", pattern: /state working \{/ },
+  { name: "Region 'transfer' is its own block with [*]", pattern: /state transfer \{\n\s+\[\*\] --> sending/ },
+  { name: "Region 'validation' is its own block with [*]", pattern: /state validation \{\n\s+\[\*\] --> checking/ },
+  { name: "Atomic region gets its own [*]", pattern: /--\n\s+\[\*\] --> audit/ },
+  { name: "Region-internal edge stays in its region", pattern: /state transfer \{[^}]*sending --> sent: <b>SENT<\/b>/ },
+  { name: "Parallel state has no single [*] of its own", pattern: /state working \{\n\s+state transfer/ },
+  { name: "Transition out of the parallel state is rendered", pattern: /working --> idle: <b>CANCEL<\/b>/ },
+  { name: "Cross-region edge is rendered", pattern: /sent --> checking: <b>RECHECK<\/b>/ },
+]);
+
+const dividerCount = workingBody.split("\n").filter(l => l.trim() === "--").length;
+const crossRegionInside = workingBody.includes("sent --> checking");
+console.log(`  ${dividerCount === 2 ? "✅" : "❌"} Exactly two '--' dividers for three regions (found ${dividerCount})`);
+console.log(`  ${!crossRegionInside ? "✅" : "❌"} Cross-region edge is drawn outside the parallel block`);
+if (dividerCount !== 2 || crossRegionInside) {
+  allPassed = false;
+}
+
+runChecks("Parallel state + toMermaid", toMermaid(uploadMachine), [
+  { name: "Fork pseudo-state declared", pattern: /state working_fork <<fork>>/ },
+  { name: "Parallel state enters the fork", pattern: /working --> working_fork\n/ },
+  { name: "Fork enters region 'transfer'", pattern: /working_fork --> transfer/ },
+  { name: "Fork enters region 'validation'", pattern: /working_fork --> validation/ },
+  { name: "Fork enters atomic region 'audit'", pattern: /working_fork --> audit/ },
+  { name: "Cross-region edge is rendered", pattern: /sent --> checking: <b>RECHECK<\/b>/ },
+]);
+
+const parallelRootNested = toMermaidNested(parallelRootMachine);
+runChecks("Parallel root + toMermaidNested", parallelRootNested, [
+  { name: "Root enters the machine block", pattern: /^ {4}\[\*\] --> editor\n {4}state editor \{$/m },
+  { name: "Region 'bold' is the first section", pattern: /^ {4}state editor \{\n {8}state bold \{$/m },
+  { name: "Regions separated by a divider", pattern: /^ {8}\}\n {8}--\n {8}state italic \{$/m },
+  { name: "Region-internal toggle rendered", pattern: /off --> on: <b>TOGGLE_BOLD<\/b>/ },
+]);
+
+try {
+  await mermaid.parse(parallelRootNested);
+  console.log("  ✅ Parallel root diagram parses as stateDiagram-v2");
+} catch (err) {
+  console.log(`  ❌ Parallel root diagram parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`);
+  allPassed = false;
+}
+
+runChecks("Parallel root + toMermaid", toMermaid(parallelRootMachine), [
+  { name: "Root enters region 'bold'", pattern: /^ {4}\[\*\] --> bold$/m },
+  { name: "Root enters region 'italic'", pattern: /^ {4}\[\*\] --> italic$/m },
+]);
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL PARALLEL CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ PARALLEL CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,154 @@
+#!/usr/bin/env npx tsx
+/**
+ * PATH COVERAGE TEST
+ *
+ * Ensures toMermaidPath():
+ * 1. Finds the shortest path to a target state (by id or path) via @xstate/graph
+ * 2. Replays an explicit event sequence, including eventless steps in between
+ * 3. Accepts paths from getSimplePaths / getShortestPaths directly
+ * 4. Numbers the transitions on the path, dims the others and classes the states
+ * 5. Rejects unknown targets and events the current state does not handle
+ * 6. Produces output Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { getSimplePaths } from "@xstate/graph";
+import { setup } from "xstate";
+import { toMermaidPath } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE: routing through an eventless choice, with a loop
+// ============================================================================
+const ticketMachine = setup({
+  types: {
+    events: {} as { type: "OPEN" } | { type: "REOPEN" } | { type: "CLOSE" },
+  },
+  guards: {
+    isUrgent: () => false,
+  },
+}).createMachine({
+  id: "ticket",
+  initial: "new",
+  states: {
+    new: {
+      on: { OPEN: "triage" },
+    },
+    triage: {
+      always: [
+        { guard: "isUrgent", target: "escalated" },
+        { target: "queued" },
+      ],
+    },
+    escalated: {},
+    queued: {
+      on: { CLOSE: "closed" },
+    },
+    closed: {
+      on: { REOPEN: "triage" },
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== PATH COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) allPassed = false;
+}
+
+const toFailed = toMermaidPath(orderMachine, { to: "order.failed" });
+runChecks("Shortest path idle -> failed (nested)", toFailed, [
+  { name: "Step 1 numbered", pattern: /idle --> validating: <b>1\.<\/b> <b>SUBMIT<\/b>/ },
+  { name: "Delayed step 2 numbered", pattern: /validating --> processing: <b>2\.<\/b> <i>after<\/i> 5000ms/ },
+  { name: "Step 3 reaches failed", pattern: /processing --> failed: <b>3\.<\/b> <b>PAYMENT_FAILED<\/b>/ },
+  { name: "Off-path transitions dimmed", pattern: /processing --> completed: <span style='opacity:0\.4'><b>PAYMENT_SUCCESS<\/b><\/span>/ },
+  { name: "Path states classed", pattern: /^ {4}class idle,validating,processing,failed path$/m },
+  { name: "Other states dimmed", pattern: /^ {4}class completed,cancelled dimmed$/m },
+  { name: "Default path style", pattern: /^ {4}classDef path fill:#dbeafe,stroke:#2563eb,stroke-width:3px$/m },
+]);
+
+runChecks("Target by path, flat renderer", toMermaidPath(orderMachine, { to: "completed" }, { nested: false, pathStateStyle: "fill:#cfc" }), [
+  { name: "Resolves a path target", pattern: /processing --> completed: <b>3\.<\/b>/ },
+  { name: "Custom path style", pattern: /^ {4}classDef path fill:#cfc$/m },
+]);
+
+const replay = toMermaidPath(ticketMachine, [{ type: "OPEN" }, { type: "CLOSE" }, { type: "REOPEN" }]);
+runChecks("Explicit events with eventless steps and a loop", replay, [
+  { name: "Event step", pattern: /new --> triage: <b>1\.<\/b> <b>OPEN<\/b>/ },
+  { name: "Eventless fallback taken twice", pattern: /triage --> queued: <b>2, 5\.<\/b> <i>always<\/i>/ },
+  { name: "Guarded candidate not taken is dimmed", pattern: /triage --> escalated: <span style='opacity:0\.4'><i>always<\/i> IF isUrgent<\/span>/ },
+  { name: "Loop back numbered", pattern: /closed --> triage: <b>4\.<\/b> <b>REOPEN<\/b>/ },
+  { name: "Unvisited state dimmed", pattern: /^ {4}class escalated dimmed$/m },
+]);
+
+const simplePath = getSimplePaths(ticketMachine, {
+  toState: snapshot => snapshot.matches("closed"),
+})[0];
+check("getSimplePaths returns a path to closed", !!simplePath);
+if (simplePath) {
+  runChecks("Path from getSimplePaths", toMermaidPath(ticketMachine, simplePath, { guardedChoices: true }), [
+    { name: "Source enters the choice on the path", pattern: /triage --> triage_always_choice: <b>2\.<\/b> <i>always<\/i>/ },
+    { name: "Else branch numbered", pattern: /triage_always_choice --> queued: <b>2\.<\/b> \(2\) else/ },
+    { name: "Choice branch off the path dimmed", pattern: /triage_always_choice --> escalated: <span style='opacity:0\.4'>/ },
+  ]);
+}
+
+console.log("\n--- Errors ---\n");
+const errorOf = (fn: () => unknown) => {
+  try {
+    fn();
+    return "";
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+check("Unknown target state rejected", /"refunded"/.test(errorOf(() => toMermaidPath(orderMachine, { to: "refunded" }))));
+check("Unreachable target rejected", /No path reaches "escalated"/.test(errorOf(() => toMermaidPath(ticketMachine, { to: "escalated" }))));
+check("Unhandled event rejected", /"CLOSE" is not handled/.test(errorOf(() => toMermaidPath(ticketMachine, [{ type: "CLOSE" }]))));
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["shortest path", toFailed], ["event replay", replay]] as const) {
+  try {
+    await mermaid.parse(output);
+    check(`${title} parses as stateDiagram-v2`, true);
+  } catch (err) {
+    check(`${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`, false);
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL PATH CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ PATH CHECKS FAILED");
+  process.exit(1);
+}
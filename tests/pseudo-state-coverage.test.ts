@@ -0,0 +1,120 @@
+#!/usr/bin/env npx tsx
+/**
+ * PSEUDO-STATE COVERAGE TEST
+ *
+ * Ensures the structural fields listed in field-coverage.test.ts get a
+ * dedicated rendering in both toMermaid() and toMermaidNested():
+ * 1. `type: "final"` states are wired to [*] inside their parent scope
+ * 2. `onDone` transitions are labelled "done" (not xstate.done.state.*)
+ * 3. `type: "history"` states render as H (shallow) / H* (deep) markers
+ *    with an edge to their default `target`
+ */
+import { setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// ============================================================================
+// TEST MACHINE: compound with final child, onDone, shallow + deep history
+// ============================================================================
+const editorMachine = setup({
+  types: {
+    events: {} as
+      | { type: "SAVE" }
+      | { type: "LEAVE" }
+      | { type: "RESUME" }
+      | { type: "RESTART" },
+  },
+}).createMachine({
+  id: "editor",
+  initial: "editing",
+  states: {
+    editing: {
+      initial: "draft",
+      onDone: { target: "published" },
+      states: {
+        draft: {
+          on: { SAVE: "saved", LEAVE: "#editor.away" },
+        },
+        saved: {
+          type: "final",
+        },
+        // Deep history without target: defaults to parent's initial (draft)
+        resumePoint: {
+          type: "history",
+          history: "deep",
+        },
+        // Shallow history with explicit default target
+        lastStep: {
+          type: "history",
+          target: "saved",
+        },
+      },
+    },
+    away: {
+      on: {
+        RESUME: "editing.resumePoint",
+        RESTART: "editing.lastStep",
+      },
+    },
+    published: {
+      type: "final",
+      description: "Visible to readers",
+    },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== PSEUDO-STATE COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const sharedChecks = [
+  { name: "Top-level final state wired to [*]", pattern: /published --> \[\*\]/ },
+  { name: "Final state keeps its label", pattern: /published: .*Visible to readers/ },
+  { name: "onDone edge labelled 'done'", pattern: /editing --> published: <i>done<\/i>/ },
+  { name: "No raw xstate.done.state event names", pattern: /^(?![\s\S]*xstate\.done\.state)/ },
+  { name: "Deep history drawn as H*", pattern: /state "H\*" as resumePoint/ },
+  { name: "Deep history defaults to parent's initial", pattern: /resumePoint --> draft/ },
+  { name: "Shallow history drawn as H", pattern: /state "H" as lastStep/ },
+  { name: "Shallow history edge to explicit target", pattern: /lastStep --> saved/ },
+  { name: "Transitions into history states rendered", pattern: /away --> resumePoint: <b>RESUME<\/b>/ },
+];
+
+runChecks("toMermaid", toMermaid(editorMachine), [
+  ...sharedChecks,
+  { name: "Nested final state wired to [*]", pattern: /saved --> \[\*\]/ },
+]);
+
+runChecks("toMermaidNested", toMermaidNested(editorMachine), [
+  ...sharedChecks,
+  { name: "Nested final wired to [*] inside parent block", pattern: /state editing \{[^}]*saved --> \[\*\][^}]*\}/ },
+  { name: "History markers inside parent block", pattern: /state editing \{[^}]*state "H\*" as resumePoint[^}]*\}/ },
+]);
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL PSEUDO-STATE CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ PSEUDO-STATE CHECKS FAILED");
+  process.exit(1);
+}
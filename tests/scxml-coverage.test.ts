@@ -0,0 +1,312 @@
+#!/usr/bin/env npx tsx
+/**
+ * SCXML COVERAGE TEST
+ *
+ * Ensures toSCXML():
+ * 1. Produces well-formed XML in the SCXML namespace
+ * 2. Round-trips the example order machine: a machine rebuilt from the SCXML
+ *    has the same states, transitions, guards, actions, invokes and delays
+ * 3. Emits <parallel>, <final>, <history>, eventless transitions, done events,
+ *    guard expressions, <datamodel> and <donedata>
+ * 4. Reports assign, inline functions, params, tags, meta and similar
+ *    features as warnings instead of exporting them
+ */
+import { JSDOM } from "jsdom";
+import { and, assign, createMachine, fromPromise, not, or, setup, stateIn, type AnyStateMachine } from "xstate";
+import { toSCXML, XSTATE_SCXML_NAMESPACE } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+const { DOMParser } = new JSDOM("").window;
+const SCXML_NAMESPACE = "http://www.w3.org/2005/07/scxml";
+
+// ============================================================================
+// SCXML -> XSTATE: just enough of a reader to rebuild the exported features
+// ============================================================================
+type StateConfig = Record<string, unknown>;
+
+function parseSCXML(scxml: string): Document {
+  const doc = new DOMParser().parseFromString(scxml, "application/xml");
+  const error = doc.getElementsByTagName("parsererror")[0];
+  if (error) {
+    throw new Error(error.textContent ?? "parse error");
+  }
+  return doc;
+}
+
+function childElements(element: Element, ...names: string[]): Element[] {
+  return Array.from(element.children).filter(child => names.includes(child.localName));
+}
+
+function actionNames(element: Element | undefined): string[] {
+  if (!element) return [];
+  return childElements(element, "action")
+    .filter(action => action.namespaceURI === XSTATE_SCXML_NAMESPACE)
+    .map(action => action.getAttribute("type") ?? "");
+}
+
+function rebuildState(element: Element): StateConfig {
+  const config: StateConfig = {};
+  const onentry = childElements(element, "onentry")[0];
+  const sends = new Map(
+    (onentry ? childElements(onentry, "send") : []).map(send => [send.getAttribute("event") ?? "", parseInt(send.getAttribute("delay") ?? "", 10)])
+  );
+
+  if (element.localName === "parallel") config.type = "parallel";
+  if (element.localName === "final") config.type = "final";
+  if (element.localName === "history") {
+    config.type = "history";
+    config.history = element.getAttribute("type") ?? "shallow";
+  }
+  const initial = element.getAttribute("initial");
+  if (initial) config.initial = initial.substring(initial.lastIndexOf(".") + 1);
+
+  const entry = actionNames(onentry);
+  if (entry.length > 0) config.entry = entry;
+  const exit = actionNames(childElements(element, "onexit")[0]);
+  if (exit.length > 0) config.exit = exit;
+
+  const on: Record<string, unknown[]> = {};
+  const after: Record<number, unknown[]> = {};
+  const always: unknown[] = [];
+  for (const transition of childElements(element, "transition")) {
+    const event = transition.getAttribute("event");
+    const cond = transition.getAttribute("cond");
+    const target = transition.getAttribute("target");
+    const actions = actionNames(transition);
+    const rebuilt = {
+      ...(target ? { target: target.split(" ").map(id => `#${id}`) } : {}),
+      ...(cond ? { guard: cond } : {}),
+      ...(actions.length > 0 ? { actions } : {}),
+    };
+    const delay = event ? sends.get(event) : undefined;
+    if (event && delay !== undefined) {
+      (after[delay] ??= []).push(rebuilt);
+    } else if (event) {
+      (on[event] ??= []).push(rebuilt);
+    } else {
+      always.push(rebuilt);
+    }
+  }
+  if (Object.keys(on).length > 0) config.on = on;
+  if (Object.keys(after).length > 0) config.after = after;
+  if (always.length > 0) config.always = always;
+
+  const invoke = childElements(element, "invoke").map(inv => ({ id: inv.getAttribute("id"), src: inv.getAttribute("src") }));
+  if (invoke.length > 0) config.invoke = invoke;
+
+  const states = childElements(element, "state", "parallel", "final", "history");
+  if (states.length > 0) {
+    config.states = Object.fromEntries(states.map(state => {
+      const id = state.getAttribute("id") ?? "";
+      return [id.substring(id.lastIndexOf(".") + 1), rebuildState(state)];
+    }));
+  }
+  return config;
+}
+
+function machineFromSCXML(scxml: string): AnyStateMachine {
+  const root = parseSCXML(scxml).documentElement;
+  const config = rebuildState(root);
+  return createMachine({ ...config, id: root.getAttribute("name") ?? "" } as Parameters<typeof createMachine>[0]);
+}
+
+// ============================================================================
+// STRUCTURAL PROJECTION: what both machines must agree on
+// ============================================================================
+type NodeLike = {
+  id: string;
+  type: string;
+  states: Record<string, NodeLike>;
+  entry: unknown[];
+  exit: unknown[];
+  after: Array<{ delay: unknown; target?: NodeLike[] }>;
+  transitions: Map<string, Array<{ guard?: unknown; actions: unknown[]; target?: NodeLike[] }>>;
+  invoke: Array<{ id: string; src: unknown }>;
+};
+
+const nameOf = (ref: unknown): string =>
+  typeof ref === "string" ? ref : String((ref as { type?: unknown } | undefined)?.type ?? "?");
+
+function project(node: NodeLike): string[] {
+  const lines = [`${node.id} [${node.type}] entry=${node.entry.map(nameOf).filter(name => !name.startsWith("xstate.")).join(",")} exit=${node.exit.map(nameOf).filter(name => !name.startsWith("xstate.")).join(",")}`];
+  for (const [event, transitions] of node.transitions) {
+    if (event.startsWith("xstate.after.")) continue;
+    for (const t of transitions) {
+      lines.push(`  ${event} -> ${(t.target ?? []).map(target => target.id).join(",")} guard=${t.guard ? nameOf(t.guard) : ""} actions=${t.actions.map(nameOf).join(",")}`);
+    }
+  }
+  for (const t of node.after) {
+    lines.push(`  after ${String(t.delay)} -> ${(t.target ?? []).map(target => target.id).join(",")}`);
+  }
+  for (const inv of node.invoke) {
+    lines.push(`  invoke ${inv.id} ${nameOf(inv.src)}`);
+  }
+  return [...lines, ...Object.values(node.states).flatMap(project)];
+}
+
+// ============================================================================
+// TEST MACHINE: every exported element and every warning
+// ============================================================================
+const labMachine = setup({
+  guards: { isValid: () => true, isAdmin: () => true, isLocked: () => false },
+  actions: { notify: () => {} },
+  delays: { slow: 1000 },
+  actors: { fetchUser: fromPromise(async () => ({})) },
+}).createMachine({
+  id: "lab",
+  initial: "editing",
+  context: { count: 0, name: "a<b" },
+  states: {
+    editing: {
+      meta: { owner: "shop" },
+      after: { slow: "checking" },
+      on: {
+        SAVE: { guard: and(["isValid", not("isLocked")]), target: "checking", actions: [assign({ count: 1 }), () => {}] },
+        "OPEN PANEL": { guard: or([{ type: "isAdmin", params: { role: 1 } }, stateIn("#lab.work")]), actions: "notify" },
+        TICK: { guard: () => true, target: "editing" },
+      },
+    },
+    checking: { always: [{ guard: "isValid", target: "work" }, { target: "editing" }] },
+    work: {
+      type: "parallel",
+      onDone: "done",
+      states: {
+        profile: {
+          initial: "loading",
+          invoke: { id: "user", src: "fetchUser", input: { id: 1 }, onDone: ".loaded" },
+          states: {
+            loading: {},
+            loaded: { type: "final" },
+            resume: { type: "history", history: "deep" },
+          },
+        },
+        audit: {},
+      },
+    },
+    done: { type: "final", output: { ok: true } },
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== SCXML COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) {
+    allPassed = false;
+  }
+}
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated SCXML:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const { name, pattern, absent } of checks) {
+    check(name, pattern.test(output) !== (absent ?? false));
+  }
+}
+
+const order = toSCXML(orderMachine);
+runChecks("Example order machine", order.scxml, [
+  { name: "SCXML root with initial state", pattern: /<scxml xmlns="http:\/\/www\.w3\.org\/2005\/07\/scxml" xmlns:xstate="urn:xstate:actions" version="1\.0" datamodel="ecmascript" name="order" initial="order\.idle">/ },
+  { name: "Guarded transition with action placeholder", pattern: /<transition event="SUBMIT" cond="stockAvailable" target="order\.validating">\n {6}<xstate:action type="reserveStock"\/>\n {4}<\/transition>/ },
+  { name: "Delayed event sent on entry", pattern: /<onentry>\n {6}<xstate:action type="notifyUser"\/>\n {6}<send event="xstate\.after\.5000\.order\.validating" id="xstate\.after\.5000\.order\.validating" delay="5000ms"\/>\n {4}<\/onentry>/ },
+  { name: "Delayed event cancelled on exit", pattern: /<onexit>\n {6}<cancel sendid="xstate\.after\.5000\.order\.validating"\/>\n {4}<\/onexit>/ },
+  { name: "Invoke", pattern: /<invoke id="payment" src="paymentProcessor"\/>/ },
+]);
+
+console.log("\nRound trip:");
+let rebuilt: AnyStateMachine | undefined;
+try {
+  rebuilt = machineFromSCXML(order.scxml);
+  check("Output parses as XML", true);
+} catch (err) {
+  check(`Output parses as XML: ${(err as Error).message.split("\n")[0]}`, false);
+}
+if (rebuilt) {
+  const expected = project(orderMachine.root as unknown as NodeLike);
+  const actual = project(rebuilt.root as unknown as NodeLike);
+  for (const line of expected.filter(line => !actual.includes(line))) {
+    console.log(`    missing: ${line}`);
+  }
+  for (const line of actual.filter(line => !expected.includes(line))) {
+    console.log(`    unexpected: ${line}`);
+  }
+  check("Rebuilt machine has the same structure", expected.join("\n") === actual.join("\n"));
+  check("Rebuilt machine starts in the same state", rebuilt.root.initial?.target[0]?.id === orderMachine.root.initial?.target[0]?.id);
+  check("Only tags and descriptions reported", order.warnings.length === 2 && order.warnings.every(warning => /^(Tags|Descriptions) are not exported: /.test(warning)));
+}
+
+const lab = toSCXML(labMachine);
+runChecks("Every exported element", lab.scxml, [
+  { name: "Static context as datamodel", pattern: /<datamodel>\n {4}<data id="count" expr="0"\/>\n {4}<data id="name" expr="&quot;a&lt;b&quot;"\/>\n {2}<\/datamodel>/ },
+  { name: "Named delay as delayexpr", pattern: /<send event="xstate\.after\.slow\.lab\.editing" id="xstate\.after\.slow\.lab\.editing" delayexpr="slow"\/>/ },
+  { name: "and / not guards as expression", pattern: /<transition event="SAVE" cond="isValid &amp;&amp; !isLocked" target="lab\.checking"\/>/ },
+  { name: "or / stateIn guards, whitespace in event replaced", pattern: /<transition event="OPEN_PANEL" cond="isAdmin \|\| In\(&apos;lab\.work&apos;\)">/ },
+  { name: "Inline guard dropped", pattern: /<transition event="TICK" target="lab\.editing"\/>/ },
+  { name: "Eventless transitions in order", pattern: /<transition cond="isValid" target="lab\.work"\/>\n {4}<transition target="lab\.editing"\/>/ },
+  { name: "Parallel state", pattern: /<parallel id="lab\.work">/ },
+  { name: "Done state event", pattern: /<transition event="done\.state\.lab\.work" target="lab\.done"\/>/ },
+  { name: "Done invoke event, internal to the source", pattern: /<transition event="done\.invoke\.user" target="lab\.work\.profile\.loaded" type="internal"\/>/ },
+  { name: "Compound state initial attribute", pattern: /<state id="lab\.work\.profile" initial="lab\.work\.profile\.loading">/ },
+  { name: "History with default transition", pattern: /<history id="lab\.work\.profile\.resume" type="deep">\n {8}<transition target="lab\.work\.profile\.loading"\/>\n {6}<\/history>/ },
+  { name: "Final state with donedata", pattern: /<final id="lab\.done">\n {4}<donedata>\n {6}<content expr="\{&quot;ok&quot;:true\}"\/>/ },
+  { name: "Empty state self-closing", pattern: /<state id="lab\.work\.audit"\/>/ },
+  { name: "No assign or inline action exported", pattern: /assign|<xstate:action type="undefined"/, absent: true },
+]);
+
+console.log("\nWarnings:");
+console.log(lab.warnings.map(warning => `    ${warning}`).join("\n"));
+for (const expected of [
+  "Meta is not exported: lab.editing",
+  "Named delays are exported as delayexpr: lab.editing (entry)",
+  "Built-in action xstate.assign is not exported: lab.editing (SAVE)",
+  "Inline action functions are not exported: lab.editing (SAVE)",
+  "Guard params are not exported: lab.editing (OPEN PANEL)",
+  "Whitespace in event names replaced by _: lab.editing (OPEN PANEL)",
+  "Invoke input is not exported: lab.work.profile",
+]) {
+  check(`Warns: ${expected}`, lab.warnings.includes(expected));
+}
+check("Warns about the inline guard", lab.warnings.some(warning => warning.startsWith("Inline guard functions") && warning.endsWith("lab.editing (TICK)")));
+
+const parallelRoot = toSCXML(createMachine({
+  id: "split",
+  type: "parallel",
+  entry: "start",
+  states: { "left side": {}, right: {} },
+}));
+runChecks("Parallel root", parallelRoot.scxml, [
+  { name: "Root kept as top-level parallel", pattern: /initial="split">\n {2}<parallel id="split">\n {4}<onentry>\n {6}<xstate:action type="start"\/>/ },
+  { name: "Invalid id rewritten", pattern: /<state id="_split.left_side"\/>/ },
+]);
+check("Warns about the rewritten id", parallelRoot.warnings.includes("State ids rewritten as XML ids: split.left side -> _split.left_side"));
+
+console.log("\nXML:");
+for (const [title, output] of [["lab", lab.scxml], ["parallel root", parallelRoot.scxml]] as const) {
+  try {
+    const root = parseSCXML(output).documentElement;
+    check(`${title} parses as XML in the SCXML namespace`, root.namespaceURI === SCXML_NAMESPACE && root.localName === "scxml");
+  } catch (err) {
+    check(`${title} parses as XML: ${(err as Error).message.split("\n")[0]}`, false);
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL SCXML CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ SCXML CHECKS FAILED");
+  process.exit(1);
+}
@@ -0,0 +1,168 @@
+#!/usr/bin/env npx tsx
+/**
+ * SEQUENCE DIAGRAM COVERAGE TEST
+ *
+ * Records an order run through XState's inspect API and ensures toMermaidSequence():
+ * 1. Declares the root machine and invoked/spawned children as participants
+ * 2. Draws external events, sendTo/sendParent messages and delayed self-events,
+ *    with formatEventName applied
+ * 3. Notes state changes (dotted leaf paths for parallel states) and final statuses
+ * 4. Accepts a plain array of hand-written inspection events
+ * 5. Produces output Mermaid's sequenceDiagram parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { createActor, createMachine, sendParent, sendTo, setup, SimulatedClock, type InspectionEvent } from "xstate";
+import { toMermaidSequence } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINES: order that invokes a payment processor and spawns an auditor
+// ============================================================================
+const paymentProcessor = createMachine({
+  id: "payment",
+  initial: "charging",
+  states: {
+    charging: {
+      on: { CHARGE: { target: "charged", actions: sendParent({ type: "PAID" }) } },
+    },
+    charged: { type: "final" },
+  },
+});
+
+const auditor = createMachine({ id: "auditor", initial: "listening", states: { listening: {} } });
+
+const orderMachine = setup({
+  types: {
+    events: {} as { type: "SUBMIT" } | { type: "PAID" },
+  },
+  actors: { paymentProcessor, auditor },
+}).createMachine({
+  id: "order",
+  initial: "idle",
+  states: {
+    idle: {
+      on: { SUBMIT: "fulfilment" },
+    },
+    fulfilment: {
+      type: "parallel",
+      states: {
+        payment: {
+          initial: "paying",
+          states: {
+            paying: {
+              invoke: { id: "payment", src: "paymentProcessor" },
+              entry: sendTo("payment", { type: "CHARGE" }),
+              on: { PAID: "paid" },
+            },
+            paid: { type: "final" },
+          },
+        },
+        audit: {
+          initial: "running",
+          states: {
+            running: {
+              invoke: { id: "audit", src: "auditor" },
+            },
+          },
+        },
+      },
+      after: { 3000: "archived" },
+    },
+    archived: { type: "final" },
+  },
+});
+
+const recorded: InspectionEvent[] = [];
+const clock = new SimulatedClock();
+const actor = createActor(orderMachine, { clock, inspect: event => recorded.push(event) }).start();
+actor.send({ type: "SUBMIT" });
+clock.increment(3000);
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== SEQUENCE DIAGRAM COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const recordedOutput = toMermaidSequence(recorded, { title: "Order run", autonumber: true });
+runChecks("Recorded run", recordedOutput, [
+  { name: "Frontmatter title", pattern: /^---\ntitle: "Order run"\n---\nsequenceDiagram\n {4}autonumber\n/ },
+  { name: "External sender declared first", pattern: /sequenceDiagram\n {4}autonumber\n {4}participant external as \(external\)\n {4}participant order\n/ },
+  { name: "Invoked child named by its implementation", pattern: /^ {4}participant paymentProcessor$/m },
+  { name: "Second invoked child declared", pattern: /^ {4}participant auditor$/m },
+  { name: "Root start shown as initial state note", pattern: /^ {4}Note over order: idle$/m },
+  { name: "External event", pattern: /^ {4}external->>order: SUBMIT$/m },
+  { name: "sendTo message", pattern: /^ {4}order->>paymentProcessor: CHARGE$/m },
+  { name: "Child start message", pattern: /^ {4}order->>paymentProcessor: xstate.init$/m },
+  { name: "sendParent message", pattern: /^ {4}paymentProcessor->>order: PAID$/m },
+  { name: "Delayed self-event formatted", pattern: /^ {4}order->>order: after 3000ms$/m },
+  { name: "Parallel state as dotted leaf paths", pattern: /^ {4}Note over order: fulfilment\.payment\.paid, fulfilment\.audit\.running$/m },
+  { name: "Child final status noted", pattern: /^ {4}Note over paymentProcessor: charged \(done\)$/m },
+  { name: "Stopped child noted", pattern: /^ {4}Note over auditor: listening \(stopped\)$/m },
+  { name: "Root final status noted", pattern: /^ {4}Note over order: archived \(done\)$/m },
+  { name: "Raw delayed event name not shown", pattern: /xstate\.after/, absent: true },
+]);
+
+runChecks("Without state notes", toMermaidSequence(recorded, { includeStateNotes: false }), [
+  { name: "No notes", pattern: /Note over/, absent: true },
+  { name: "Messages kept", pattern: /^ {4}paymentProcessor->>order: PAID$/m },
+]);
+
+// Plain objects, e.g. rebuilt from a log
+const ref = (id: string, sessionId: string, src?: string) => ({ id, sessionId, ...(src ? { src } : {}) });
+const plainOutput = toMermaidSequence([
+  { type: "@xstate.actor", actorRef: ref("x:0", "s0") },
+  { type: "@xstate.snapshot", actorRef: ref("x:0", "s0"), snapshot: { value: "waiting", status: "active" } },
+  { type: "@xstate.event", actorRef: ref("end", "s1", "end"), sourceRef: ref("x:0", "s0"), event: { type: "ping; #1 <b>" } },
+  { type: "@xstate.snapshot", actorRef: ref("x:0", "s0"), snapshot: { value: "waiting", status: "active" } },
+]);
+runChecks("Plain inspection events", plainOutput, [
+  { name: "Actor without src or machine named by id", pattern: /^ {4}participant x_0 as x∶0$/m },
+  { name: "Keyword ids suffixed", pattern: /^ {4}participant end_ as end$/m },
+  { name: "Message text escaped", pattern: /^ {4}x_0->>end_: ping#59; #35;1 #lt;b#gt;$/m },
+  { name: "Unchanged state noted once", pattern: /Note over x_0: waiting[\s\S]*Note over x_0: waiting/, absent: true },
+  { name: "No external participant without external events", pattern: /external/, absent: true },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["recorded run", recordedOutput], ["plain events", plainOutput]] as const) {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as sequenceDiagram`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as sequenceDiagram: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL SEQUENCE CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ SEQUENCE CHECKS FAILED");
+  process.exit(1);
+}
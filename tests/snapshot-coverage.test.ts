@@ -0,0 +1,159 @@
+#!/usr/bin/env npx tsx
+/**
+ * SNAPSHOT COVERAGE TEST
+ *
+ * Runs an actor into a parallel configuration and ensures toMermaidSnapshot():
+ * 1. Marks every active state (ancestors and one leaf per parallel region)
+ *    with classDef/class, using the same ids as the static diagram
+ * 2. Works from a persisted snapshot as well as a live one
+ * 3. Optionally underlines transitions leaving active states (ancestors included)
+ * 4. Rejects snapshots that name states the machine does not have
+ * 5. Produces output Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { createActor, setup } from "xstate";
+import { getActiveStateIds, toMermaid, toMermaidNested, toMermaidSnapshot } from "../index.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TEST MACHINE: order stuck in fulfilment with payment and shipping regions
+// ============================================================================
+const orderMachine = setup({
+  types: {
+    events: {} as { type: "PLACE" } | { type: "PAID" } | { type: "SHIPPED" } | { type: "CANCEL" },
+  },
+}).createMachine({
+  id: "order",
+  initial: "draft",
+  states: {
+    draft: {
+      on: { PLACE: "fulfilment" },
+    },
+    fulfilment: {
+      type: "parallel",
+      on: { CANCEL: "cancelled" },
+      states: {
+        payment: {
+          initial: "pending",
+          states: {
+            pending: { on: { PAID: "paid" } },
+            paid: {},
+          },
+        },
+        shipping: {
+          initial: "waiting",
+          states: {
+            waiting: { on: { SHIPPED: "shipped" } },
+            shipped: {},
+          },
+        },
+      },
+    },
+    cancelled: { type: "final" },
+  },
+});
+
+const actor = createActor(orderMachine).start();
+actor.send({ type: "PLACE" });
+actor.send({ type: "PAID" });
+const snapshot = actor.getSnapshot();
+// Round-trip through JSON, like a snapshot loaded from the database
+const persisted = JSON.parse(JSON.stringify(actor.getPersistedSnapshot())) as { value: typeof snapshot.value };
+actor.stop();
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== SNAPSHOT COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+function check(name: string, passed: boolean): void {
+  console.log(`  ${passed ? "✅" : "❌"} ${name}`);
+  if (!passed) allPassed = false;
+}
+
+console.log("--- getActiveStateIds ---\n");
+const expectedIds = [
+  "order.fulfilment",
+  "order.fulfilment.payment",
+  "order.fulfilment.payment.paid",
+  "order.fulfilment.shipping",
+  "order.fulfilment.shipping.waiting",
+];
+check("Active ids include ancestors and every region leaf", getActiveStateIds(orderMachine, snapshot).join() === expectedIds.join());
+check("Persisted snapshot resolves to the same ids", getActiveStateIds(orderMachine, persisted).join() === expectedIds.join());
+let unknownError = "";
+try {
+  getActiveStateIds(orderMachine, { value: { fulfilment: { payment: "refunded" } } });
+} catch (err) {
+  unknownError = (err as Error).message;
+}
+check("Unknown snapshot state is rejected", /"refunded".*"order\.fulfilment\.payment"/.test(unknownError));
+
+const classChecks = [
+  { name: "Active classDef declared", pattern: /^ {4}classDef active fill:#fde68a,stroke:#d97706,stroke-width:3px$/m },
+  { name: "Active states (both region leaves) marked", pattern: /^ {4}class fulfilment,payment,paid,shipping,waiting active$/m },
+  { name: "Enabled transitions not emphasised by default", pattern: /<u>/, absent: true },
+];
+
+const nested = toMermaidSnapshot(orderMachine, snapshot);
+runChecks("toMermaidSnapshot (nested, default)", nested, [
+  ...classChecks,
+  { name: "Static nested diagram unchanged above the class statements", pattern: new RegExp(`^${escapeRegExp(toMermaidNested(orderMachine))}\\n {4}classDef`) },
+]);
+
+const flat = toMermaidSnapshot(orderMachine, persisted, { nested: false, highlightEnabledTransitions: true, activeStateStyle: "fill:#f96" });
+runChecks("toMermaidSnapshot (flat, persisted, enabled transitions)", flat, [
+  { name: "Custom active style", pattern: /^ {4}classDef active fill:#f96$/m },
+  { name: "Active states marked", pattern: /^ {4}class fulfilment,payment,paid,shipping,waiting active$/m },
+  { name: "Transition of active leaf underlined", pattern: /waiting --> shipped: <u><b>SHIPPED<\/b><\/u>/ },
+  { name: "Transition of active ancestor underlined", pattern: /fulfilment --> cancelled: <u><b>CANCEL<\/b><\/u>/ },
+  { name: "Transition of inactive state plain", pattern: /draft --> fulfilment: <b>PLACE<\/b>$/m },
+  { name: "Same ids as the static diagram", pattern: new RegExp(`^${escapeRegExp(toMermaid(orderMachine).split("\n").slice(0, 3).join("\n"))}`) },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["nested snapshot", nested], ["flat snapshot", flat]] as const) {
+  try {
+    await mermaid.parse(output);
+    check(`${title} parses as stateDiagram-v2`, true);
+  } catch (err) {
+    check(`${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`, false);
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL SNAPSHOT CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ SNAPSHOT CHECKS FAILED");
+  process.exit(1);
+}
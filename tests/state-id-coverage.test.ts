@@ -0,0 +1,121 @@
+#!/usr/bin/env npx tsx
+/**
+ * STATE ID COVERAGE TEST
+ *
+ * Ensures states that share a short name never collapse into one Mermaid node:
+ * 1. "auto" ids keep unique short names and derive path ids for collisions
+ * 2. Colliding states keep their short display name via `state "x" as id` aliases
+ * 3. toMermaid() renders every state's label (no dedupe by short name)
+ * 4. "path" ids and fullyQualifiedNames work in both renderers
+ * 5. Names that are not Mermaid-safe ("in-progress") get sanitised ids
+ */
+import { setup } from "xstate";
+import { toMermaid, toMermaidNested } from "../index.js";
+
+// ============================================================================
+// TEST MACHINE: two sibling compounds with the same child names
+// ============================================================================
+const checkoutMachine = setup({
+  types: {
+    events: {} as
+      | { type: "ADD" }
+      | { type: "PAY" }
+      | { type: "FAIL" }
+      | { type: "BACK" }
+      | { type: "START" },
+  },
+}).createMachine({
+  id: "checkout",
+  initial: "cart",
+  states: {
+    cart: {
+      initial: "idle",
+      states: {
+        idle: { description: "CART_IDLE_LABEL", on: { ADD: "error" } },
+        error: { description: "CART_ERROR_LABEL" },
+      },
+    },
+    payment: {
+      initial: "idle",
+      states: {
+        idle: { description: "PAYMENT_IDLE_LABEL", on: { PAY: "error" } },
+        error: { on: { BACK: "#checkout.cart.idle" } },
+      },
+    },
+    "in-progress": {
+      on: { START: "cart" },
+    },
+    done: {},
+  },
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== STATE ID COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const autoChecks = [
+  { name: "cart.idle gets path id, short display name", pattern: /cart_idle: <b>idle<\/b>.*CART_IDLE_LABEL/ },
+  { name: "payment.idle gets its own node", pattern: /payment_idle: <b>idle<\/b>.*PAYMENT_IDLE_LABEL/ },
+  { name: "cart.error keeps its label", pattern: /cart_error: .*CART_ERROR_LABEL/ },
+  { name: "payment.error aliased to short name", pattern: /state "error" as payment_error/ },
+  { name: "Edge inside cart uses cart ids", pattern: /cart_idle --> cart_error: <b>ADD<\/b>/ },
+  { name: "Edge inside payment uses payment ids", pattern: /payment_idle --> payment_error: <b>PAY<\/b>/ },
+  { name: "Cross-compound edge resolves both ids", pattern: /payment_error --> cart_idle: <b>BACK<\/b>/ },
+  { name: "Unique names stay short", pattern: /^ {4}done: done$/m },
+  { name: "Unsafe name gets sanitised id + alias", pattern: /state "in-progress" as in_progress/ },
+  { name: "Edge from sanitised id", pattern: /in_progress --> cart: <b>START<\/b>/ },
+  { name: "No bare colliding 'idle' node", pattern: /^\s+idle[: ]/m, absent: true },
+];
+
+runChecks("toMermaid (auto ids)", toMermaid(checkoutMachine), autoChecks);
+
+runChecks("toMermaidNested (auto ids)", toMermaidNested(checkoutMachine), [
+  ...autoChecks,
+  { name: "Nested initial points at path id", pattern: /state cart \{\n\s+\[\*\] --> cart_idle/ },
+]);
+
+runChecks(
+  "toMermaidNested (path ids, fully qualified names)",
+  toMermaidNested(checkoutMachine, { stateIds: "path", fullyQualifiedNames: true }),
+  [
+    { name: "Labels show dotted path", pattern: /cart_idle: <b>cart\.idle<\/b>/ },
+    { name: "Plain states aliased to dotted path", pattern: /state "payment\.error" as payment_error/ },
+    { name: "Top-level states keep short ids", pattern: /^ {4}done: done$/m },
+  ]
+);
+
+runChecks("toMermaid (path ids)", toMermaid(checkoutMachine, { stateIds: "path" }), [
+  { name: "Every nested state uses its path id", pattern: /cart_idle --> cart_error/ },
+  { name: "Short display name kept", pattern: /cart_idle: <b>idle<\/b>/ },
+]);
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL STATE ID CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ STATE ID CHECKS FAILED");
+  process.exit(1);
+}
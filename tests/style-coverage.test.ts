@@ -0,0 +1,114 @@
+#!/usr/bin/env npx tsx
+/**
+ * TAG STYLE COVERAGE TEST
+ *
+ * Renders the example order machine with tagStyles and ensures both renderers:
+ * 1. Emit a classDef plus class assignment per tag style that matches a state
+ * 2. Support predicate rules over tags, meta and state type
+ * 3. Skip classes no state matches
+ * 4. Hide styled tag text with includeTags: "unstyled" but keep the rest
+ * 5. Produce output Mermaid's stateDiagram-v2 parser accepts
+ */
+import { JSDOM } from "jsdom";
+import { createMachine } from "xstate";
+import { TAG_STYLE_PRESETS, toMermaid, toMermaidNested, type MermaidOptions } from "../index.js";
+import { orderMachine } from "../examples/order-machine.js";
+
+// Mermaid's sanitiser (DOMPurify) needs a window before mermaid is imported
+(globalThis as Record<string, unknown>).window = new JSDOM("").window;
+const { default: mermaid } = await import("mermaid");
+
+// ============================================================================
+// TESTS
+// ============================================================================
+console.log("=== TAG STYLE COVERAGE TEST ===\n");
+
+let allPassed = true;
+
+/** `absent: true` checks that the pattern does NOT occur */
+function runChecks(title: string, output: string, checks: Array<{ name: string; pattern: RegExp; absent?: boolean }>): void {
+  console.log(`\n--- ${title} ---\n`);
+  console.log("Generated Mermaid:\n");
+  console.log(output);
+  console.log("\nChecks:");
+  for (const check of checks) {
+    const found = check.pattern.test(output) !== (check.absent ?? false);
+    console.log(`  ${found ? "✅" : "❌"} ${check.name}`);
+    if (!found) {
+      allPassed = false;
+    }
+  }
+}
+
+const options: MermaidOptions = {
+  tagStyles: {
+    ...TAG_STYLE_PRESETS,
+    // Predicate over state type
+    terminal: { style: "stroke-width:4px", match: state => state.type === "final" || state.id === "order.cancelled" },
+    // Predicate over tags
+    guarded: { style: "font-style:italic", match: state => state.tags.some(tag => tag.startsWith("INV:")) },
+    unused: "fill:#000",
+  },
+  includeTags: "unstyled",
+};
+
+const sharedChecks = [
+  { name: "Error preset classDef", pattern: /^ {4}classDef error fill:#fee2e2,stroke:#dc2626,color:#991b1b$/m },
+  { name: "Error class assigned", pattern: /^ {4}class failed error$/m },
+  { name: "Success class assigned", pattern: /^ {4}class completed success$/m },
+  { name: "Loading preset is dashed", pattern: /^ {4}classDef loading [^\n]*stroke-dasharray:5 5/m },
+  { name: "Loading class lists every tagged state", pattern: /^ {4}class validating,processing loading$/m },
+  { name: "Predicate rule over type/id", pattern: /^ {4}class [^\n]*cancelled[^\n]* terminal$/m },
+  { name: "Predicate rule over tags", pattern: /^ {4}class validating,processing,completed,failed guarded$/m },
+  { name: "Unmatched class left out", pattern: /unused/, absent: true },
+  { name: "Styled tag text hidden", pattern: /\(loading\)|\(error\)|\(success\)/, absent: true },
+  { name: "Unstyled tag text kept", pattern: /Invariant∶stock_reserved/ },
+];
+
+const flat = toMermaid(orderMachine, options);
+const nested = toMermaidNested(orderMachine, options);
+runChecks("toMermaid", flat, sharedChecks);
+runChecks("toMermaidNested", nested, sharedChecks);
+
+const metaMachine = createMachine({
+  id: "review",
+  initial: "open",
+  states: {
+    open: { meta: { owner: "support" }, on: { CLOSE: "closed" } },
+    closed: { type: "final" },
+  },
+});
+runChecks("toMermaidNested (meta predicate)", toMermaidNested(metaMachine, {
+  tagStyles: { support: { style: "fill:#e0f2fe", match: state => state.meta?.["owner"] === "support" } },
+}), [
+  { name: "Predicate rule over meta", pattern: /^ {4}classDef support fill:#e0f2fe\n {4}class open support$/m },
+]);
+
+runChecks("toMermaid (no tagStyles)", toMermaid(orderMachine), [
+  { name: "No classDef without tagStyles", pattern: /classDef/, absent: true },
+  { name: "Tag text shown by default", pattern: /\(loading\)/ },
+]);
+
+console.log("\n--- Mermaid parser ---\n");
+for (const [title, output] of [["toMermaid", flat], ["toMermaidNested", nested]] as const) {
+  try {
+    await mermaid.parse(output);
+    console.log(`  ✅ ${title} parses as stateDiagram-v2`);
+  } catch (err) {
+    console.log(`  ❌ ${title} parses as stateDiagram-v2: ${(err as Error).message.split("\n")[0]}`);
+    allPassed = false;
+  }
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+console.log("\n\n=== SUMMARY ===\n");
+
+if (allPassed) {
+  console.log("✅ ALL TAG STYLE CHECKS PASSED");
+  process.exit(0);
+} else {
+  console.log("❌ TAG STYLE CHECKS FAILED");
+  process.exit(1);
+}